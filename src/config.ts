@@ -0,0 +1,131 @@
+/**
+ * Server configuration, read once at startup from command-line arguments
+ * and environment variables.  Command-line arguments take precedence.
+ *
+ * | Option          | Environment variable | Default        |
+ * | --------------- | -------------------- | -------------- |
+ * | `--sort-mode`   | `RESX_SORT_MODE`     | `alphabetical` |
+ * | `--transport`   | `RESX_TRANSPORT`     | `stdio`        |
+ * | `--host`        | `RESX_HTTP_HOST`     | `127.0.0.1`    |
+ * | `--port`        | `RESX_HTTP_PORT`     | `3000`         |
+ * | `--auth-token`  | `RESX_AUTH_TOKEN`    | (none)         |
+ * | `--root`        | `RESX_ROOTS`         | (none)         |
+ *
+ * `--host`, `--port` and `--auth-token` only apply to the `http` transport.
+ * `--root` may be repeated; `RESX_ROOTS` separates directories with the
+ * platform's path delimiter (`:` on Unix, `;` on Windows).
+ */
+
+import * as path from "node:path";
+
+import type { SortMode, TransportKind } from "./types.js";
+import { SORT_MODES, isSortMode } from "./utils/index.js";
+
+/**
+ * Settings that apply to the whole server process.
+ */
+export interface ServerConfig {
+  /** Default order of `<data>` entries on write; tools may override it. */
+  sortMode: SortMode;
+  /** How clients connect: over stdin/stdout or over HTTP. */
+  transport: TransportKind;
+  /** Address the HTTP transport binds to. */
+  host: string;
+  /** Port the HTTP transport listens on; `0` picks a free port. */
+  port: number;
+  /** Bearer token HTTP clients must send; omitted when auth is disabled. */
+  authToken?: string;
+  /** Directories tool paths must lie in; empty when not restricted. */
+  roots: string[];
+}
+
+/** Supported values of the `transport` option. */
+export const TRANSPORT_KINDS: readonly TransportKind[] = ["stdio", "http"];
+
+/**
+ * Build the server configuration from `argv` (without the node executable
+ * and script path) and `env`.
+ *
+ * Options are accepted as `--name value` or `--name=value`.  Throws a
+ * descriptive `Error` for unknown options or invalid values.
+ */
+export function loadServerConfig(
+  argv: readonly string[],
+  env: Record<string, string | undefined>,
+): ServerConfig {
+  const options = parseOptions(argv);
+
+  const sortMode =
+    lastOption(options, "sort-mode") ?? env.RESX_SORT_MODE ?? "alphabetical";
+  if (!isSortMode(sortMode)) {
+    throw new Error(
+      `Invalid sort mode '${sortMode}'; expected one of: ${SORT_MODES.join(", ")}.`,
+    );
+  }
+
+  const transport = lastOption(options, "transport") ?? env.RESX_TRANSPORT ?? "stdio";
+  if (!(TRANSPORT_KINDS as readonly string[]).includes(transport)) {
+    throw new Error(
+      `Invalid transport '${transport}'; expected one of: ${TRANSPORT_KINDS.join(", ")}.`,
+    );
+  }
+
+  const host = lastOption(options, "host") ?? env.RESX_HTTP_HOST ?? "127.0.0.1";
+
+  const portText = lastOption(options, "port") ?? env.RESX_HTTP_PORT ?? "3000";
+  const port = Number(portText);
+  if (!/^\d+$/.test(portText) || port > 65535) {
+    throw new Error(`Invalid port '${portText}'; expected a number from 0 to 65535.`);
+  }
+
+  const authToken = lastOption(options, "auth-token") ?? env.RESX_AUTH_TOKEN;
+
+  return {
+    sortMode,
+    transport: transport as TransportKind,
+    host,
+    port,
+    ...(authToken ? { authToken } : {}),
+    roots:
+      options.get("root") ??
+      (env.RESX_ROOTS ?? "").split(path.delimiter).filter((root) => root !== ""),
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+const KNOWN_OPTIONS = new Set([
+  "sort-mode",
+  "transport",
+  "host",
+  "port",
+  "auth-token",
+  "root",
+]);
+
+/** Every value given for each option, in command-line order. */
+function parseOptions(argv: readonly string[]): Map<string, string[]> {
+  const options = new Map<string, string[]>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? "";
+    const match = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+    if (!match?.[1] || !KNOWN_OPTIONS.has(match[1])) {
+      throw new Error(`Unknown command-line option '${arg}'.`);
+    }
+
+    const value = match[2] ?? argv[++i];
+    if (value === undefined || value === "") {
+      throw new Error(`Option '--${match[1]}' requires a value.`);
+    }
+    options.set(match[1], [...(options.get(match[1]) ?? []), value]);
+  }
+
+  return options;
+}
+
+/** The value of a single-valued option; the last one wins when repeated. */
+function lastOption(options: Map<string, string[]>, name: string): string | undefined {
+  const values = options.get(name);
+  return values?.[values.length - 1];
+}
@@ -0,0 +1,311 @@
+/**
+ * Serving MCP over HTTP, so that one server process can be shared by a team
+ * or reached by clients that cannot launch a subprocess.
+ *
+ * Two transports are mounted on the same port:
+ *
+ *   - `/mcp` — MCP Streamable HTTP (POST, GET and DELETE);
+ *   - `/sse` + `/messages` — the older HTTP+SSE transport, for clients that
+ *     do not speak Streamable HTTP yet.
+ *
+ * Every session gets its own server instance from the `createServer`
+ * factory, closed again when the session ends; messages logged while
+ * handling a session's requests are forwarded to that session only.  When a token is configured,
+ * each request must carry it as `Authorization: Bearer <token>`.  When bound
+ * to a loopback address, requests whose `Host` header names another host are
+ * refused, which protects against DNS rebinding from web pages.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+// The HTTP+SSE transport is deprecated in favour of Streamable HTTP but is
+// still the only one some clients support.
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+import type { createServer } from "./server.js";
+import { logger, runWithLoggerServer } from "./utils/index.js";
+
+/**
+ * Options of {@link startHttpServer}.
+ */
+export interface HttpServerOptions {
+  host: string;
+  /** Port to listen on; `0` picks a free port. */
+  port: number;
+  /** Bearer token clients must send; auth is disabled when omitted. */
+  authToken?: string;
+}
+
+/**
+ * A running HTTP server, as returned by {@link startHttpServer}.
+ */
+export interface HttpServerHandle {
+  /** Base URL the server listens on, e.g. `http://127.0.0.1:3000`. */
+  url: string;
+  /** Number of open MCP sessions across both transports. */
+  sessionCount(): number;
+  /** Close every session and stop listening. */
+  close(): Promise<void>;
+}
+
+/**
+ * Start serving MCP over HTTP, creating a server instance per session with
+ * `factory`.  Resolves once the port is bound.
+ */
+export async function startHttpServer(
+  factory: typeof createServer,
+  options: HttpServerOptions,
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+
+  const openSession = async (transport: Transport): Promise<Session> => {
+    const server = factory();
+    const session = { transport, server };
+    await server.connect(transport);
+    return session;
+  };
+
+  const closeSession = async (id: string): Promise<void> => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    await session.server.close();
+    logger.info(`Closed session ${id}`);
+  };
+
+  const handleStreamable = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> => {
+    const sessionId = header(req, "mcp-session-id");
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId !== undefined) {
+      const session = sessions.get(sessionId);
+      if (!(session?.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, "Session not found.");
+        return;
+      }
+      const transport = session.transport;
+      await runWithLoggerServer(session.server, () =>
+        transport.handleRequest(req, res, body),
+      );
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(
+        res,
+        400,
+        -32000,
+        "Bad request: no valid session ID; start a session with an initialize request.",
+      );
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, session);
+        logger.info(`Opened HTTP session ${id}`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) void closeSession(transport.sessionId);
+    };
+    const session = await openSession(transport);
+    await runWithLoggerServer(session.server, () =>
+      transport.handleRequest(req, res, body),
+    );
+    if (transport.sessionId === undefined) {
+      // Initialization was rejected; the session never started.
+      await session.server.close();
+    }
+  };
+
+  const handleSse = async (res: http.ServerResponse): Promise<void> => {
+    // eslint-disable-next-line @typescript-eslint/no-deprecated
+    const transport = new SSEServerTransport("/messages", res);
+    const id = transport.sessionId;
+    res.on("close", () => void closeSession(id));
+    sessions.set(id, await openSession(transport));
+    logger.info(`Opened SSE session ${id}`);
+  };
+
+  const handleSseMessage = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+  ): Promise<void> => {
+    const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+    // eslint-disable-next-line @typescript-eslint/no-deprecated
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, "Session not found.");
+      return;
+    }
+    const transport = session.transport;
+    const body = await readJsonBody(req);
+    await runWithLoggerServer(session.server, () =>
+      transport.handlePostMessage(req, res, body),
+    );
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    const handle = async (): Promise<void> => {
+      if (!isAllowedHost(req, options.host)) {
+        sendJsonRpcError(res, 403, -32000, "Forbidden: invalid Host header.");
+        return;
+      }
+      if (options.authToken !== undefined && !isAuthorized(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="resx-translations-mcp"');
+        sendJsonRpcError(
+          res,
+          401,
+          -32000,
+          "Unauthorized: missing or invalid bearer token.",
+        );
+        return;
+      }
+
+      if (
+        url.pathname === "/mcp" &&
+        ["POST", "GET", "DELETE"].includes(req.method ?? "")
+      ) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSse(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJsonRpcError(
+          res,
+          404,
+          -32000,
+          `Not found: ${req.method ?? ""} ${url.pathname}`,
+        );
+      }
+    };
+
+    handle().catch((error: unknown) => {
+      if (error instanceof RequestBodyError) {
+        sendJsonRpcError(res, error.status, -32700, error.message);
+        return;
+      }
+      logger.error(`HTTP request ${req.method ?? ""} ${url.pathname} failed`, error);
+      sendJsonRpcError(res, 500, -32603, "Internal server error.");
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host;
+
+  return {
+    url: `http://${host}:${String(port)}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      await Promise.all([...sessions.keys()].map((id) => closeSession(id)));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => {
+          if (error) reject(error);
+          else resolve();
+        });
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+interface Session {
+  transport: Transport;
+  server: ReturnType<typeof createServer>;
+}
+
+/** Largest accepted request body; tool arguments are small JSON documents. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1", "[::1]"]);
+
+/** A request body that cannot be read as JSON, answered with `status`. */
+class RequestBodyError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function header(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError(413, "Request body too large.");
+    }
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString("utf-8");
+  if (text.trim() === "") return undefined;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new RequestBodyError(400, "Parse error: request body is not valid JSON.");
+  }
+}
+
+/**
+ * When the server is bound to a loopback address, only accept requests
+ * addressed to a loopback host name.
+ */
+function isAllowedHost(req: http.IncomingMessage, bindHost: string): boolean {
+  if (!LOOPBACK_HOSTS.has(bindHost)) return true;
+  const hostHeader = header(req, "host") ?? "";
+  const hostname = hostHeader.replace(/:\d+$/, "");
+  return LOOPBACK_HOSTS.has(hostname);
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header(req, "authorization") ?? "");
+  if (!match?.[1]) return false;
+  // Compare digests so that the comparison takes the same time for any input.
+  const digest = (value: string): Buffer => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
@@ -4,34 +4,76 @@
  * Entry point for the resx-translations-mcp.
  *
  * Responsibilities are intentionally minimal:
- *   1. Wire up the MCP server to a stdio transport.
- *   2. Register graceful-shutdown handlers.
- *   3. Start listening.
+ *   1. Apply the configuration from command-line arguments / environment.
+ *   2. Wire up the MCP server to a stdio or HTTP transport.
+ *   3. Register graceful-shutdown handlers.
+ *   4. Start listening.
  */
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 
+import { loadServerConfig } from "./config.js";
+import type { ServerConfig } from "./config.js";
 import { SERVER_NAME, SERVER_VERSION } from "./constants.js";
+import { startHttpServer } from "./http-server.js";
 import { createServer } from "./server.js";
-import { logger, attachServerToLogger } from "./utils/index.js";
+import {
+  logger,
+  attachServerToLogger,
+  setDefaultSortMode,
+  setConfiguredRoots,
+  getConfiguredRoots,
+} from "./utils/index.js";
 
 async function main(): Promise<void> {
-  const server = createServer();
-  attachServerToLogger(server);
-  const transport = new StdioServerTransport();
+  const config = loadServerConfig(process.argv.slice(2), process.env);
+  setDefaultSortMode(config.sortMode);
+  setConfiguredRoots(config.roots);
+  if (config.roots.length > 0) {
+    logger.info(`Restricting file access to: ${getConfiguredRoots().join(", ")}`);
+  }
+
+  const close =
+    config.transport === "http" ? await serveHttp(config) : await serveStdio();
 
   // Graceful shutdown on SIGINT / SIGTERM.
   const shutdown = async (): Promise<void> => {
     logger.info("Shutting down…");
-    await server.close();
+    await close();
     process.exit(0);
   };
 
   process.on("SIGINT", shutdown);
   process.on("SIGTERM", shutdown);
+}
 
-  await server.connect(transport);
+/** Serve a single client over stdin/stdout; resolves to a close function. */
+async function serveStdio(): Promise<() => Promise<void>> {
+  const server = createServer();
+  attachServerToLogger(server);
+  await server.connect(new StdioServerTransport());
   logger.info(`${SERVER_NAME} v${SERVER_VERSION} running on stdio`);
+  return () => server.close();
+}
+
+/** Serve any number of sessions over HTTP; resolves to a close function. */
+async function serveHttp(config: ServerConfig): Promise<() => Promise<void>> {
+  const handle = await startHttpServer(createServer, {
+    host: config.host,
+    port: config.port,
+    ...(config.authToken !== undefined ? { authToken: config.authToken } : {}),
+  });
+  logger.info(
+    `${SERVER_NAME} v${SERVER_VERSION} running on ${handle.url}/mcp ` +
+      `(SSE fallback at ${handle.url}/sse${config.authToken ? ", bearer auth enabled" : ""})`,
+  );
+  if (!config.authToken && !["127.0.0.1", "localhost", "::1"].includes(config.host)) {
+    logger.warn(
+      `Listening on ${config.host} without an auth token; anyone who can reach ` +
+        "this address can read and modify translation files.",
+    );
+  }
+  return () => handle.close();
 }
 
 main().catch((error: unknown) => {
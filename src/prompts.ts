@@ -0,0 +1,428 @@
+/**
+ * MCP prompts: ready-made instructions for recurring localization work,
+ * filled in with the keys, default values, comments and existing
+ * translations of a resource set.
+ *
+ * | Prompt                | Purpose                                                 |
+ * | --------------------- | ------------------------------------------------------- |
+ * | `translate_missing`   | Translate the keys a culture is missing or has empty    |
+ * | `review_culture`      | Review every translation of a culture                   |
+ * | `add_feature_strings` | Draft new keys for a feature in every culture           |
+ *
+ * The prompts only read files; they tell the model which tools to call to
+ * apply its results.
+ */
+
+import * as path from "node:path";
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import type { ResxDataEntry, ResxVariant } from "./types.js";
+import {
+  requireResxPath,
+  requireString,
+  optionalString,
+  isCultureName,
+  assertPathArgumentsAllowed,
+  runWithClientRoots,
+  loadResourceSet,
+  getDataEntries,
+  indexEntries,
+  isEmptyValue,
+  isTextResource,
+  describeReadFailure,
+  logger,
+} from "./utils/index.js";
+
+/** Prompts advertised by `prompts/list`. */
+export const promptDefinitions: Prompt[] = [
+  {
+    name: "translate_missing",
+    description:
+      "Translate every key that is missing or empty in one culture file, keeping " +
+      "placeholders and markup intact, and write the results back.",
+    arguments: [
+      {
+        name: "basePath",
+        description: "Path to the base (default) .resx file",
+        required: true,
+      },
+      {
+        name: "culture",
+        description: "Culture to translate into, e.g. 'de-DE'",
+        required: true,
+      },
+      {
+        name: "instructions",
+        description: "Extra guidance, e.g. 'informal tone, use du'",
+      },
+    ],
+  },
+  {
+    name: "review_culture",
+    description:
+      "Review all translations of one culture against the default values for " +
+      "accuracy, consistency, tone and intact placeholders.",
+    arguments: [
+      {
+        name: "basePath",
+        description: "Path to the base (default) .resx file",
+        required: true,
+      },
+      {
+        name: "culture",
+        description: "Culture to review, e.g. 'de-DE'",
+        required: true,
+      },
+      {
+        name: "focus",
+        description: "What to pay particular attention to, e.g. 'tone'",
+      },
+    ],
+  },
+  {
+    name: "add_feature_strings",
+    description:
+      "Draft the user-facing strings for a new feature, following the resource " +
+      "set's key naming, with values for the default file and every culture.",
+    arguments: [
+      {
+        name: "basePath",
+        description: "Path to the base (default) .resx file",
+        required: true,
+      },
+      {
+        name: "feature",
+        description: "Description of the feature and the UI it needs",
+        required: true,
+      },
+      {
+        name: "keyPrefix",
+        description: "Prefix for the new keys, e.g. 'EXPORT_'",
+      },
+    ],
+  },
+];
+
+/**
+ * Register the `prompts/*` request handlers on `server`.  `getClientRoots`
+ * returns the client's MCP roots, which together with the configured roots
+ * bound the files a prompt may read.
+ *
+ * The server must be created with the `prompts` capability.
+ */
+export function registerPromptHandlers(
+  // eslint-disable-next-line @typescript-eslint/no-deprecated
+  server: Server,
+  getClientRoots: () => Promise<string[] | null>,
+): void {
+  server.setRequestHandler(ListPromptsRequestSchema, () => ({
+    prompts: promptDefinitions,
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    logger.debug(`Prompt requested: ${name}`);
+
+    try {
+      const clientRoots = await getClientRoots();
+      await assertPathArgumentsAllowed(args, clientRoots);
+      return await runWithClientRoots(clientRoots, () => buildPrompt(name, args));
+    } catch (error: unknown) {
+      if (error instanceof McpError) throw error;
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  });
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+function buildPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+): Promise<GetPromptResult> {
+  switch (name) {
+    case "translate_missing":
+      return buildTranslateMissing(args);
+    case "review_culture":
+      return buildReviewCulture(args);
+    case "add_feature_strings":
+      return buildAddFeatureStrings(args);
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
+
+/** Most existing keys shown to `add_feature_strings` as naming examples. */
+const MAX_EXAMPLE_KEYS = 40;
+
+interface LoadedResourceSet {
+  basePath: string;
+  variants: ResxVariant[];
+  /** Text entries of the default file, sorted by key. */
+  defaultEntries: ResxDataEntry[];
+  /** Key → entry index of every readable culture file. */
+  cultureEntries: Map<string, Map<string, ResxDataEntry>>;
+}
+
+async function buildTranslateMissing(
+  args: Record<string, string> | undefined,
+): Promise<GetPromptResult> {
+  const set = await loadSet(args?.basePath);
+  const culture = requireCulture(args?.culture);
+  const instructions = optionalString(args?.instructions, "instructions");
+  const target = requireCultureFile(set, culture);
+
+  const entries = set.defaultEntries
+    .filter((entry) => {
+      const existing = target.entries.get(entry.$.name);
+      return !existing || isEmptyValue(existing);
+    })
+    .map((entry) => ({
+      ...describeEntry(entry),
+      ...otherTranslations(set, entry.$.name, target.culture),
+    }));
+
+  const file = path.basename(target.file);
+  if (entries.length === 0) {
+    return userPrompt(
+      `Translations for ${file}`,
+      `Every key of ${path.basename(set.basePath)} already has a value in ${file}; ` +
+        `there is nothing to translate into ${describeCulture(culture)}.`,
+    );
+  }
+
+  return userPrompt(
+    `Translate ${String(entries.length)} missing key(s) into ${culture}`,
+    [
+      `Translate the following ${String(entries.length)} entries of the resource set ` +
+        `${set.basePath} into ${describeCulture(culture)}. They are missing or empty in ${file}.`,
+      "",
+      "Rules:",
+      "- Keep placeholders such as {0} or {1:N2} exactly as written; reorder them only when the grammar requires it.",
+      "- Keep HTML/XML tags, line breaks and leading or trailing whitespace.",
+      "- Follow the translator comment of an entry when it has one.",
+      "- Stay consistent with the existing translations shown for other cultures and with the terminology already used in this culture.",
+      ...(instructions ? [`- ${instructions}`] : []),
+      "",
+      "Entries (key, default value, comment and translations in other cultures):",
+      "",
+      jsonBlock(entries),
+      "",
+      `Then write all translations in one call to upsert_translations_batch with basePath ` +
+        `"${set.basePath}" and a translations map of key → { "${target.culture}": value }, and ` +
+        `run validate_translations on the same basePath to check the placeholders and tags.`,
+    ].join("\n"),
+  );
+}
+
+async function buildReviewCulture(
+  args: Record<string, string> | undefined,
+): Promise<GetPromptResult> {
+  const set = await loadSet(args?.basePath);
+  const culture = requireCulture(args?.culture);
+  const focus = optionalString(args?.focus, "focus");
+  const target = requireCultureFile(set, culture);
+
+  const entries = set.defaultEntries.map((entry) => {
+    const existing = target.entries.get(entry.$.name);
+    return {
+      ...describeEntry(entry),
+      translation:
+        existing && !isEmptyValue(existing) ? (existing.value?.[0] ?? "") : null,
+    };
+  });
+
+  return userPrompt(
+    `Review the ${culture} translations`,
+    [
+      `Review the ${describeCulture(culture)} translations in ${path.basename(target.file)} ` +
+        `of the resource set ${set.basePath} against the default values.`,
+      "",
+      "Check each entry for:",
+      "- meaning that differs from the default value, or text that was left untranslated;",
+      "- terminology that is inconsistent across entries;",
+      "- tone and register that do not fit the rest of the culture or the translator comment;",
+      "- placeholders such as {0}, HTML/XML tags or line breaks that were dropped or changed;",
+      "- spelling, grammar and punctuation.",
+      ...(focus ? ["", `Pay particular attention to: ${focus}`] : []),
+      "",
+      "A translation of null means the key is missing or empty in this culture.",
+      "",
+      jsonBlock(entries),
+      "",
+      "Report the problems as a list with the key, the issue and a suggested translation. " +
+        "Do not change any file until the suggestions are confirmed; then apply them with " +
+        `upsert_translations_batch using basePath "${set.basePath}".`,
+    ].join("\n"),
+  );
+}
+
+async function buildAddFeatureStrings(
+  args: Record<string, string> | undefined,
+): Promise<GetPromptResult> {
+  const set = await loadSet(args?.basePath);
+  const feature = requireString(args?.feature, "feature");
+  const keyPrefix = optionalString(args?.keyPrefix, "keyPrefix");
+
+  const cultures = set.variants
+    .filter((v) => v.language !== "default")
+    .map((v) => v.language);
+  const related = keyPrefix
+    ? set.defaultEntries.filter((entry) => entry.$.name.startsWith(keyPrefix))
+    : [];
+  const examples = (related.length > 0 ? related : set.defaultEntries)
+    .slice(0, MAX_EXAMPLE_KEYS)
+    .map((entry) => ({
+      ...describeEntry(entry),
+      ...otherTranslations(set, entry.$.name, null),
+    }));
+
+  return userPrompt(
+    "Add strings for a new feature",
+    [
+      `Add the user-facing strings for the following feature to the resource set ${set.basePath}:`,
+      "",
+      feature,
+      "",
+      "Guidelines:",
+      keyPrefix
+        ? `- Start every new key with "${keyPrefix}".`
+        : "- Name new keys like the existing ones shown below.",
+      "- Reuse an existing key instead of adding a duplicate when the text is the same; " +
+        "check with list_keys or search_translations before adding one.",
+      "- Use numbered placeholders such as {0} for values inserted at runtime.",
+      "- Add a translator comment wherever the context of a string is not obvious.",
+      cultures.length > 0
+        ? `- Provide a value for the default file and for every culture: ${cultures.join(", ")}.`
+        : "- The resource set has no culture files; provide default values only.",
+      "",
+      related.length > 0
+        ? `Existing keys starting with "${keyPrefix ?? ""}":`
+        : `Existing keys (${String(examples.length)} of ${String(set.defaultEntries.length)}):`,
+      "",
+      jsonBlock(examples),
+      "",
+      "Propose the new keys with their values first. Once they are confirmed, write them " +
+        `in one call to upsert_translations_batch with basePath "${set.basePath}" and a ` +
+        'translations map of key → { "default": value, <culture>: value, … }.',
+    ].join("\n"),
+  );
+}
+
+/** Validate `basePath` and load its resource set and default entries. */
+async function loadSet(basePathArg: unknown): Promise<LoadedResourceSet> {
+  const basePath = requireResxPath(basePathArg, "basePath");
+  const variants = await loadResourceSet(basePath);
+  const defaultVariant = variants.find((v) => v.language === "default");
+  if (!defaultVariant?.parsed) {
+    throw new Error(`Unable to read file: ${describeReadFailure(basePath)}`);
+  }
+
+  const defaultEntries = [...indexEntries(getDataEntries(defaultVariant)).values()]
+    .filter(isTextResource)
+    .sort((a, b) => a.$.name.localeCompare(b.$.name));
+  const cultureEntries = new Map(
+    variants
+      .filter((v) => v !== defaultVariant && v.parsed)
+      .map((v) => [v.language, indexEntries(getDataEntries(v))]),
+  );
+  return { basePath: path.resolve(basePath), variants, defaultEntries, cultureEntries };
+}
+
+function requireCulture(value: unknown): string {
+  const culture = requireString(value, "culture");
+  if (!isCultureName(culture)) {
+    throw new Error(`Parameter 'culture' must be a culture name such as 'de-DE'.`);
+  }
+  return culture;
+}
+
+/**
+ * The file and entries of `culture`, or throw when it has no readable file.
+ */
+function requireCultureFile(
+  set: LoadedResourceSet,
+  culture: string,
+): { culture: string; file: string; entries: Map<string, ResxDataEntry> } {
+  const variant = set.variants.find(
+    (v) => v.language.toLowerCase() === culture.toLowerCase(),
+  );
+  if (!variant) {
+    throw new Error(
+      `No .resx file for culture '${culture}'. Create it with create_culture_file first.`,
+    );
+  }
+  if (!variant.parsed) {
+    throw new Error(
+      `Unable to read file: ${describeReadFailure(variant.file, path.basename(variant.file))}`,
+    );
+  }
+  return {
+    culture: variant.language,
+    file: variant.file,
+    entries: indexEntries(getDataEntries(variant)),
+  };
+}
+
+function describeEntry(entry: ResxDataEntry): {
+  key: string;
+  default: string;
+  comment?: string;
+} {
+  const comment = entry.comment?.[0];
+  return {
+    key: entry.$.name,
+    default: entry.value?.[0] ?? "",
+    ...(comment ? { comment } : {}),
+  };
+}
+
+/** Non-empty values of `key` in every culture except `exclude`. */
+function otherTranslations(
+  set: LoadedResourceSet,
+  key: string,
+  exclude: string | null,
+): { translations?: Record<string, string> } {
+  const translations: Record<string, string> = {};
+  for (const [culture, entries] of set.cultureEntries) {
+    if (culture === exclude) continue;
+    const entry = entries.get(key);
+    if (entry && !isEmptyValue(entry)) translations[culture] = entry.value?.[0] ?? "";
+  }
+  return Object.keys(translations).length > 0 ? { translations } : {};
+}
+
+/** "de-DE (German (Germany))", or just the name when it has no display name. */
+function describeCulture(culture: string): string {
+  try {
+    const displayName = new Intl.DisplayNames(["en"], { type: "language" }).of(culture);
+    return displayName && displayName !== culture
+      ? `${culture} (${displayName})`
+      : culture;
+  } catch {
+    return culture;
+  }
+}
+
+function jsonBlock(value: unknown): string {
+  return ["```json", JSON.stringify(value, null, 2), "```"].join("\n");
+}
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
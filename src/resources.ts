@@ -0,0 +1,420 @@
+/**
+ * MCP resources: read-only JSON views of the resource sets below the allowed
+ * roots.
+ *
+ * | URI                                  | Content                                 |
+ * | ------------------------------------ | --------------------------------------- |
+ * | `resx://{+basePath}`                 | The resource set and its culture files  |
+ * | `resx://{+basePath}/{culture}`       | Key → value map of one culture file     |
+ * | `resx://{+basePath}/{culture}/{key}` | A single entry of one culture file      |
+ *
+ * `basePath` is the absolute path of the base `.resx` file with `/`
+ * separators, each segment percent-encoded; `culture` is `default` for the
+ * base file.  Only resource sets are listed — the culture and key views are
+ * reached through the templates.  Without any roots nothing is listed,
+ * since there is no directory the scan could be confined to; URIs can
+ * still be read directly.
+ *
+ * Clients may subscribe to any of these URIs.  A `resources/updated`
+ * notification is sent when a matching file is written by a tool or changes
+ * on disk; changes within a short interval are coalesced.
+ */
+
+import { watch, type FSWatcher } from "node:fs";
+import * as path from "node:path";
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import {
+  assertPathArgumentsAllowed,
+  runWithClientRoots,
+  getAllowedRoots,
+  findResxFilesInDirectory,
+  groupResourceSets,
+  loadResourceSet,
+  getDataEntries,
+  parseResxFile,
+  findEntry,
+  getCultureFilePath,
+  getVariantBasePath,
+  extractLanguageLabel,
+  getBaseName,
+  getResourceInfo,
+  formatEntryValue,
+  isCultureName,
+  describeReadFailure,
+  onResxFileWritten,
+  logger,
+} from "./utils/index.js";
+
+/** A resource URI split into its parts; `culture` and `key` are optional. */
+export interface ResxResourceTarget {
+  basePath: string;
+  culture?: string;
+  key?: string;
+}
+
+/**
+ * Build the `resx://` URI of a resource set, one of its culture files, or a
+ * single key.
+ */
+export function buildResxUri(basePath: string, culture?: string, key?: string): string {
+  const segments = path.resolve(basePath).split(path.sep);
+  if (culture !== undefined) segments.push(culture);
+  if (key !== undefined) segments.push(key);
+  return `resx://${segments.map(encodeURIComponent).join("/")}`;
+}
+
+/**
+ * Split a `resx://` URI into its parts, or return `null` when it is not a
+ * valid resx resource URI.
+ */
+export function parseResxUri(uri: string): ResxResourceTarget | null {
+  if (!uri.startsWith("resx://")) return null;
+
+  let segments: string[];
+  try {
+    segments = uri.slice("resx://".length).split("/").map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+
+  // The base file is the first `.resx` segment followed by at most a
+  // culture and a key, so keys that end in `.resx` are not mistaken for it.
+  const index = segments.findIndex(
+    (segment, i) => i >= segments.length - 3 && /\.resx$/i.test(segment),
+  );
+  if (index < 0) return null;
+
+  const [culture, key] = segments.slice(index + 1);
+  if (culture !== undefined && culture !== "default" && !isCultureName(culture)) {
+    return null;
+  }
+  if (key === "") return null;
+
+  return {
+    basePath: path.resolve(segments.slice(0, index + 1).join("/") || "/"),
+    ...(culture !== undefined ? { culture } : {}),
+    ...(key !== undefined ? { key } : {}),
+  };
+}
+
+/**
+ * Register the `resources/*` request handlers on `server` and start
+ * tracking its subscriptions.  `getClientRoots` returns the client's MCP
+ * roots, which together with the configured roots bound what can be read.
+ *
+ * The server must be created with the `resources` capability
+ * (`{ subscribe: true }`).
+ */
+export function registerResourceHandlers(
+  // eslint-disable-next-line @typescript-eslint/no-deprecated
+  server: Server,
+  getClientRoots: () => Promise<string[] | null>,
+): void {
+  const subscriptions = new Subscriptions(server);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listResourceSets(await getClientRoots()),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: "resx://{+basePath}/{culture}",
+        name: "Culture file",
+        description:
+          "Key → value map of one culture file of a resource set; use 'default' for the base file.",
+        mimeType: "application/json",
+      },
+      {
+        uriTemplate: "resx://{+basePath}/{culture}/{key}",
+        name: "Translation",
+        description: "Value and comment of one key in one culture file.",
+        mimeType: "application/json",
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const clientRoots = await getClientRoots();
+    const target = await resolveTarget(uri, clientRoots);
+    const content = await runWithClientRoots(clientRoots, () => readTarget(target));
+    return {
+      contents: [
+        { uri, mimeType: "application/json", text: JSON.stringify(content, null, 2) },
+      ],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    subscriptions.add(uri, await resolveTarget(uri, await getClientRoots()));
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.remove(request.params.uri);
+    return {};
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    previousOnClose?.();
+    subscriptions.close();
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/** JSON-RPC error code the MCP specification uses for unknown resources. */
+const RESOURCE_NOT_FOUND = -32002;
+
+/** Delay used to coalesce bursts of change events into one notification. */
+const NOTIFY_DELAY_MS = 100;
+
+async function listResourceSets(clientRoots: string[] | null): Promise<Resource[]> {
+  // Without roots there is nothing to bound the recursive scan; a server
+  // started from the home directory would crawl all of it on every list.
+  const roots = (await getAllowedRoots(clientRoots)) ?? [];
+  const resources = new Map<string, Resource>();
+
+  for (const root of roots) {
+    let files: string[];
+    try {
+      files = await findResxFilesInDirectory(root);
+    } catch (error: unknown) {
+      logger.warn(
+        `Unable to scan ${root} for resource sets: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      continue;
+    }
+
+    for (const { basePath, variants } of groupResourceSets(files)) {
+      const uri = buildResxUri(basePath);
+      const cultures = variants.map((v) => v.culture).sort();
+      resources.set(uri, {
+        uri,
+        name: path.relative(root, basePath).split(path.sep).join("/"),
+        description:
+          cultures.length > 0
+            ? `Resource set with ${String(cultures.length)} culture(s): ${cultures.join(", ")}`
+            : "Resource set without culture variants",
+        mimeType: "application/json",
+      });
+    }
+  }
+
+  return [...resources.values()];
+}
+
+/** Parse `uri` and check it against the allowed roots. */
+async function resolveTarget(
+  uri: string,
+  clientRoots: string[] | null,
+): Promise<ResxResourceTarget> {
+  const target = parseResxUri(uri);
+  if (!target) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid resource URI '${uri}'; expected resx://<base .resx path>[/<culture>[/<key>]].`,
+    );
+  }
+
+  try {
+    await assertPathArgumentsAllowed({ basePath: target.basePath }, clientRoots);
+  } catch (error: unknown) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+  return target;
+}
+
+async function readTarget(target: ResxResourceTarget): Promise<object> {
+  const { basePath, culture, key } = target;
+
+  if (culture === undefined) {
+    const variants = await loadResourceSet(basePath);
+    if (!variants.some((v) => v.language === "default")) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource set not found: ${basePath}`);
+    }
+    return {
+      basePath,
+      cultures: variants.map((variant) => ({
+        culture: variant.language,
+        file: path.basename(variant.file),
+        uri: buildResxUri(basePath, variant.language),
+        ...(variant.parsed
+          ? { keys: getDataEntries(variant).length }
+          : {
+              unreadable: describeReadFailure(variant.file, path.basename(variant.file)),
+            }),
+      })),
+    };
+  }
+
+  const file = getCultureFilePath(basePath, culture);
+  const parsed = await parseResxFile(file);
+  if (!parsed) {
+    throw new McpError(
+      RESOURCE_NOT_FOUND,
+      `Unable to read file: ${describeReadFailure(file)}`,
+    );
+  }
+  const entries = parsed.document.root.data ?? [];
+
+  if (key === undefined) {
+    const values: Record<string, string> = {};
+    const comments: Record<string, string> = {};
+    for (const entry of entries) {
+      if (entry.$.name in values) continue;
+      values[entry.$.name] = formatEntryValue(entry);
+      const comment = entry.comment?.[0];
+      if (comment) comments[entry.$.name] = comment;
+    }
+    return {
+      basePath,
+      culture,
+      file: path.basename(file),
+      values,
+      ...(Object.keys(comments).length > 0 ? { comments } : {}),
+    };
+  }
+
+  const entry = findEntry(entries, key);
+  if (!entry) {
+    throw new McpError(
+      RESOURCE_NOT_FOUND,
+      `Key '${key}' was not found in ${path.basename(file)}`,
+    );
+  }
+  const comment = entry.comment?.[0];
+  const resource = getResourceInfo(entry);
+  return {
+    key,
+    culture,
+    file: path.basename(file),
+    value: formatEntryValue(entry),
+    ...(comment ? { comment } : {}),
+    ...(resource ? { resource } : {}),
+  };
+}
+
+/**
+ * The resource subscriptions of one server, with the directory watchers
+ * and write listener that detect changes to the subscribed files.
+ */
+class Subscriptions {
+  private readonly targets = new Map<string, ResxResourceTarget>();
+  private readonly watchers = new Map<string, FSWatcher>();
+  private readonly pending = new Set<string>();
+  private timer: NodeJS.Timeout | undefined;
+  private readonly stopListening: () => void;
+
+  // eslint-disable-next-line @typescript-eslint/no-deprecated
+  constructor(private readonly server: Server) {
+    this.stopListening = onResxFileWritten((file) => {
+      this.changed(file);
+    });
+  }
+
+  add(uri: string, target: ResxResourceTarget): void {
+    this.targets.set(uri, target);
+    this.watch(path.dirname(target.basePath));
+  }
+
+  remove(uri: string): void {
+    const target = this.targets.get(uri);
+    this.targets.delete(uri);
+    if (!target) return;
+
+    const dir = path.dirname(target.basePath);
+    const stillWatched = [...this.targets.values()].some(
+      (t) => path.dirname(t.basePath) === dir,
+    );
+    if (!stillWatched) {
+      this.watchers.get(dir)?.close();
+      this.watchers.delete(dir);
+    }
+  }
+
+  close(): void {
+    this.stopListening();
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+    this.targets.clear();
+    clearTimeout(this.timer);
+  }
+
+  private watch(dir: string): void {
+    if (this.watchers.has(dir)) return;
+    try {
+      const watcher = watch(dir, (_event, fileName) => {
+        if (fileName?.endsWith(".resx")) this.changed(path.join(dir, fileName));
+      });
+      watcher.on("error", (error) => {
+        logger.warn(`Stopped watching ${dir}: ${error.message}`);
+        watcher.close();
+        this.watchers.delete(dir);
+      });
+      this.watchers.set(dir, watcher);
+    } catch (error: unknown) {
+      // Writes through the tools are still reported.
+      logger.warn(
+        `Unable to watch ${dir} for changes: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /** Queue a notification for every subscription that covers `file`. */
+  private changed(file: string): void {
+    const resolved = path.resolve(file);
+    const variantBase = getVariantBasePath(resolved);
+
+    for (const [uri, target] of this.targets) {
+      const culture =
+        resolved === target.basePath
+          ? "default"
+          : variantBase === target.basePath
+            ? extractLanguageLabel(resolved, getBaseName(target.basePath))
+            : null;
+      if (culture === null) continue;
+      if (
+        target.culture === undefined ||
+        target.culture.toLowerCase() === culture.toLowerCase()
+      ) {
+        this.pending.add(uri);
+      }
+    }
+
+    if (this.pending.size > 0 && this.timer === undefined) {
+      this.timer = setTimeout(() => {
+        this.flush();
+      }, NOTIFY_DELAY_MS);
+      this.timer.unref();
+    }
+  }
+
+  private flush(): void {
+    this.timer = undefined;
+    for (const uri of this.pending) {
+      this.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+        logger.error(`Unable to notify the client about ${uri}`, error);
+      });
+    }
+    this.pending.clear();
+  }
+}
@@ -3,32 +3,89 @@
 // SDK, but `McpServer` does not yet expose the same degree of control over
 // raw JSON-RPC request/response handling that we need here.  Revisit once
 // the SDK provides an equivalent API surface on `McpServer`.
+import { fileURLToPath } from "node:url";
+
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  RootsListChangedNotificationSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
 import { SERVER_NAME, SERVER_VERSION } from "./constants.js";
-import { logger } from "./utils/index.js";
+import { registerPromptHandlers } from "./prompts.js";
+import { registerResourceHandlers } from "./resources.js";
+import type { ToolResponse } from "./types.js";
+import { assertPathArgumentsAllowed, runWithClientRoots, logger } from "./utils/index.js";
 import {
   toolDefinitions,
   handleGetTranslations,
   handleUpsertTranslation,
+  handleDeleteTranslation,
+  handleRenameTranslationKey,
+  handleFindMissingTranslations,
+  handleUpsertTranslationsBatch,
+  handleListKeys,
+  handleSearchTranslations,
+  handleListResourceSets,
+  handleCreateCultureFile,
+  handleValidateTranslations,
+  handleLintResx,
+  handleExportXliff,
+  handleImportXliff,
+  handleExportCsv,
+  handleImportCsv,
+  handleExportJson,
+  handleImportJson,
+  handleGetEffectiveTranslation,
 } from "./tools/index.js";
 
 /**
- * Create and configure the MCP server instance with all tool handlers
- * registered.
+ * Create and configure the MCP server instance with all tool, resource and
+ * prompt handlers registered.
+ *
+ * Every path argument of a tool call, and every file the tool then reads
+ * or writes, is checked against the allowed roots: the configured ones
+ * and, when the client supports MCP `roots`, the client's, which are
+ * fetched after initialization and whenever the client reports a change.
  */
 // eslint-disable-next-line @typescript-eslint/no-deprecated
 export function createServer(): Server {
   // eslint-disable-next-line @typescript-eslint/no-deprecated
   const server = new Server(
     { name: SERVER_NAME, version: SERVER_VERSION },
-    { capabilities: { tools: {}, logging: {} } },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+        logging: {},
+      },
+    },
   );
 
+  // ── Track the client's roots ────────────────────────────────────────
+
+  // A promise, so that tool calls arriving while the roots are being
+  // fetched wait for them instead of running unrestricted.
+  let clientRoots: Promise<string[] | null> = Promise.resolve(null);
+
+  server.oninitialized = () => {
+    clientRoots = fetchClientRoots(server);
+  };
+
+  server.setNotificationHandler(RootsListChangedNotificationSchema, () => {
+    clientRoots = fetchClientRoots(server);
+  });
+
+  // ── Resources ──────────────────────────────────────────────────────
+
+  registerResourceHandlers(server, () => clientRoots);
+
+  // ── Prompts ────────────────────────────────────────────────────────
+
+  registerPromptHandlers(server, () => clientRoots);
+
   // ── List available tools ────────────────────────────────────────────
 
   server.setRequestHandler(ListToolsRequestSchema, () => ({
@@ -41,19 +98,9 @@ export function createServer(): Server {
     const { name, arguments: args } = request.params;
 
     try {
-      switch (name) {
-        case "get_translations":
-          return await handleGetTranslations(args);
-
-        case "upsert_translation":
-          return await handleUpsertTranslation(args);
-
-        default:
-          return {
-            content: [{ type: "text", text: `Unknown tool: ${name}` }],
-            isError: true,
-          };
-      }
+      const roots = await clientRoots;
+      await assertPathArgumentsAllowed(args, roots);
+      return await runWithClientRoots(roots, () => dispatchToolCall(name, args));
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
       logger.error(`Tool '${name}' failed`, error);
@@ -66,3 +113,98 @@ export function createServer(): Server {
 
   return server;
 }
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * The directories of the client's `file://` roots, or `null` when the
+ * client does not support roots.  If listing them fails, no roots are
+ * returned so that paths are refused rather than left unrestricted.
+ */
+// eslint-disable-next-line @typescript-eslint/no-deprecated
+async function fetchClientRoots(server: Server): Promise<string[] | null> {
+  if (!server.getClientCapabilities()?.roots) return null;
+
+  try {
+    const { roots } = await server.listRoots();
+    const directories = roots
+      .filter((root) => root.uri.startsWith("file://"))
+      .map((root) => fileURLToPath(root.uri));
+    logger.info(`Client roots: ${directories.join(", ") || "(none)"}`);
+    return directories;
+  } catch (error: unknown) {
+    logger.error("Unable to list the client's roots", error);
+    return [];
+  }
+}
+
+/** Run the handler of tool `name`. */
+async function dispatchToolCall(
+  name: string,
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  switch (name) {
+    case "get_translations":
+      return handleGetTranslations(args);
+
+    case "upsert_translation":
+      return handleUpsertTranslation(args);
+
+    case "delete_translation":
+      return handleDeleteTranslation(args);
+
+    case "rename_translation_key":
+      return handleRenameTranslationKey(args);
+
+    case "find_missing_translations":
+      return handleFindMissingTranslations(args);
+
+    case "upsert_translations_batch":
+      return handleUpsertTranslationsBatch(args);
+
+    case "list_keys":
+      return handleListKeys(args);
+
+    case "search_translations":
+      return handleSearchTranslations(args);
+
+    case "list_resource_sets":
+      return handleListResourceSets(args);
+
+    case "create_culture_file":
+      return handleCreateCultureFile(args);
+
+    case "validate_translations":
+      return handleValidateTranslations(args);
+
+    case "lint_resx":
+      return handleLintResx(args);
+
+    case "export_xliff":
+      return handleExportXliff(args);
+
+    case "import_xliff":
+      return handleImportXliff(args);
+
+    case "export_csv":
+      return handleExportCsv(args);
+
+    case "import_csv":
+      return handleImportCsv(args);
+
+    case "export_json":
+      return handleExportJson(args);
+
+    case "import_json":
+      return handleImportJson(args);
+
+    case "get_effective_translation":
+      return handleGetEffectiveTranslation(args);
+
+    default:
+      return {
+        content: [{ type: "text", text: `Unknown tool: ${name}` }],
+        isError: true,
+      };
+  }
+}
@@ -0,0 +1,153 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { ResxDataEntry, ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  requireString,
+  optionalString,
+  optionalSortMode,
+  parseResxFile,
+  writeResxFile,
+  previewResxWrite,
+  formatDiffBlock,
+  optionalBoolean,
+  getCultureFilePath,
+  isCultureName,
+  getResourceInfo,
+  withFileLock,
+  describeReadFailure,
+  logger,
+} from "../utils/index.js";
+
+/** How the new culture file is populated from the base file. */
+const ENTRY_MODES = ["none", "empty", "copy"] as const;
+type EntryMode = (typeof ENTRY_MODES)[number];
+
+/**
+ * Creates a new culture variant (e.g. `Language.fr-FR.resx`) next to a base
+ * `.resx` file.
+ *
+ * The new file reuses the base file's `<resheader>`, schema and other
+ * boilerplate and its line-ending style.  Depending on `entries` it starts
+ * with no `<data>` elements, every key with an empty value, or every key
+ * with the default value copied as a placeholder.  Non-string resources
+ * (files, images, typed values) are never copied: cultures fall back to the
+ * base file for them, and a blank value would not be valid for their type.
+ * With `dryRun`, the file is not created and its content is returned as a
+ * unified diff instead.
+ */
+export async function handleCreateCultureFile(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const basePath = requireResxPath(args?.basePath, "basePath");
+  const culture = requireString(args?.culture, "culture");
+  const mode = parseEntryMode(args?.entries);
+  const sortMode = optionalSortMode(args?.sortMode, "sortMode");
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
+
+  if (!isCultureName(culture)) {
+    throw new Error(
+      `Parameter 'culture' must be a valid culture name such as 'fr' or 'fr-FR' (got '${culture}').`,
+    );
+  }
+
+  const targetPath = getCultureFilePath(basePath, culture);
+
+  logger.info(`Creating ${path.basename(targetPath)} from ${path.basename(basePath)}`);
+
+  return withFileLock(targetPath, async () => {
+    if (await fileExists(targetPath)) {
+      return {
+        content: [{ type: "text", text: `File already exists: ${targetPath}` }],
+        isError: true,
+      };
+    }
+
+    const parsed = await parseResxFile(basePath);
+
+    if (!parsed) {
+      return {
+        content: [
+          { type: "text", text: `Unable to read file: ${describeReadFailure(basePath)}` },
+        ],
+        isError: true,
+      };
+    }
+
+    const { document: data, eol } = parsed;
+    const entries = Array.isArray(data.root.data) ? data.root.data : [];
+    const strings = entries.filter((e) => getResourceInfo(e) === null);
+    const newEntries = mode === "none" ? [] : strings.map((e) => toCultureEntry(e, mode));
+    const skipped = mode === "none" ? 0 : entries.length - strings.length;
+
+    // Everything except the <data> elements (resheaders, schema, assembly
+    // and metadata) is carried over from the base file unchanged.
+    data.root.data = newEntries;
+    const summary =
+      `${path.basename(targetPath)} ` +
+      `(${String(newEntries.length)} key(s), entries: ${mode}` +
+      (skipped > 0 ? `, ${String(skipped)} non-string resource(s) skipped` : "") +
+      ")";
+
+    if (dryRun) {
+      const diff = await previewResxWrite(targetPath, data, eol, { sortMode });
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Dry run: would create ${summary}; nothing was written.\n\n` +
+              formatDiffBlock(diff),
+          },
+        ],
+      };
+    }
+
+    await writeResxFile(targetPath, data, eol, { sortMode });
+
+    logger.info(
+      `Created ${path.basename(targetPath)} with ${String(newEntries.length)} key(s)`,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Successfully created ${summary}.`,
+        },
+      ],
+    };
+  });
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+function parseEntryMode(value: unknown): EntryMode {
+  const mode = optionalString(value, "entries") ?? "none";
+  if (!(ENTRY_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Parameter 'entries' must be one of: ${ENTRY_MODES.join(", ")}.`);
+  }
+  return mode as EntryMode;
+}
+
+/**
+ * Copy a base entry for the new culture, blanking the value in `empty`
+ * mode.  Translator comments are kept so the context travels with the key.
+ */
+function toCultureEntry(entry: ResxDataEntry, mode: EntryMode): ResxDataEntry {
+  return {
+    ...entry,
+    $: { ...entry.$ },
+    value: [mode === "copy" ? (entry.value?.[0] ?? "") : ""],
+  };
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,5 +1,28 @@
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 
+/**
+ * `sortMode` parameter shared by every tool that writes `.resx` files.
+ */
+const SORT_MODE_PROPERTY = {
+  type: "string",
+  enum: ["alphabetical", "ordinal", "preserve", "insert-sorted"],
+  description:
+    "How <data> entries are ordered on write: 'alphabetical' (case-insensitive), 'ordinal' " +
+    "(case-sensitive, like ResXResourceWriter), 'preserve' (keep the existing order and " +
+    "append new keys) or 'insert-sorted' (keep the existing order and insert new keys at " +
+    "their alphabetical position). Defaults to the server's configured sort mode.",
+};
+
+/**
+ * `dryRun` parameter shared by every tool that writes files.
+ */
+const DRY_RUN_PROPERTY = {
+  type: "boolean",
+  description:
+    "When true, read and modify the files as usual but write nothing; the response " +
+    "includes a unified diff of every file that would change. Defaults to false.",
+};
+
 /**
  * All MCP tool schemas exposed by this server.
  *
@@ -13,7 +36,11 @@ export const toolDefinitions: Tool[] = [
       "Retrieves all translations for a given key across every language-specific .resx file " +
       "related to the provided base file. Pass the path to the default .resx file (e.g. " +
       "Language.resx) and the tool will automatically discover all language variants " +
-      "(Language.en-US.resx, Language.pl-PL.resx, etc.) in the same directory.",
+      "(Language.en-US.resx, Language.pl-PL.resx, etc.) in the same directory; only suffixes " +
+      "that are valid culture names (de, de-DE, zh-Hans, ...) count as variants. Translator " +
+      "comments (<comment> elements) are returned per language when present. Non-string " +
+      "resources (file references, images, typed values) are reported with their type " +
+      "under 'resources' and shown as a placeholder instead of their raw payload.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -26,6 +53,19 @@ export const toolDefinitions: Tool[] = [
           type: "string",
           description: "The translation key to look up, e.g. 'BUTTON_SAVE'",
         },
+        includeSkipped: {
+          type: "boolean",
+          description:
+            "Also list sibling files sharing the base name that were not treated as " +
+            "language variants (e.g. LanguageExtras.resx), with the reason. Defaults to false.",
+        },
+        resolve: {
+          type: "boolean",
+          description:
+            "Also return, under 'resolved', the value each language would actually display " +
+            "at runtime and the culture it comes from, following .NET parent-culture " +
+            "fallback (de-AT → de → default). Defaults to false.",
+        },
       },
       required: ["basePath", "key"],
     },
@@ -34,8 +74,12 @@ export const toolDefinitions: Tool[] = [
     name: "upsert_translation",
     description:
       "Adds a new translation key or updates an existing one in the specified .resx file. " +
-      "After the operation the file is re-sorted alphabetically by key. " +
-      "Use the full path including the language suffix, e.g. Language.en-US.resx.",
+      "Entries are ordered according to the sort mode (alphabetical unless configured " +
+      "otherwise); only the affected <data> elements are rewritten. " +
+      "File references and binary resources (images, icons) are never overwritten; typed " +
+      "values such as System.Int32 keep their type. " +
+      "Use the full path including the language suffix, e.g. Language.en-US.resx. " +
+      "Use dryRun to preview the change and the previous value without writing.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -52,8 +96,622 @@ export const toolDefinitions: Tool[] = [
           type: "string",
           description: "The translation value, e.g. 'Save'",
         },
+        comment: {
+          type: "string",
+          description:
+            "Optional translator comment stored in <comment>. Pass an empty string to " +
+            "remove an existing comment; omit to leave it unchanged.",
+        },
+        validate: {
+          type: "boolean",
+          description:
+            "Check the value against the default file's value for the same key " +
+            "(placeholders, tags, whitespace, line breaks) and return any problems as " +
+            "warnings. The value is written either way. Defaults to false.",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+        sortMode: SORT_MODE_PROPERTY,
       },
       required: ["filePath", "key", "value"],
     },
   },
+  {
+    name: "delete_translation",
+    description:
+      "Removes a translation key from a .resx file. Pass filePath to target a single " +
+      "language file, or basePath together with allVariants: true to remove the key from " +
+      "the default file and every language variant (Language.en-US.resx, etc.) in the " +
+      "same directory. Reports per file whether the key was removed or already absent. " +
+      "Use dryRun to preview the removal as a unified diff without writing.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        filePath: {
+          type: "string",
+          description:
+            "Path to a specific .resx file, e.g. src/Translations/Language.en-US.resx. " +
+            "Required unless allVariants is true.",
+        },
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx. " +
+            "Required when allVariants is true.",
+        },
+        allVariants: {
+          type: "boolean",
+          description:
+            "When true, remove the key from every language variant of basePath. Defaults to false.",
+        },
+        key: {
+          type: "string",
+          description: "The translation key to remove, e.g. 'BUTTON_SAVE'",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+        sortMode: SORT_MODE_PROPERTY,
+      },
+      required: ["key"],
+    },
+  },
+  {
+    name: "rename_translation_key",
+    description:
+      "Renames a translation key in the base .resx file and every language variant in the " +
+      "same directory. The rename is atomic: it is rejected if the new key already exists in " +
+      "any file, and every file is rolled back if a write fails. Use dryRun to preview " +
+      "the rename as a unified diff per file without writing.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+        oldKey: {
+          type: "string",
+          description: "The existing translation key, e.g. 'BUTTON_SAVE'",
+        },
+        newKey: {
+          type: "string",
+          description: "The new translation key, e.g. 'ACTION_SAVE'",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+        sortMode: SORT_MODE_PROPERTY,
+      },
+      required: ["basePath", "oldKey", "newKey"],
+    },
+  },
+  {
+    name: "find_missing_translations",
+    description:
+      "Reports, for every language variant of a base .resx file, which keys from the default " +
+      "file are missing or have an empty value, and which keys exist only in the culture " +
+      "file. Results are grouped by language with per-language and total counts.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+      },
+      required: ["basePath"],
+    },
+  },
+  {
+    name: "upsert_translations_batch",
+    description:
+      "Adds or updates many translation keys in one call. Provide either an 'items' array of " +
+      "{ filePath, key, value, comment? } objects, or a base path plus a " +
+      "{ key: { culture: value } } map (use the culture 'default' for the base file). Each " +
+      "file is read, modified and written only once. Returns an added/updated/unchanged " +
+      "result per item. Use dryRun to preview the changes, with previous values and a " +
+      "unified diff per file, without writing.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        items: {
+          type: "array",
+          description: "Individual changes, each targeting a specific .resx file.",
+          items: {
+            type: "object",
+            properties: {
+              filePath: {
+                type: "string",
+                description: "Path to the target .resx file, e.g. Language.en-US.resx",
+              },
+              key: { type: "string", description: "The translation key" },
+              value: { type: "string", description: "The translation value" },
+              comment: {
+                type: "string",
+                description:
+                  "Optional translator comment stored in <comment>. An empty string removes it.",
+              },
+            },
+            required: ["filePath", "key", "value"],
+          },
+        },
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file. Required when 'translations' is used.",
+        },
+        translations: {
+          type: "object",
+          description:
+            "Map of key → { culture → value }, e.g. " +
+            '{ "BUTTON_SAVE": { "default": "Zapisz", "en-US": "Save" } }. ' +
+            "Culture files must already exist.",
+          additionalProperties: {
+            type: "object",
+            additionalProperties: { type: "string" },
+          },
+        },
+        dryRun: DRY_RUN_PROPERTY,
+        sortMode: SORT_MODE_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "list_keys",
+    description:
+      "Lists the translation keys contained in a .resx file in the order of the server's " +
+      "sort mode (alphabetical by default; file order for 'preserve' and 'insert-sorted'). " +
+      "Supports filtering by key prefix and/or regular expression and " +
+      "paging with offset/limit. Returns the total number of matching keys. With " +
+      "includeValues, non-string resources are shown as placeholders with their type.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        filePath: {
+          type: "string",
+          description: "Path to the .resx file, e.g. src/Translations/Language.resx",
+        },
+        prefix: {
+          type: "string",
+          description: "Only return keys starting with this prefix (case-sensitive)",
+        },
+        regex: {
+          type: "string",
+          description: "Only return keys matching this JavaScript regular expression",
+        },
+        includeValues: {
+          type: "boolean",
+          description: "Return { key, value } pairs instead of bare key names",
+        },
+        offset: {
+          type: "integer",
+          description: "Number of matching keys to skip. Defaults to 0.",
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of keys to return (1–1000). Defaults to 100.",
+        },
+      },
+      required: ["filePath"],
+    },
+  },
+  {
+    name: "search_translations",
+    description:
+      "Searches translation values across every language variant of a base .resx file, or " +
+      "across every resource set below a directory. Optionally also searches keys and " +
+      "comments. Supports substring (default), exact and regex modes, case-insensitive by " +
+      "default. Returns { file, culture, key, value } matches up to a limit.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        query: {
+          type: "string",
+          description: "Text or regular expression to search for, e.g. 'Save changes'",
+        },
+        basePath: {
+          type: "string",
+          description:
+            "Path to a base (default) .resx file whose variants should be searched. " +
+            "Provide either basePath or directory.",
+        },
+        directory: {
+          type: "string",
+          description:
+            "Directory to search recursively (bin/, obj/ and node_modules/ are skipped). " +
+            "Provide either basePath or directory.",
+        },
+        mode: {
+          type: "string",
+          enum: ["substring", "exact", "regex"],
+          description: "How the query is matched. Defaults to 'substring'.",
+        },
+        caseSensitive: {
+          type: "boolean",
+          description: "Match case-sensitively. Defaults to false.",
+        },
+        searchKeys: {
+          type: "boolean",
+          description: "Also match against key names. Defaults to false.",
+        },
+        searchComments: {
+          type: "boolean",
+          description: "Also match against <comment> text. Defaults to false.",
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of matches to return (1–500). Defaults to 50.",
+        },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "list_resource_sets",
+    description:
+      "Scans a directory recursively and lists every logical .resx resource set: the base " +
+      "file, its culture variants with key counts, and which cultures used elsewhere in the " +
+      "workspace have no file for this set. bin/, obj/, node_modules/ and paths excluded by " +
+      "the root .gitignore are skipped. Use this to find base paths for the other tools.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        rootDir: {
+          type: "string",
+          description: "Directory to scan, e.g. the solution root",
+        },
+      },
+      required: ["rootDir"],
+    },
+  },
+  {
+    name: "create_culture_file",
+    description:
+      "Creates a new language variant next to a base .resx file, e.g. Language.fr-FR.resx " +
+      "from Language.resx. The new file reuses the base file's <resheader>/schema " +
+      "boilerplate and line endings. Choose whether it starts with no entries, every key " +
+      "with an empty value, or every key with the default value copied as a placeholder " +
+      "(non-string resources such as images are never copied). " +
+      "Fails if the file already exists. Use dryRun to preview the new file without " +
+      "creating it.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+        culture: {
+          type: "string",
+          description: "Culture name of the new file, e.g. 'fr-FR' or 'fr'",
+        },
+        entries: {
+          type: "string",
+          enum: ["none", "empty", "copy"],
+          description:
+            "'none' (default) creates a file without entries, 'empty' adds every key with " +
+            "an empty value, 'copy' copies every default value as a placeholder.",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+        sortMode: SORT_MODE_PROPERTY,
+      },
+      required: ["basePath", "culture"],
+    },
+  },
+  {
+    name: "validate_translations",
+    description:
+      "Checks every language variant of a base .resx file against the default file and " +
+      "reports, per key and culture, translations whose composite format placeholders " +
+      "({0}, {1:N2}), HTML/XML tags, leading/trailing whitespace or number of line breaks " +
+      "differ from the default value. Dropped or renumbered placeholders make " +
+      "string.Format throw at runtime. Missing or empty translations are not reported; " +
+      "use find_missing_translations for those.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+      },
+      required: ["basePath"],
+    },
+  },
+  {
+    name: "lint_resx",
+    description:
+      "Checks .resx files for problems that break the .NET build or confuse tooling: " +
+      "duplicate keys, empty or non-identifier key names, keys differing only in case, " +
+      "missing or wrong resheader entries, malformed XML (with line and column), and " +
+      "encoding anomalies (UTF-16 files, invalid UTF-8, BOM, mismatched encoding " +
+      "declaration, mixed line endings). Pass filePath to lint one file, or basePath " +
+      "together with allVariants: true to lint the default file and every language variant.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        filePath: {
+          type: "string",
+          description:
+            "Path to the .resx file to lint, e.g. src/Translations/Language.en-US.resx. " +
+            "Required unless allVariants is true.",
+        },
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx. " +
+            "Required when allVariants is true.",
+        },
+        allVariants: {
+          type: "boolean",
+          description:
+            "When true, lint the default file and every language variant of basePath. Defaults to false.",
+        },
+      },
+    },
+  },
+  {
+    name: "export_xliff",
+    description:
+      "Exports the string resources of a base .resx file to XLIFF for translation vendors, " +
+      "writing one <base>.<culture>.xlf file per target culture. Sources come from the " +
+      "default file, targets from the culture file, and resx comments become <note> " +
+      "elements; keys missing or empty in the culture are marked as needing translation. " +
+      "Non-string resources are not exported. " +
+      "Use dryRun to preview the output as a diff against the files on disk.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+        sourceLanguage: {
+          type: "string",
+          description: "Culture of the default file's values, e.g. 'en' or 'pl-PL'",
+        },
+        cultures: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Target cultures, e.g. ['de-DE', 'fr']. Cultures without a .resx file yet are " +
+            "exported with every key needing translation. Defaults to every existing variant.",
+        },
+        version: {
+          type: "string",
+          enum: ["2.0", "1.2"],
+          description: "XLIFF version to write. Defaults to 2.0.",
+        },
+        outputDir: {
+          type: "string",
+          description:
+            "Directory to write the .xlf files to. Defaults to the base file's directory.",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ["basePath", "sourceLanguage"],
+    },
+  },
+  {
+    name: "import_xliff",
+    description:
+      "Imports a translated XLIFF 2.0 or 1.2 file back into the matching culture .resx " +
+      "(Language.<culture>.resx next to basePath; the culture defaults to the XLIFF target " +
+      "language). Units are matched to keys by id and translated targets are upserted. " +
+      "Units without a translation, for unknown keys or for non-string resources are skipped. " +
+      "Use dryRun to preview the added/updated/unchanged/skipped units without writing.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        xliffPath: {
+          type: "string",
+          description: "Path to the XLIFF file, e.g. translations/Language.de-DE.xlf",
+        },
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+        culture: {
+          type: "string",
+          description:
+            "Culture file to import into, e.g. 'de-DE'. Defaults to the XLIFF target language.",
+        },
+        sourceMismatch: {
+          type: "string",
+          enum: ["skip", "import", "fail"],
+          description:
+            "What to do with units whose source text no longer matches the current default " +
+            "value: 'skip' them (default), 'import' them anyway, or 'fail' the whole import.",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+        sortMode: SORT_MODE_PROPERTY,
+      },
+      required: ["xliffPath", "basePath"],
+    },
+  },
+  {
+    name: "export_csv",
+    description:
+      "Exports a resource set as a CSV matrix for review in a spreadsheet: one row per key " +
+      "of the default file, a column per language variant ('default' first) and a 'comment' " +
+      "column. Multiline values and values containing the delimiter or quotes are quoted. " +
+      "Non-string resources are not exported. " +
+      "Use dryRun to preview the output as a diff against the files on disk.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+        outputPath: {
+          type: "string",
+          description:
+            "Path of the CSV file to write. Defaults to <base>.csv next to the base file.",
+        },
+        delimiter: {
+          type: "string",
+          enum: [",", ";", "\t"],
+          description:
+            "Field separator: ',' (default), ';' (Excel in many European locales) or a tab.",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ["basePath"],
+    },
+  },
+  {
+    name: "import_csv",
+    description:
+      "Imports a CSV matrix (as written by export_csv) into a resource set. The header row " +
+      "must start with 'key', followed by 'default' and/or culture names and optionally " +
+      "'comment'. Empty cells are ignored. All affected files are locked for the whole " +
+      "import and each is written once; the response lists every changed value with its " +
+      "previous content. Use dryRun to preview the changes.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        csvPath: {
+          type: "string",
+          description: "Path to the CSV file, e.g. translations/Language.csv",
+        },
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+        delimiter: {
+          type: "string",
+          enum: [",", ";", "\t"],
+          description: "Field separator. Detected from the header row when omitted.",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+        sortMode: SORT_MODE_PROPERTY,
+      },
+      required: ["csvPath", "basePath"],
+    },
+  },
+  {
+    name: "export_json",
+    description:
+      "Exports every language variant of a base .resx file to a JSON locale file for " +
+      "frontend i18n libraries (i18next, ngx-translate, ...): <culture>.json per culture " +
+      "and <sourceLanguage>.json (or default.json) for the default file. Keys can be " +
+      "written flat or nested by a separator; keys missing in a culture are omitted or, " +
+      "with fallback, filled in with the default value. Non-string resources are not exported. " +
+      "Use dryRun to preview the output as a diff against the files on disk.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+        outputDir: {
+          type: "string",
+          description:
+            "Directory to write the .json files to, e.g. ClientApp/src/assets/i18n",
+        },
+        format: {
+          type: "string",
+          enum: ["flat", "nested"],
+          description:
+            "'flat' maps each key to its value; 'nested' splits keys on the separator into " +
+            "nested objects. Defaults to flat.",
+        },
+        separator: {
+          type: "string",
+          description: "Key separator for the nested format. Defaults to '.'.",
+        },
+        fallback: {
+          type: "boolean",
+          description:
+            "Fill in keys that are missing or empty in a culture with the default value. " +
+            "Defaults to false (such keys are omitted).",
+        },
+        sourceLanguage: {
+          type: "string",
+          description:
+            "Culture of the default file's values, e.g. 'en'; names its JSON file. " +
+            "Defaults to writing default.json.",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ["basePath", "outputDir"],
+    },
+  },
+  {
+    name: "import_json",
+    description:
+      "Imports JSON locale files (as written by export_json) from a directory into a " +
+      "resource set: <culture>.json into the culture variants and <sourceLanguage>.json " +
+      "(or default.json) into the default file. Nested objects are flattened with the " +
+      "separator. All files are updated under one lock and each is written at most once; " +
+      "the response lists every changed value with its previous content.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+        inputDir: {
+          type: "string",
+          description: "Directory containing the .json files",
+        },
+        sourceLanguage: {
+          type: "string",
+          description:
+            "Culture whose JSON file holds the default values, e.g. 'en'. Defaults to " +
+            "default.json.",
+        },
+        separator: {
+          type: "string",
+          description: "Separator used to join nested object keys. Defaults to '.'.",
+        },
+        skipFallbacks: {
+          type: "boolean",
+          description:
+            "Skip culture values equal to the default value for keys the culture has not " +
+            "translated yet, as written by export_json with fallback. Defaults to true.",
+        },
+        dryRun: DRY_RUN_PROPERTY,
+        sortMode: SORT_MODE_PROPERTY,
+      },
+      required: ["basePath", "inputDir"],
+    },
+  },
+  {
+    name: "get_effective_translation",
+    description:
+      "Returns the value an application running in a given culture would actually display " +
+      "for a key, following .NET ResourceManager fallback: the culture's own .resx file, " +
+      "then its parent cultures (de-AT → de, zh-TW → zh-Hant → zh), then the default file. " +
+      "The culture does not need a .resx file of its own. The response names the culture " +
+      "the value was resolved from and lists every culture consulted.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        basePath: {
+          type: "string",
+          description:
+            "Path to the base (default) .resx file, e.g. src/Translations/Language.resx",
+        },
+        key: {
+          type: "string",
+          description: "The translation key to look up, e.g. 'BUTTON_SAVE'",
+        },
+        culture: {
+          type: "string",
+          description: "Culture to resolve for, e.g. 'de-AT', or 'default'",
+        },
+      },
+      required: ["basePath", "key", "culture"],
+    },
+  },
 ];
@@ -0,0 +1,136 @@
+import * as path from "node:path";
+
+import type { DeleteFileResult, SortMode, ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  requireString,
+  optionalBoolean,
+  optionalSortMode,
+  parseResxFile,
+  writeResxFile,
+  previewResxWrite,
+  formatDiffBlock,
+  findRelatedResxFiles,
+  getBaseName,
+  extractLanguageLabel,
+  withFileLock,
+  describeReadFailure,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Removes a translation key from a single `.resx` file, or from every
+ * language variant related to a base file when `allVariants` is set.
+ *
+ * Each file is processed under its own exclusive lock, exactly like
+ * `upsert_translation`, so concurrent writers never lose changes.  With
+ * `dryRun`, nothing is written and a unified diff of each file that would
+ * change is returned instead.
+ */
+export async function handleDeleteTranslation(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const key = requireString(args?.key, "key");
+  const allVariants = optionalBoolean(args?.allVariants, "allVariants");
+  const sortMode = optionalSortMode(args?.sortMode, "sortMode");
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
+
+  if (!allVariants) {
+    const filePath = requireResxPath(args?.filePath, "filePath");
+    const { action, diff } = await deleteKeyFromFile(filePath, key, sortMode, dryRun);
+
+    if (action === "unreadable") {
+      return {
+        content: [
+          { type: "text", text: `Unable to read file: ${describeReadFailure(filePath)}` },
+        ],
+        isError: true,
+      };
+    }
+
+    const text =
+      action !== "removed"
+        ? `Key '${key}' was not present in ${path.basename(filePath)}; nothing to remove.`
+        : diff !== undefined
+          ? `Dry run: would remove key '${key}' from ${path.basename(filePath)}; ` +
+            `nothing was written.\n\n${formatDiffBlock(diff)}`
+          : `Successfully removed key '${key}' from ${path.basename(filePath)}.`;
+    return { content: [{ type: "text", text }] };
+  }
+
+  const basePath = requireResxPath(args?.basePath, "basePath");
+  const baseName = getBaseName(basePath);
+
+  logger.info(`Deleting key '${key}' from all variants of ${path.basename(basePath)}`);
+
+  const files = await findRelatedResxFiles(basePath);
+
+  if (files.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `No .resx files found matching pattern for: ${basePath}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const results: DeleteFileResult[] = [];
+  for (const file of files) {
+    results.push({
+      file: path.basename(file),
+      language: extractLanguageLabel(file, baseName),
+      ...(await deleteKeyFromFile(file, key, sortMode, dryRun)),
+    });
+  }
+
+  const removed = results.filter((r) => r.action === "removed").length;
+  logger.info(
+    `${dryRun ? "Dry run: would remove" : "Removed"} key '${key}' from ` +
+      `${String(removed)} of ${String(files.length)} file(s)`,
+  );
+
+  const result = { key, ...(dryRun ? { dryRun } : {}), results };
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * Remove every `<data>` element named `key` from `filePath` under an
+ * exclusive lock.  The file is only rewritten when something was removed,
+ * and never with `dryRun`, which returns the diff of the removal instead.
+ */
+async function deleteKeyFromFile(
+  filePath: string,
+  key: string,
+  sortMode: SortMode | undefined,
+  dryRun: boolean,
+): Promise<Pick<DeleteFileResult, "action" | "diff">> {
+  return withFileLock(filePath, async () => {
+    const parsed = await parseResxFile(filePath);
+    if (!parsed) return { action: "unreadable" };
+
+    const { document: data, eol } = parsed;
+    const entries = Array.isArray(data.root.data) ? data.root.data : [];
+    const remaining = entries.filter((d) => d.$.name !== key);
+
+    if (remaining.length === entries.length) {
+      logger.debug(`Key '${key}' not present in ${path.basename(filePath)}`);
+      return { action: "not_found" };
+    }
+
+    data.root.data = remaining;
+    if (dryRun) {
+      const diff = await previewResxWrite(filePath, data, eol, { sortMode });
+      return { action: "removed", diff };
+    }
+    await writeResxFile(filePath, data, eol, { sortMode });
+    logger.info(`Successfully removed key '${key}' from ${path.basename(filePath)}`);
+    return { action: "removed" };
+  });
+}
@@ -0,0 +1,111 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  optionalString,
+  optionalCsvDelimiter,
+  optionalBoolean,
+  loadResourceSet,
+  getDataEntries,
+  indexEntries,
+  getResourceInfo,
+  getBaseName,
+  formatCsv,
+  previewFileWrite,
+  describeReadFailure,
+  assertFileAllowed,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Exports a resource set as a key × culture matrix in CSV, for review in a
+ * spreadsheet: a `key` column, one column per language variant (`default`
+ * first) and a `comment` column with the default file's translator comment.
+ *
+ * Rows follow the default file's key order; missing translations are empty
+ * cells.  Non-string resources and keys that exist only in a culture file
+ * are not exported.  With `dryRun`, nothing is written; the response
+ * carries a unified diff of the CSV file against what is on disk instead.
+ */
+export async function handleExportCsv(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const basePath = requireResxPath(args?.basePath, "basePath");
+  const outputPath =
+    optionalString(args?.outputPath, "outputPath") ??
+    path.join(path.dirname(basePath), `${getBaseName(basePath)}.csv`);
+  const delimiter = optionalCsvDelimiter(args?.delimiter, "delimiter") ?? ",";
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
+
+  logger.info(`Exporting ${path.basename(basePath)} to ${path.basename(outputPath)}`);
+
+  const variants = await loadResourceSet(basePath);
+  const defaultVariant = variants.find((v) => v.language === "default");
+
+  if (!defaultVariant?.parsed) {
+    return {
+      content: [
+        { type: "text", text: `Unable to read file: ${describeReadFailure(basePath)}` },
+      ],
+      isError: true,
+    };
+  }
+
+  const unreadable = variants.filter((v) => !v.parsed);
+  if (unreadable.length > 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Unable to read file(s): ${unreadable
+            .map((v) => describeReadFailure(v.file, path.basename(v.file)))
+            .join(", ")}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // loadResourceSet returns the default variant first.
+  const defaults = indexEntries(getDataEntries(defaultVariant));
+  const keys = [...defaults.values()]
+    .filter((entry) => getResourceInfo(entry) === null)
+    .map((entry) => entry.$.name);
+  const columns = variants.map((variant) => indexEntries(getDataEntries(variant)));
+
+  const rows = [
+    ["key", ...variants.map((v) => v.language), "comment"],
+    ...keys.map((key) => [
+      key,
+      ...columns.map((entries) => entries.get(key)?.value?.[0] ?? ""),
+      defaults.get(key)?.comment?.[0] ?? "",
+    ]),
+  ];
+
+  const csv = formatCsv(rows, delimiter);
+  const diff = dryRun ? await previewFileWrite(outputPath, csv) : undefined;
+  if (!dryRun) {
+    await assertFileAllowed(outputPath);
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, csv, "utf-8");
+  }
+
+  logger.info(
+    `${dryRun ? "Dry run: would export" : "Exported"} ${String(keys.length)} key(s) ` +
+      `for ${String(variants.length - 1)} culture(s)`,
+  );
+
+  const result = {
+    ...(dryRun ? { dryRun } : {}),
+    file: outputPath,
+    keys: keys.length,
+    columns: rows[0],
+    ...(diff !== undefined ? { diff } : {}),
+  };
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+  };
+}
@@ -0,0 +1,161 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { JsonLocaleFormat, ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  requireString,
+  optionalString,
+  optionalKeySeparator,
+  optionalBoolean,
+  loadResourceSet,
+  getDataEntries,
+  indexEntries,
+  isEmptyValue,
+  getResourceInfo,
+  isCultureName,
+  buildJsonLocale,
+  isJsonLocaleFormat,
+  JSON_LOCALE_FORMATS,
+  previewFileWrite,
+  describeReadFailure,
+  assertFileAllowed,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Exports every language variant of `basePath` to a JSON locale file in
+ * `outputDir`: `<culture>.json` for each culture, and `<sourceLanguage>.json`
+ * (or `default.json` when the source language is not given) for the
+ * default file.
+ *
+ * Keys follow the default file's order; non-string resources and keys that
+ * exist only in a culture file are not exported.  Keys that are missing or
+ * empty in a culture are omitted, or filled in with the default value when
+ * `fallback` is set.  All files are built before any is written, so a key
+ * that cannot be nested fails the export without partial output.  With
+ * `dryRun`, nothing is written; each file result carries a unified diff
+ * against what is on disk instead.
+ */
+export async function handleExportJson(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const basePath = requireResxPath(args?.basePath, "basePath");
+  const outputDir = requireString(args?.outputDir, "outputDir");
+  const format = parseFormat(args?.format);
+  const separator = optionalKeySeparator(args?.separator, "separator");
+  const fallback = optionalBoolean(args?.fallback, "fallback");
+  const sourceLanguage = optionalString(args?.sourceLanguage, "sourceLanguage");
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
+
+  if (sourceLanguage !== undefined && !isCultureName(sourceLanguage)) {
+    throw new Error(
+      `Parameter 'sourceLanguage' must be a valid culture name such as 'en' or 'en-US' (got '${sourceLanguage}').`,
+    );
+  }
+
+  logger.info(`Exporting ${path.basename(basePath)} to ${format} JSON`);
+
+  const variants = await loadResourceSet(basePath);
+  const defaultVariant = variants.find((v) => v.language === "default");
+
+  if (!defaultVariant?.parsed) {
+    return {
+      content: [
+        { type: "text", text: `Unable to read file: ${describeReadFailure(basePath)}` },
+      ],
+      isError: true,
+    };
+  }
+
+  const unreadable = variants.filter((v) => !v.parsed);
+  if (unreadable.length > 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Unable to read file(s): ${unreadable
+            .map((v) => describeReadFailure(v.file, path.basename(v.file)))
+            .join(", ")}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const defaultName = sourceLanguage ?? "default";
+  if (variants.some((v) => v.language === defaultName && v !== defaultVariant)) {
+    throw new Error(
+      `Both the default file and a '${defaultName}' variant would be exported as ${defaultName}.json; ` +
+        "pass a different 'sourceLanguage'.",
+    );
+  }
+
+  const sources = getDataEntries(defaultVariant).filter(
+    (e) => getResourceInfo(e) === null,
+  );
+
+  // Build everything first so that a nesting conflict leaves no partial output.
+  const outputs = variants.map((variant) => {
+    const isDefault = variant === defaultVariant;
+    const targets = indexEntries(getDataEntries(variant));
+    const entries: [string, string][] = [];
+    let fallbacks = 0;
+
+    for (const source of sources) {
+      const key = source.$.name;
+      const target = targets.get(key);
+      if (target && (isDefault || !isEmptyValue(target))) {
+        entries.push([key, target.value?.[0] ?? ""]);
+      } else if (fallback) {
+        entries.push([key, source.value?.[0] ?? ""]);
+        fallbacks++;
+      }
+    }
+
+    const name = isDefault ? defaultName : variant.language;
+    return {
+      culture: variant.language,
+      file: path.join(outputDir, `${name}.json`),
+      keys: entries.length,
+      ...(fallback ? { fallbacks } : { missing: sources.length - entries.length }),
+      text: JSON.stringify(buildJsonLocale(entries, format, separator), null, 2) + "\n",
+    };
+  });
+
+  if (!dryRun) await fs.mkdir(outputDir, { recursive: true });
+  const files = [];
+  for (const { text, ...summary } of outputs) {
+    const diff = dryRun ? await previewFileWrite(summary.file, text) : undefined;
+    if (!dryRun) {
+      await assertFileAllowed(summary.file);
+      await fs.writeFile(summary.file, text, "utf-8");
+    }
+    files.push({ ...summary, ...(diff !== undefined ? { diff } : {}) });
+  }
+
+  logger.info(
+    `${dryRun ? "Dry run: would export" : "Exported"} ${String(outputs.length)} JSON file(s)`,
+  );
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({ ...(dryRun ? { dryRun } : {}), format, files }, null, 2),
+      },
+    ],
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+function parseFormat(value: unknown): JsonLocaleFormat {
+  const format = optionalString(value, "format") ?? "flat";
+  if (!isJsonLocaleFormat(format)) {
+    throw new Error(
+      `Parameter 'format' must be one of: ${JSON_LOCALE_FORMATS.join(", ")}.`,
+    );
+  }
+  return format;
+}
@@ -0,0 +1,185 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { ToolResponse, XliffUnit, XliffVersion } from "../types.js";
+import {
+  requireResxPath,
+  requireString,
+  optionalString,
+  optionalStringArray,
+  optionalBoolean,
+  loadResourceSet,
+  getDataEntries,
+  indexEntries,
+  isEmptyValue,
+  getResourceInfo,
+  getBaseName,
+  isCultureName,
+  buildXliff,
+  isXliffVersion,
+  XLIFF_VERSIONS,
+  previewFileWrite,
+  describeReadFailure,
+  assertFileAllowed,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Exports the string resources of `basePath` to one XLIFF file per target
+ * culture (`<base>.<culture>.xlf` in `outputDir`, next to the base file by
+ * default).
+ *
+ * Sources come from the default file and targets from the culture file;
+ * translator comments become `<note>` elements.  Keys that are missing or
+ * empty in the culture — or all keys, when the culture has no file yet —
+ * are marked as needing translation.  Non-string resources are not
+ * exported.  Without `cultures`, every existing culture variant is exported.
+ * With `dryRun`, nothing is written; each file result carries a unified
+ * diff against what is on disk instead.
+ */
+export async function handleExportXliff(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const basePath = requireResxPath(args?.basePath, "basePath");
+  const sourceLanguage = requireCulture(args?.sourceLanguage, "sourceLanguage");
+  const requested = optionalStringArray(args?.cultures, "cultures");
+  const version = parseVersion(args?.version);
+  const outputDir =
+    optionalString(args?.outputDir, "outputDir") ?? path.dirname(basePath);
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
+
+  requested?.forEach((culture, index) =>
+    requireCulture(culture, `cultures[${String(index)}]`),
+  );
+
+  logger.info(`Exporting ${path.basename(basePath)} to XLIFF ${version}`);
+
+  const variants = await loadResourceSet(basePath);
+  const defaultVariant = variants.find((v) => v.language === "default");
+
+  if (!defaultVariant?.parsed) {
+    return {
+      content: [
+        { type: "text", text: `Unable to read file: ${describeReadFailure(basePath)}` },
+      ],
+      isError: true,
+    };
+  }
+
+  const cultures =
+    requested ?? variants.filter((v) => v !== defaultVariant).map((v) => v.language);
+
+  if (cultures.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `No culture variants of ${path.basename(basePath)} found; pass 'cultures' to export for new languages.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const unreadable = variants.filter((v) => cultures.includes(v.language) && !v.parsed);
+  if (unreadable.length > 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Unable to read file(s): ${unreadable
+            .map((v) => describeReadFailure(v.file, path.basename(v.file)))
+            .join(", ")}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const sources = getDataEntries(defaultVariant).filter(
+    (e) => getResourceInfo(e) === null,
+  );
+  const baseName = getBaseName(basePath);
+  if (!dryRun) await fs.mkdir(outputDir, { recursive: true });
+
+  const files: {
+    culture: string;
+    file: string;
+    units: number;
+    needsTranslation: number;
+    diff?: string;
+  }[] = [];
+
+  for (const culture of cultures) {
+    const variant = variants.find((v) => v.language === culture);
+    const targets = indexEntries(variant ? getDataEntries(variant) : []);
+
+    const units: XliffUnit[] = sources.map((entry) => {
+      const target = targets.get(entry.$.name);
+      const note = entry.comment?.[0];
+      const translated = target !== undefined && !isEmptyValue(target);
+      return {
+        id: entry.$.name,
+        source: entry.value?.[0] ?? "",
+        ...(translated ? { target: target.value?.[0] ?? "" } : {}),
+        ...(note ? { note } : {}),
+        state: translated ? "translated" : "needs-translation",
+      };
+    });
+
+    const file = path.join(outputDir, `${baseName}.${culture}.xlf`);
+    const xliff = buildXliff({
+      version,
+      sourceLanguage,
+      targetLanguage: culture,
+      original: path.basename(basePath),
+      units,
+    });
+    const diff = dryRun ? await previewFileWrite(file, xliff) : undefined;
+    if (!dryRun) {
+      await assertFileAllowed(file);
+      await fs.writeFile(file, xliff, "utf-8");
+    }
+
+    files.push({
+      culture,
+      file,
+      units: units.length,
+      needsTranslation: units.filter((u) => u.state === "needs-translation").length,
+      ...(diff !== undefined ? { diff } : {}),
+    });
+  }
+
+  logger.info(
+    `${dryRun ? "Dry run: would export" : "Exported"} ${String(files.length)} XLIFF file(s)`,
+  );
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({ ...(dryRun ? { dryRun } : {}), version, files }, null, 2),
+      },
+    ],
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+function requireCulture(value: unknown, paramName: string): string {
+  const culture = requireString(value, paramName);
+  if (!isCultureName(culture)) {
+    throw new Error(
+      `Parameter '${paramName}' must be a valid culture name such as 'fr' or 'fr-FR' (got '${culture}').`,
+    );
+  }
+  return culture;
+}
+
+function parseVersion(value: unknown): XliffVersion {
+  const version = optionalString(value, "version") ?? "2.0";
+  if (!isXliffVersion(version)) {
+    throw new Error(`Parameter 'version' must be one of: ${XLIFF_VERSIONS.join(", ")}.`);
+  }
+  return version;
+}
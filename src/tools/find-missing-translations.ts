@@ -0,0 +1,107 @@
+import * as path from "node:path";
+
+import type { MissingTranslationsReport, ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  loadResourceSet,
+  getDataEntries,
+  indexEntries,
+  isEmptyValue,
+  getResourceInfo,
+  describeReadFailure,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Reports, for every culture variant of `basePath`, which keys of the
+ * default file are missing or empty, and which keys exist only in the
+ * culture file.  Non-string resources of the default file are not expected
+ * in culture files.
+ */
+export async function handleFindMissingTranslations(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const basePath = requireResxPath(args?.basePath, "basePath");
+
+  logger.info(
+    `Checking for missing translations in variants of ${path.basename(basePath)}`,
+  );
+
+  const variants = await loadResourceSet(basePath);
+  const defaultVariant = variants.find((v) => v.language === "default");
+
+  if (!defaultVariant?.parsed) {
+    return {
+      content: [
+        { type: "text", text: `Unable to read file: ${describeReadFailure(basePath)}` },
+      ],
+      isError: true,
+    };
+  }
+
+  const defaultEntries = getDataEntries(defaultVariant);
+
+  // Non-string resources (file references, binary data) are not translated;
+  // cultures fall back to the base file for them.
+  const defaultKeys = defaultEntries
+    .filter((entry) => getResourceInfo(entry) === null)
+    .map((entry) => entry.$.name)
+    .sort((a, b) => a.localeCompare(b));
+
+  const defaultKeySet = new Set(defaultEntries.map((entry) => entry.$.name));
+
+  const languages: Record<string, MissingTranslationsReport> = {};
+  const unreadable: string[] = [];
+  const totals = { missing: 0, empty: 0, extra: 0 };
+
+  for (const variant of variants) {
+    if (variant === defaultVariant) continue;
+    if (!variant.parsed) {
+      unreadable.push(describeReadFailure(variant.file, path.basename(variant.file)));
+      continue;
+    }
+
+    const entries = indexEntries(getDataEntries(variant));
+    const missing: string[] = [];
+    const empty: string[] = [];
+
+    for (const key of defaultKeys) {
+      const entry = entries.get(key);
+      if (!entry) missing.push(key);
+      else if (isEmptyValue(entry)) empty.push(key);
+    }
+
+    const extra = [...entries.keys()]
+      .filter((key) => !defaultKeySet.has(key))
+      .sort((a, b) => a.localeCompare(b));
+
+    languages[variant.language] = {
+      file: path.basename(variant.file),
+      missing,
+      empty,
+      extra,
+      counts: { missing: missing.length, empty: empty.length, extra: extra.length },
+    };
+
+    totals.missing += missing.length;
+    totals.empty += empty.length;
+    totals.extra += extra.length;
+  }
+
+  const result = {
+    basePath: path.basename(basePath),
+    defaultKeyCount: defaultKeys.length,
+    languages,
+    totals,
+    ...(unreadable.length > 0 ? { unreadable } : {}),
+  };
+
+  logger.info(
+    `Found ${String(totals.missing)} missing and ${String(totals.empty)} empty translation(s) ` +
+      `across ${String(Object.keys(languages).length)} culture(s)`,
+  );
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+  };
+}
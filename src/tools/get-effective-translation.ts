@@ -0,0 +1,117 @@
+import * as path from "node:path";
+
+import type { ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  requireString,
+  parseResxFile,
+  findEntry,
+  getResourceInfo,
+  formatEntryValue,
+  discoverResxVariants,
+  getCultureFallbackChain,
+  isCultureName,
+  describeReadFailure,
+  logger,
+} from "../utils/index.js";
+
+/** Outcome of consulting one culture of the fallback chain. */
+type FallbackStep =
+  | { culture: string; file: string; status: "found" | "not found" | "no value" }
+  | { culture: string; file: null; status: "no file" };
+
+/**
+ * Returns the value an application running in `culture` would display for
+ * `key`, following .NET `ResourceManager` fallback: the culture's own file,
+ * then its parent cultures (`de-AT` → `de`), then the default file.
+ *
+ * The culture does not need a `.resx` file of its own.  An entry without a
+ * `<value>` falls through to the parent, whereas an empty value is
+ * displayed as is, just like at runtime.  Each consulted culture is listed
+ * in `fallbackChain` with the reason it did or did not supply the value.
+ */
+export async function handleGetEffectiveTranslation(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const basePath = requireResxPath(args?.basePath, "basePath");
+  const key = requireString(args?.key, "key");
+  const culture = requireString(args?.culture, "culture");
+
+  if (culture !== "default" && !isCultureName(culture)) {
+    throw new Error(
+      `Parameter 'culture' must be 'default' or a valid culture name such as 'de' or 'de-AT' (got '${culture}').`,
+    );
+  }
+
+  logger.info(
+    `Resolving key '${key}' for culture '${culture}' in ${path.basename(basePath)}`,
+  );
+
+  const { variants } = await discoverResxVariants(basePath);
+  if (variants.length === 0) {
+    return {
+      content: [
+        { type: "text", text: `No .resx files found matching pattern for: ${basePath}` },
+      ],
+      isError: true,
+    };
+  }
+
+  const fileOf = new Map(variants.map((v) => [v.culture.toLowerCase(), v.file]));
+  const chain = getCultureFallbackChain(culture);
+  const steps: FallbackStep[] = [];
+
+  for (const candidate of chain) {
+    const file = fileOf.get(candidate.toLowerCase());
+    if (!file) {
+      steps.push({ culture: candidate, file: null, status: "no file" });
+      continue;
+    }
+
+    const parsed = await parseResxFile(file);
+    if (!parsed) {
+      return {
+        content: [
+          { type: "text", text: `Unable to read file: ${describeReadFailure(file)}` },
+        ],
+        isError: true,
+      };
+    }
+
+    const entry = findEntry(parsed.document.root.data ?? [], key);
+    const status = !entry
+      ? "not found"
+      : entry.value === undefined
+        ? "no value"
+        : "found";
+    steps.push({ culture: candidate, file: path.basename(file), status });
+    if (!entry || status !== "found") continue;
+
+    const comment = entry.comment?.[0];
+    const resource = getResourceInfo(entry);
+    const result = {
+      key,
+      culture,
+      value: formatEntryValue(entry),
+      resolvedFrom: candidate,
+      ...(comment ? { comment } : {}),
+      ...(resource ? { resource } : {}),
+      fallbackChain: steps,
+    };
+
+    logger.info(`Resolved '${key}' for '${culture}' from '${candidate}'`);
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Key '${key}' was not found for culture '${culture}' or any of its fallbacks: ${chain.join(" → ")}`,
+      },
+    ],
+  };
+}
@@ -1,31 +1,44 @@
 import * as path from "node:path";
 
-import type { TranslationResult } from "../types.js";
+import type {
+  ResourceInfo,
+  ResxDataEntry,
+  TranslationResult,
+  ToolResponse,
+} from "../types.js";
 import { EMPTY_VALUE_PLACEHOLDER, NOT_FOUND_PLACEHOLDER } from "../constants.js";
 import {
   requireResxPath,
   requireString,
+  optionalBoolean,
   parseResxFile,
-  findRelatedResxFiles,
-  getBaseName,
-  extractLanguageLabel,
+  getResourceInfo,
+  formatEntryValue,
+  discoverResxVariants,
+  resolveWithFallback,
+  describeReadFailure,
   logger,
 } from "../utils/index.js";
 
 /**
  * Retrieves all translations for `key` across every language variant related
  * to `basePath`.
+ *
+ * With `resolve`, also reports the value each language would actually
+ * display at runtime, following .NET's parent-culture fallback.
  */
 export async function handleGetTranslations(
   args: Record<string, unknown> | undefined,
-): Promise<{ content: { type: string; text: string }[]; isError?: boolean }> {
+): Promise<ToolResponse> {
   const basePath = requireResxPath(args?.basePath, "basePath");
   const key = requireString(args?.key, "key");
-  const baseName = getBaseName(basePath);
+  const includeSkipped = optionalBoolean(args?.includeSkipped, "includeSkipped");
+  const resolve = optionalBoolean(args?.resolve, "resolve");
 
   logger.info(`Looking up key '${key}' across variants of ${path.basename(basePath)}`);
 
-  const files = await findRelatedResxFiles(basePath);
+  const { variants, skipped } = await discoverResxVariants(basePath);
+  const files = variants.map((v) => v.file);
 
   if (files.length === 0) {
     return {
@@ -40,18 +53,28 @@ export async function handleGetTranslations(
   }
 
   const translations: Record<string, string> = {};
+  const comments: Record<string, string> = {};
+  const resources: Record<string, ResourceInfo> = {};
+  const unreadable: string[] = [];
+  const entries = new Map<string, ResxDataEntry>();
   let found = false;
 
-  for (const file of files) {
+  for (const { file, culture: lang } of variants) {
     const parsed = await parseResxFile(file);
+    if (!parsed) unreadable.push(describeReadFailure(file, path.basename(file)));
     if (!parsed?.document.root.data || !Array.isArray(parsed.document.root.data))
       continue;
 
     const entry = parsed.document.root.data.find((d) => d.$.name === key);
-    const lang = extractLanguageLabel(file, baseName);
 
     if (entry) {
-      translations[lang] = entry.value?.[0] ?? EMPTY_VALUE_PLACEHOLDER;
+      entries.set(lang.toLowerCase(), entry);
+      const resource = getResourceInfo(entry);
+      translations[lang] =
+        entry.value === undefined ? EMPTY_VALUE_PLACEHOLDER : formatEntryValue(entry);
+      const comment = entry.comment?.[0];
+      if (comment) comments[lang] = comment;
+      if (resource) resources[lang] = resource;
       found = true;
     } else {
       translations[lang] = NOT_FOUND_PLACEHOLDER;
@@ -70,6 +93,24 @@ export async function handleGetTranslations(
   }
 
   const result: TranslationResult = { key, translations };
+  if (Object.keys(comments).length > 0) result.comments = comments;
+  if (Object.keys(resources).length > 0) result.resources = resources;
+  if (resolve) {
+    result.resolved = {};
+    for (const { culture: lang } of variants) {
+      const hit = resolveWithFallback(lang, (c) => {
+        const entry = entries.get(c.toLowerCase());
+        return entry?.value === undefined ? undefined : entry;
+      });
+      result.resolved[lang] = hit
+        ? { value: formatEntryValue(hit.value), resolvedFrom: hit.culture }
+        : { value: NOT_FOUND_PLACEHOLDER, resolvedFrom: null };
+    }
+  }
+  if (unreadable.length > 0) result.unreadable = unreadable;
+  if (includeSkipped) {
+    result.skipped = skipped.map((s) => ({ file: path.basename(s.file), reason: s.reason }));
+  }
   logger.info(`Found translations for '${key}' in ${Object.keys(translations).length} file(s)`);
 
   return {
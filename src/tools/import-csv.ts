@@ -0,0 +1,114 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { ToolResponse, TranslationMatrix } from "../types.js";
+import {
+  requireResxPath,
+  requireString,
+  optionalBoolean,
+  optionalSortMode,
+  optionalCsvDelimiter,
+  parseCsv,
+  detectCsvDelimiter,
+  isCultureName,
+  importTranslationMatrix,
+  toReadError,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Imports a key × culture CSV matrix (as written by `export_csv`) into the
+ * resource set of `basePath`.
+ *
+ * The header row names the columns: `key`, then `default` and/or culture
+ * names, and optionally `comment` (the default file's translator comment).
+ * Empty cells are ignored, so a sheet that only fills in some translations
+ * never blanks the others.  Every affected file is written at most once,
+ * under a lock held for the whole import, and the response lists each
+ * value that changed with its previous content.
+ */
+export async function handleImportCsv(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const csvPath = requireString(args?.csvPath, "csvPath");
+  const basePath = requireResxPath(args?.basePath, "basePath");
+  const explicitDelimiter = optionalCsvDelimiter(args?.delimiter, "delimiter");
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
+  const sortMode = optionalSortMode(args?.sortMode, "sortMode");
+
+  logger.info(`Importing ${path.basename(csvPath)} into ${path.basename(basePath)}`);
+
+  let rows: string[][];
+  try {
+    const text = await fs.readFile(csvPath, "utf-8");
+    rows = parseCsv(text, explicitDelimiter ?? detectCsvDelimiter(text));
+  } catch (error: unknown) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Unable to read CSV file: ${csvPath} (${toReadError(error).message})`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const matrix = toMatrix(rows);
+  const result = await importTranslationMatrix(basePath, matrix, { dryRun, sortMode });
+
+  logger.info(
+    `${dryRun ? "Dry run: would change" : "Changed"} ${String(result.changes.length)} ` +
+      `value(s) in ${String(result.files.length)} file(s)`,
+  );
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * Map CSV rows to a {@link TranslationMatrix}, validating the header.
+ * Rows with an empty key and empty cells are skipped.
+ */
+function toMatrix(rows: string[][]): TranslationMatrix {
+  const [header = [], ...records] = rows;
+  const columns = header.map((name) => name.trim());
+
+  if (columns[0]?.toLowerCase() !== "key") {
+    throw new Error("The first CSV column must be 'key'.");
+  }
+
+  const values = new Map<string, Map<string, string>>();
+  let commentColumn = -1;
+  columns.slice(1).forEach((name, offset) => {
+    const column = offset + 1;
+    if (name.toLowerCase() === "comment") {
+      commentColumn = column;
+    } else if (name === "default" || isCultureName(name)) {
+      if (values.has(name)) throw new Error(`Duplicate CSV column '${name}'.`);
+      values.set(name, new Map());
+    } else {
+      throw new Error(
+        `Unknown CSV column '${name}'; expected 'default', a culture name or 'comment'.`,
+      );
+    }
+  });
+
+  const comments = new Map<string, string>();
+  for (const record of records) {
+    const key = record[0]?.trim() ?? "";
+    if (key === "") continue;
+
+    for (const [column, name] of columns.entries()) {
+      const cell = record[column] ?? "";
+      if (column === 0 || cell === "") continue;
+      if (column === commentColumn) comments.set(key, cell);
+      else values.get(name)?.set(key, cell);
+    }
+  }
+
+  return { values, comments };
+}
@@ -0,0 +1,138 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { ToolResponse, TranslationMatrix } from "../types.js";
+import {
+  requireResxPath,
+  requireString,
+  optionalString,
+  optionalKeySeparator,
+  optionalBoolean,
+  optionalSortMode,
+  flattenJsonLocale,
+  isCultureName,
+  importTranslationMatrix,
+  toReadError,
+  assertFileAllowed,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Imports the JSON locale files in `inputDir` (as written by `export_json`)
+ * into the resource set of `basePath`.
+ *
+ * `<culture>.json` files go to the culture variants and
+ * `<sourceLanguage>.json` (or `default.json`) to the default file; other
+ * `.json` files are ignored.  Nested objects are flattened by joining their
+ * keys with `separator`.  Empty strings and non-string values are not
+ * imported, and unless `skipFallbacks` is turned off, neither are culture
+ * values that merely repeat the default value for a key the culture has
+ * not translated yet.  All files are updated under one lock, each written
+ * at most once.
+ */
+export async function handleImportJson(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const basePath = requireResxPath(args?.basePath, "basePath");
+  const inputDir = requireString(args?.inputDir, "inputDir");
+  const sourceLanguage = optionalString(args?.sourceLanguage, "sourceLanguage");
+  const separator = optionalKeySeparator(args?.separator, "separator");
+  const skipFallbacks = optionalBoolean(args?.skipFallbacks, "skipFallbacks", true);
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
+  const sortMode = optionalSortMode(args?.sortMode, "sortMode");
+
+  if (sourceLanguage !== undefined && !isCultureName(sourceLanguage)) {
+    throw new Error(
+      `Parameter 'sourceLanguage' must be a valid culture name such as 'en' or 'en-US' (got '${sourceLanguage}').`,
+    );
+  }
+
+  logger.info(`Importing JSON files from ${inputDir} into ${path.basename(basePath)}`);
+
+  let names: string[];
+  try {
+    names = (await fs.readdir(inputDir)).filter((name) => name.endsWith(".json")).sort();
+  } catch (error: unknown) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Unable to read directory: ${inputDir} (${toReadError(error).message})`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const defaultName = sourceLanguage ?? "default";
+  const matrix: TranslationMatrix = { values: new Map(), comments: new Map() };
+  const invalid: { culture: string; key: string; reason: string }[] = [];
+  const ignoredFiles: string[] = [];
+
+  for (const name of names) {
+    const stem = path.basename(name, ".json");
+    const culture = stem === defaultName ? "default" : isCultureName(stem) ? stem : null;
+    if (culture === null) {
+      ignoredFiles.push(name);
+      continue;
+    }
+
+    const file = path.join(inputDir, name);
+    let flat;
+    try {
+      await assertFileAllowed(file);
+      flat = flattenJsonLocale(JSON.parse(await fs.readFile(file, "utf-8")), separator);
+    } catch (error: unknown) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Unable to read JSON file: ${file} (${toReadError(error).message})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const values = new Map([...flat.values].filter(([, value]) => value !== ""));
+    matrix.values.set(culture, values);
+    for (const key of flat.invalid) {
+      invalid.push({ culture, key, reason: "value is not a string" });
+    }
+  }
+
+  if (matrix.values.size === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            `No JSON locale files found in ${inputDir}; expected ${defaultName}.json ` +
+            "or <culture>.json files.",
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const result = await importTranslationMatrix(basePath, matrix, {
+    dryRun,
+    skipFallbacks,
+    sortMode,
+  });
+
+  logger.info(
+    `${dryRun ? "Dry run: would change" : "Changed"} ${String(result.changes.length)} ` +
+      `value(s) in ${String(result.files.length)} file(s)`,
+  );
+
+  const report = {
+    ...result,
+    skipped: [...invalid, ...result.skipped],
+    ...(ignoredFiles.length > 0 ? { ignoredFiles } : {}),
+  };
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+  };
+}
@@ -0,0 +1,215 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  requireString,
+  optionalString,
+  optionalBoolean,
+  optionalSortMode,
+  parseResxFile,
+  writeResxFile,
+  previewResxWrite,
+  parseXliff,
+  toReadError,
+  indexEntries,
+  getResourceInfo,
+  upsertEntry,
+  normalizeNewlines,
+  getCultureFilePath,
+  isCultureName,
+  withFileLock,
+  describeReadFailure,
+  logger,
+} from "../utils/index.js";
+
+/** What to do with units whose source differs from the current default value. */
+const SOURCE_MISMATCH_POLICIES = ["skip", "import", "fail"] as const;
+type SourceMismatchPolicy = (typeof SOURCE_MISMATCH_POLICIES)[number];
+
+/**
+ * Imports the translated units of an XLIFF 2.0 / 1.2 document into the
+ * culture variant of `basePath` (the XLIFF target language unless `culture`
+ * is given), under an exclusive lock on that file.
+ *
+ * Units are matched to keys by id.  Units without a translated target, for
+ * keys no longer in the default file, or for non-string resources are
+ * skipped.  When a unit's source no longer matches the current default
+ * value, `sourceMismatch` decides: `skip` it (default), `import` it anyway,
+ * or `fail` the whole import without writing anything.  With `dryRun`, the
+ * report and a unified diff of the file are produced but nothing is written.
+ */
+export async function handleImportXliff(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const xliffPath = requireString(args?.xliffPath, "xliffPath");
+  const basePath = requireResxPath(args?.basePath, "basePath");
+  const cultureArg = optionalString(args?.culture, "culture");
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
+  const policy = parsePolicy(args?.sourceMismatch);
+  const sortMode = optionalSortMode(args?.sortMode, "sortMode");
+
+  logger.info(
+    `Importing ${path.basename(xliffPath)} into variants of ${path.basename(basePath)}`,
+  );
+
+  let xliff;
+  try {
+    xliff = await parseXliff(await fs.readFile(xliffPath, "utf-8"));
+  } catch (error: unknown) {
+    const { message, line, column } = toReadError(error);
+    const position =
+      line !== undefined ? `line ${String(line)}, column ${String(column ?? 0)}: ` : "";
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Unable to read XLIFF file: ${xliffPath} (${position}${message})`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const culture = cultureArg ?? xliff.targetLanguage;
+  if (!isCultureName(culture)) {
+    throw new Error(
+      cultureArg === undefined
+        ? `The XLIFF target language '${culture}' is not a valid culture name; pass 'culture' explicitly.`
+        : `Parameter 'culture' must be a valid culture name such as 'fr' or 'fr-FR' (got '${culture}').`,
+    );
+  }
+
+  const base = await parseResxFile(basePath);
+  if (!base) {
+    return {
+      content: [
+        { type: "text", text: `Unable to read file: ${describeReadFailure(basePath)}` },
+      ],
+      isError: true,
+    };
+  }
+  const defaults = indexEntries(base.document.root.data ?? []);
+  const targetPath = getCultureFilePath(basePath, culture);
+
+  return withFileLock(targetPath, async () => {
+    const parsed = await parseResxFile(targetPath);
+    if (!parsed) {
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Unable to read file: ${describeReadFailure(targetPath)}. ` +
+              "Create missing culture files with create_culture_file first.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const { document: data, eol } = parsed;
+    const added: string[] = [];
+    const updated: string[] = [];
+    const unchanged: string[] = [];
+    const skipped: { key: string; reason: string }[] = [];
+    const mismatched: string[] = [];
+
+    for (const unit of xliff.units) {
+      const key = unit.id;
+      const source = defaults.get(key);
+      const target = unit.state === "translated" ? unit.target : undefined;
+
+      let reason: string | undefined;
+      if (unit.problem) reason = unit.problem;
+      else if (target === undefined) reason = "not translated";
+      else if (!source) reason = "key not in the default file";
+      else if (getResourceInfo(source) !== null) reason = "non-string resource";
+      else if (
+        normalizeNewlines(unit.source) !== normalizeNewlines(source.value?.[0] ?? "")
+      ) {
+        mismatched.push(key);
+        if (policy !== "import") reason = "source text changed since export";
+      }
+
+      if (target === undefined || reason !== undefined) {
+        skipped.push({ key, reason: reason ?? "not translated" });
+        continue;
+      }
+
+      try {
+        const action = upsertEntry(data, key, normalizeNewlines(target));
+        if (action === "added") added.push(key);
+        else if (action === "updated") updated.push(key);
+        else unchanged.push(key);
+      } catch (error: unknown) {
+        skipped.push({
+          key,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (policy === "fail" && mismatched.length > 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Source text of ${String(mismatched.length)} unit(s) no longer matches ` +
+              `${path.basename(basePath)}: ${mismatched.join(", ")}. Nothing was imported.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const changed = added.length + updated.length > 0;
+    let diff: string | undefined;
+    if (changed && dryRun)
+      diff = await previewResxWrite(targetPath, data, eol, { sortMode });
+    else if (changed) await writeResxFile(targetPath, data, eol, { sortMode });
+
+    logger.info(
+      `${dryRun ? "Dry run: would import" : "Imported"} ${String(added.length)} added and ` +
+        `${String(updated.length)} updated key(s) into ${path.basename(targetPath)}`,
+    );
+
+    const result = {
+      file: path.basename(targetPath),
+      culture,
+      dryRun,
+      counts: {
+        added: added.length,
+        updated: updated.length,
+        unchanged: unchanged.length,
+        skipped: skipped.length,
+      },
+      added,
+      updated,
+      unchanged,
+      skipped,
+      ...(policy === "import" && mismatched.length > 0
+        ? { importedWithChangedSource: mismatched }
+        : {}),
+      ...(diff !== undefined ? { diff } : {}),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  });
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+function parsePolicy(value: unknown): SourceMismatchPolicy {
+  const policy = optionalString(value, "sourceMismatch") ?? "skip";
+  if (!(SOURCE_MISMATCH_POLICIES as readonly string[]).includes(policy)) {
+    throw new Error(
+      `Parameter 'sourceMismatch' must be one of: ${SOURCE_MISMATCH_POLICIES.join(", ")}.`,
+    );
+  }
+  return policy as SourceMismatchPolicy;
+}
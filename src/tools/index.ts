@@ -1,3 +1,20 @@
 export { toolDefinitions } from "./definitions.js";
 export { handleGetTranslations } from "./get-translations.js";
 export { handleUpsertTranslation } from "./upsert-translation.js";
+export { handleDeleteTranslation } from "./delete-translation.js";
+export { handleRenameTranslationKey } from "./rename-translation-key.js";
+export { handleFindMissingTranslations } from "./find-missing-translations.js";
+export { handleUpsertTranslationsBatch } from "./upsert-translations-batch.js";
+export { handleListKeys } from "./list-keys.js";
+export { handleSearchTranslations } from "./search-translations.js";
+export { handleListResourceSets } from "./list-resource-sets.js";
+export { handleCreateCultureFile } from "./create-culture-file.js";
+export { handleValidateTranslations } from "./validate-translations.js";
+export { handleLintResx } from "./lint-resx.js";
+export { handleExportXliff } from "./export-xliff.js";
+export { handleImportXliff } from "./import-xliff.js";
+export { handleExportCsv } from "./export-csv.js";
+export { handleImportCsv } from "./import-csv.js";
+export { handleExportJson } from "./export-json.js";
+export { handleImportJson } from "./import-json.js";
+export { handleGetEffectiveTranslation } from "./get-effective-translation.js";
@@ -0,0 +1,108 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { LintIssue, ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  optionalBoolean,
+  discoverResxVariants,
+  lintResxContent,
+  toReadError,
+  assertFileAllowed,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Lints a single `.resx` file (`filePath`), or the default file and every
+ * language variant of `basePath` when `allVariants` is true, reporting
+ * duplicate and malformed keys, missing resheaders, XML syntax errors with
+ * their position, and encoding anomalies.
+ */
+export async function handleLintResx(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const allVariants = optionalBoolean(args?.allVariants, "allVariants");
+
+  let files: { file: string; culture?: string }[];
+  if (allVariants) {
+    const basePath = requireResxPath(args?.basePath, "basePath");
+    files = (await discoverResxVariants(basePath)).variants;
+    if (files.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `No .resx files found matching pattern for: ${basePath}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  } else {
+    files = [{ file: requireResxPath(args?.filePath, "filePath") }];
+  }
+
+  logger.info(`Linting ${String(files.length)} .resx file(s)`);
+
+  const reports: {
+    file: string;
+    culture?: string;
+    errors: number;
+    warnings: number;
+    issues: LintIssue[];
+  }[] = [];
+
+  for (const { file, culture } of files) {
+    let bytes: Buffer;
+    try {
+      await assertFileAllowed(file);
+      bytes = await fs.readFile(file);
+    } catch (error: unknown) {
+      const { message } = toReadError(error);
+      if (!allVariants) {
+        return {
+          content: [{ type: "text", text: `Unable to read file: ${file} (${message})` }],
+          isError: true,
+        };
+      }
+      reports.push({
+        file: path.basename(file),
+        ...(culture !== undefined ? { culture } : {}),
+        errors: 1,
+        warnings: 0,
+        issues: [
+          {
+            severity: "error",
+            code: "parse_error",
+            message: `Unable to read file: ${message}`,
+          },
+        ],
+      });
+      continue;
+    }
+
+    const issues = await lintResxContent(bytes);
+    reports.push({
+      file: path.basename(file),
+      ...(culture !== undefined ? { culture } : {}),
+      errors: issues.filter((i) => i.severity === "error").length,
+      warnings: issues.filter((i) => i.severity === "warning").length,
+      issues,
+    });
+  }
+
+  const totals = {
+    errors: reports.reduce((sum, r) => sum + r.errors, 0),
+    warnings: reports.reduce((sum, r) => sum + r.warnings, 0),
+  };
+
+  logger.info(
+    `Lint found ${String(totals.errors)} error(s) and ${String(totals.warnings)} warning(s)`,
+  );
+
+  return {
+    content: [
+      { type: "text", text: JSON.stringify({ files: reports, totals }, null, 2) },
+    ],
+  };
+}
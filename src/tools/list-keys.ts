@@ -0,0 +1,100 @@
+import * as path from "node:path";
+
+import type { ResourceInfo, ResxDataEntry, ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  optionalString,
+  optionalBoolean,
+  optionalInteger,
+  optionalRegExp,
+  parseResxFile,
+  orderDataEntries,
+  getDefaultSortMode,
+  getResourceInfo,
+  formatEntryValue,
+  describeReadFailure,
+  logger,
+} from "../utils/index.js";
+
+/** Default page size when `limit` is omitted. */
+const DEFAULT_LIMIT = 100;
+
+/** Upper bound on `limit` to keep responses small enough for the model. */
+const MAX_LIMIT = 1000;
+
+/**
+ * Lists the keys of a single `.resx` file, optionally filtered by prefix
+ * and/or regular expression, in the order the server's default sort mode
+ * gives them on write: sorted for `alphabetical` and `ordinal`, file order
+ * for `preserve` and `insert-sorted`.
+ */
+export async function handleListKeys(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const filePath = requireResxPath(args?.filePath, "filePath");
+  const prefix = optionalString(args?.prefix, "prefix");
+  const regex = optionalRegExp(args?.regex, "regex");
+  const includeValues = optionalBoolean(args?.includeValues, "includeValues");
+  const offset = optionalInteger(args?.offset, "offset", 0, { min: 0 });
+  const limit = optionalInteger(args?.limit, "limit", DEFAULT_LIMIT, {
+    min: 1,
+    max: MAX_LIMIT,
+  });
+
+  logger.info(`Listing keys in ${path.basename(filePath)}`);
+
+  const parsed = await parseResxFile(filePath);
+
+  if (!parsed) {
+    return {
+      content: [
+        { type: "text", text: `Unable to read file: ${describeReadFailure(filePath)}` },
+      ],
+      isError: true,
+    };
+  }
+
+  const entries = orderDataEntries(
+    (parsed.document.root.data ?? [])
+      .filter((d) => prefix === undefined || d.$.name.startsWith(prefix))
+      .filter((d) => regex === undefined || regex.test(d.$.name)),
+    getDefaultSortMode(),
+    () => true,
+  );
+
+  const page = entries.slice(offset, offset + limit);
+
+  const result = {
+    file: path.basename(filePath),
+    total: entries.length,
+    offset,
+    limit,
+    hasMore: offset + page.length < entries.length,
+    ...(includeValues
+      ? { entries: page.map(describeEntry) }
+      : { keys: page.map((d) => d.$.name) }),
+  };
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * `{ key, value }` for a listed entry, with the resource details of
+ * non-string entries in place of their raw payload.
+ */
+function describeEntry(entry: ResxDataEntry): {
+  key: string;
+  value: string;
+  resource?: ResourceInfo;
+} {
+  const resource = getResourceInfo(entry);
+  return {
+    key: entry.$.name,
+    value: formatEntryValue(entry),
+    ...(resource ? { resource } : {}),
+  };
+}
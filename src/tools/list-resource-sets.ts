@@ -0,0 +1,84 @@
+import * as path from "node:path";
+
+import type { ResourceSetSummary, ToolResponse } from "../types.js";
+import {
+  requireString,
+  parseResxFile,
+  findResxFilesInDirectory,
+  groupResourceSets,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Scans `rootDir` recursively and lists every logical resource set: its base
+ * file, culture variants with key counts, and the cultures that exist
+ * elsewhere in the workspace but have no file in this set.
+ */
+export async function handleListResourceSets(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const rootDir = requireString(args?.rootDir, "rootDir");
+
+  logger.info(`Scanning ${rootDir} for resource sets`);
+
+  const files = await findResxFilesInDirectory(rootDir);
+
+  if (files.length === 0) {
+    return {
+      content: [{ type: "text", text: `No .resx files found in: ${rootDir}` }],
+      isError: true,
+    };
+  }
+
+  const relative = (file: string): string =>
+    path.relative(rootDir, file).replace(/\\/g, "/");
+
+  const sets = groupResourceSets(files);
+  const allCultures = [
+    ...new Set(sets.flatMap((set) => set.variants.map((v) => v.culture))),
+  ].sort((a, b) => a.localeCompare(b));
+
+  const resourceSets: ResourceSetSummary[] = [];
+  for (const set of sets) {
+    const variants: ResourceSetSummary["variants"] = [];
+    for (const variant of set.variants) {
+      variants.push({
+        culture: variant.culture,
+        file: relative(variant.file),
+        keyCount: await countKeys(variant.file),
+      });
+    }
+    variants.sort((a, b) => a.culture.localeCompare(b.culture));
+
+    const present = new Set(variants.map((v) => v.culture));
+    resourceSets.push({
+      basePath: relative(set.basePath),
+      keyCount: await countKeys(set.basePath),
+      variants,
+      missingCultures: allCultures.filter((c) => !present.has(c)),
+    });
+  }
+
+  logger.info(
+    `Found ${String(resourceSets.length)} resource set(s) in ${String(files.length)} file(s)`,
+  );
+
+  const result = {
+    rootDir,
+    totalSets: resourceSets.length,
+    cultures: allCultures,
+    resourceSets,
+  };
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+async function countKeys(filePath: string): Promise<number | null> {
+  const parsed = await parseResxFile(filePath);
+  if (!parsed) return null;
+  return parsed.document.root.data?.length ?? 0;
+}
@@ -0,0 +1,179 @@
+import * as path from "node:path";
+
+import type { ParsedResxFile, RenameFileResult, ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  requireString,
+  optionalSortMode,
+  optionalBoolean,
+  parseResxFile,
+  writeResxFile,
+  restoreResxFile,
+  previewResxWrite,
+  findEntry,
+  findRelatedResxFiles,
+  getBaseName,
+  extractLanguageLabel,
+  withFileLocks,
+  describeReadFailure,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Renames a translation key in the default file and every language variant
+ * related to `basePath`.
+ *
+ * All variants are locked up front and validated before anything is written,
+ * so the rename either applies to every file or to none of them: if the new
+ * key already exists anywhere the call is rejected, and if any write fails
+ * the files that were already rewritten are restored from their original
+ * contents.  With `dryRun`, nothing is written and each file's result
+ * carries a unified diff of the rename instead.
+ */
+export async function handleRenameTranslationKey(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const basePath = requireResxPath(args?.basePath, "basePath");
+  const oldKey = requireString(args?.oldKey, "oldKey");
+  const newKey = requireString(args?.newKey, "newKey");
+  const sortMode = optionalSortMode(args?.sortMode, "sortMode");
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
+  const baseName = getBaseName(basePath);
+
+  if (oldKey === newKey) {
+    throw new Error("Parameters 'oldKey' and 'newKey' must be different.");
+  }
+
+  logger.info(
+    `Renaming key '${oldKey}' → '${newKey}' across variants of ${path.basename(basePath)}`,
+  );
+
+  const files = await findRelatedResxFiles(basePath);
+
+  if (files.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `No .resx files found matching pattern for: ${basePath}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  return withFileLocks(files, async () => {
+    // ── 1. Read and validate every file before touching any of them ─────
+    const loaded: { file: string; parsed: ParsedResxFile }[] = [];
+    const unreadable: string[] = [];
+    const collisions: string[] = [];
+
+    for (const file of files) {
+      const parsed = await parseResxFile(file);
+      if (!parsed) {
+        unreadable.push(describeReadFailure(file, path.basename(file)));
+        continue;
+      }
+      const entries = parsed.document.root.data ?? [];
+      if (findEntry(entries, newKey)) collisions.push(path.basename(file));
+      loaded.push({ file, parsed });
+    }
+
+    if (unreadable.length > 0) {
+      return {
+        content: [
+          { type: "text", text: `Unable to read file(s): ${unreadable.join(", ")}` },
+        ],
+        isError: true,
+      };
+    }
+
+    if (collisions.length > 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Key '${newKey}' already exists in: ${collisions.join(", ")}. Nothing was renamed.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const toRewrite = loaded.filter(({ parsed }) =>
+      findEntry(parsed.document.root.data ?? [], oldKey),
+    );
+
+    if (toRewrite.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Key '${oldKey}' was not found in any of the files: ${files.map((f) => path.basename(f)).join(", ")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // ── 2. Rename in memory ─────────────────────────────────────────────
+    for (const { parsed } of toRewrite) {
+      for (const entry of parsed.document.root.data ?? []) {
+        if (entry.$.name === oldKey) entry.$.name = newKey;
+      }
+    }
+
+    // ── 3. Preview, or rewrite rolling back everything on a failure ─────
+    const diffs = new Map<string, string>();
+    if (dryRun) {
+      for (const { file, parsed } of toRewrite) {
+        const { document: data, eol } = parsed;
+        diffs.set(file, await previewResxWrite(file, data, eol, { sortMode }));
+      }
+    } else {
+      const written: typeof toRewrite = [];
+      try {
+        for (const item of toRewrite) {
+          const { document: data, eol } = item.parsed;
+          written.push(item);
+          await writeResxFile(item.file, data, eol, { sortMode });
+        }
+      } catch (error: unknown) {
+        logger.error(
+          `Rename failed, rolling back ${String(written.length)} file(s)`,
+          error,
+        );
+        // Restore as many files as possible; the rename's own error is the
+        // one to report.
+        for (const item of written) {
+          try {
+            await restoreResxFile(item.file, item.parsed.content);
+          } catch (restoreError: unknown) {
+            logger.error(`Unable to restore ${item.file}`, restoreError);
+          }
+        }
+        throw error;
+      }
+    }
+
+    const results: RenameFileResult[] = loaded.map(({ file }) => {
+      const diff = diffs.get(file);
+      return {
+        file: path.basename(file),
+        language: extractLanguageLabel(file, baseName),
+        action: toRewrite.some((item) => item.file === file) ? "renamed" : "not_found",
+        ...(diff !== undefined ? { diff } : {}),
+      };
+    });
+
+    logger.info(
+      `${dryRun ? "Dry run: would rename" : "Renamed"} key '${oldKey}' → '${newKey}' ` +
+        `in ${String(toRewrite.length)} file(s)`,
+    );
+
+    const result = { oldKey, newKey, ...(dryRun ? { dryRun } : {}), results };
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  });
+}
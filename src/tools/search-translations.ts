@@ -0,0 +1,175 @@
+import * as path from "node:path";
+
+import type {
+  ResourceInfo,
+  ResxDataEntry,
+  ResxVariant,
+  SearchMatch,
+  ToolResponse,
+} from "../types.js";
+import {
+  requireString,
+  optionalString,
+  optionalResxPath,
+  optionalBoolean,
+  optionalInteger,
+  requireRegExp,
+  loadResourceSet,
+  getDataEntries,
+  findResxFilesInDirectory,
+  findBaseResxFiles,
+  getResourceInfo,
+  formatEntryValue,
+  logger,
+} from "../utils/index.js";
+
+/** Supported ways of comparing the query against a field. */
+const SEARCH_MODES = ["substring", "exact", "regex"] as const;
+type SearchMode = (typeof SEARCH_MODES)[number];
+
+/** Default maximum number of matches returned. */
+const DEFAULT_LIMIT = 50;
+
+/** Upper bound on `limit`. */
+const MAX_LIMIT = 500;
+
+/**
+ * Full-text search of translation values (and optionally keys and
+ * comments) across every language variant of a base file, or across every
+ * resource set found below a directory.
+ */
+export async function handleSearchTranslations(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const query = requireString(args?.query, "query");
+  const basePath = optionalResxPath(args?.basePath, "basePath");
+  const directory = optionalString(args?.directory, "directory");
+  const mode = parseMode(args?.mode);
+  const caseSensitive = optionalBoolean(args?.caseSensitive, "caseSensitive");
+  const searchKeys = optionalBoolean(args?.searchKeys, "searchKeys");
+  const searchComments = optionalBoolean(args?.searchComments, "searchComments");
+  const limit = optionalInteger(args?.limit, "limit", DEFAULT_LIMIT, {
+    min: 1,
+    max: MAX_LIMIT,
+  });
+
+  if ((basePath === undefined) === (directory === undefined)) {
+    throw new Error("Provide exactly one of 'basePath' or 'directory'.");
+  }
+
+  const matches = createMatcher(query, mode, caseSensitive);
+  const root = directory ?? path.dirname(basePath ?? "");
+
+  logger.info(`Searching for '${query}' (${mode}) in ${basePath ?? root}`);
+
+  const variants = basePath ? await loadResourceSet(basePath) : await loadDirectory(root);
+
+  if (variants.length === 0) {
+    return {
+      content: [{ type: "text", text: `No .resx files found in: ${basePath ?? root}` }],
+      isError: true,
+    };
+  }
+
+  const results: SearchMatch[] = [];
+  let totalMatches = 0;
+
+  for (const variant of variants) {
+    for (const entry of getDataEntries(variant)) {
+      const resource = getResourceInfo(entry);
+      const matchedIn: SearchMatch["matchedIn"] = [];
+      if (searchKeys && matches(entry.$.name)) matchedIn.push("key");
+      if (matches(searchableValue(entry, resource))) matchedIn.push("value");
+      if (searchComments && matches(entry.comment?.[0] ?? "")) matchedIn.push("comment");
+      if (matchedIn.length === 0) continue;
+
+      totalMatches++;
+      if (results.length < limit) {
+        results.push({
+          file: path.relative(root, variant.file).replace(/\\/g, "/"),
+          culture: variant.language,
+          key: entry.$.name,
+          value: formatEntryValue(entry),
+          ...(resource ? { resource } : {}),
+          matchedIn,
+        });
+      }
+    }
+  }
+
+  logger.info(`Found ${String(totalMatches)} match(es) for '${query}'`);
+
+  const result = {
+    query,
+    mode,
+    totalMatches,
+    truncated: totalMatches > results.length,
+    matches: results,
+  };
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+function parseMode(value: unknown): SearchMode {
+  const mode = optionalString(value, "mode") ?? "substring";
+  if (!(SEARCH_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Parameter 'mode' must be one of: ${SEARCH_MODES.join(", ")}.`);
+  }
+  return mode as SearchMode;
+}
+
+/**
+ * Build a predicate testing a field against the query in the given mode.
+ */
+function createMatcher(
+  query: string,
+  mode: SearchMode,
+  caseSensitive: boolean,
+): (text: string) => boolean {
+  if (mode === "regex") {
+    const regex = requireRegExp(query, "query", caseSensitive ? "" : "i");
+    return (text) => regex.test(text);
+  }
+
+  const needle = caseSensitive ? query : query.toLowerCase();
+  const normalize = (text: string): string => (caseSensitive ? text : text.toLowerCase());
+
+  return mode === "exact"
+    ? (text) => normalize(text) === needle
+    : (text) => normalize(text).includes(needle);
+}
+
+/**
+ * Load every language variant of every resource set found below `rootDir`,
+ * each file exactly once.
+ */
+async function loadDirectory(rootDir: string): Promise<ResxVariant[]> {
+  const files = await findResxFilesInDirectory(rootDir);
+  const seen = new Set<string>();
+  const variants: ResxVariant[] = [];
+
+  for (const base of findBaseResxFiles(files)) {
+    for (const variant of await loadResourceSet(base)) {
+      const key = path.resolve(variant.file);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      variants.push(variant);
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Text a query is matched against: the value of string and typed entries,
+ * the referenced path of file resources, and nothing for binary payloads.
+ */
+function searchableValue(entry: ResxDataEntry, resource: ResourceInfo | null): string {
+  if (resource?.kind === "file") return resource.file ?? "";
+  if (resource?.kind === "binary") return "";
+  return entry.value?.[0] ?? "";
+}
@@ -1,18 +1,37 @@
 import * as path from "node:path";
 
-import type { UpsertAction } from "../types.js";
+import type { ToolResponse } from "../types.js";
 import {
   requireResxPath,
   requireString,
+  requireNonEmptyString,
   parseResxFile,
   writeResxFile,
+  previewResxWrite,
+  formatDiffBlock,
+  optionalComment,
+  optionalSortMode,
+  optionalBoolean,
   findEntry,
+  getVariantBasePath,
+  getResourceInfo,
+  checkTranslation,
+  upsertEntry,
+  normalizeNewlines,
+  getDefaultSortMode,
   withFileLock,
+  describeReadFailure,
   logger,
 } from "../utils/index.js";
 
 /**
  * Adds or updates a single translation entry in the specified `.resx` file.
+ * An optional `comment` sets the entry's translator comment; an empty
+ * comment removes it.  With `validate`, the value of a culture file is
+ * checked against the default file (see `validate_translations`) and any
+ * inconsistencies are returned as warnings; the write still happens.
+ * With `dryRun`, nothing is written: the response shows the previous value
+ * of an updated key and a unified diff of the file instead.
  *
  * The entire read → modify → write cycle is executed under an exclusive
  * file lock so that concurrent calls (from parallel MCP requests or even
@@ -20,15 +39,19 @@ import {
  */
 export async function handleUpsertTranslation(
   args: Record<string, unknown> | undefined,
-): Promise<{ content: { type: string; text: string }[]; isError?: boolean }> {
+): Promise<ToolResponse> {
   const filePath = requireResxPath(args?.filePath, "filePath");
   const key = requireString(args?.key, "key");
-  let value = requireString(args?.value, "value");
-  // Normalize line endings: replace \r\n with \n, then remove stray \r
-  value = value.replace(/\r\n/g, "\n").replace(/\r/g, "");
+  const value = normalizeNewlines(requireNonEmptyString(args?.value, "value"));
+  const comment = optionalComment(args?.comment, "comment");
+  const sortMode = optionalSortMode(args?.sortMode, "sortMode");
+  const validate = optionalBoolean(args?.validate, "validate");
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
 
   logger.info(`Upserting key '${key}' in ${path.basename(filePath)}`);
 
+  const warnings = validate ? await checkAgainstDefault(filePath, key, value) : "";
+
   return withFileLock(filePath, async () => {
     logger.debug(`Acquired lock for ${path.basename(filePath)}`);
     // Read the file *inside* the lock so we always see the latest content,
@@ -37,39 +60,97 @@ export async function handleUpsertTranslation(
 
     if (!parsed) {
       return {
-        content: [{ type: "text", text: `Unable to read file: ${filePath}` }],
+        content: [
+          { type: "text", text: `Unable to read file: ${describeReadFailure(filePath)}` },
+        ],
         isError: true,
       };
     }
 
     const { document: data, eol } = parsed;
+    const previous = findEntry(data.root.data ?? [], key)?.value?.[0];
+    const action = upsertEntry(data, key, value, comment);
 
-    // Ensure the data array exists.
-    if (!Array.isArray(data.root.data)) data.root.data = [];
-
-    const existing = findEntry(data.root.data, key);
-    const action: UpsertAction = existing ? "updated" : "added";
+    if (action === "unchanged") {
+      logger.info(`Key '${key}' in ${path.basename(filePath)} is already up to date`);
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Key '${key}' in ${path.basename(filePath)} already has this value; no changes were made.` +
+              warnings,
+          },
+        ],
+      };
+    }
 
-    if (existing) {
-      existing.value = [value];
-    } else {
-      data.root.data.push({
-        $: { name: key, "xml:space": "preserve" },
-        value: [value],
-      });
+    if (dryRun) {
+      const diff = await previewResxWrite(filePath, data, eol, { sortMode });
+      logger.info(`Dry run: would ${action === "added" ? "add" : "update"} key '${key}'`);
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Dry run: would ${action === "added" ? "add" : "update"} key '${key}' in ` +
+              `${path.basename(filePath)} (sort mode: ${sortMode ?? getDefaultSortMode()}); ` +
+              "nothing was written." +
+              (action === "updated"
+                ? `\n\nPrevious value: ${JSON.stringify(previous ?? "")}`
+                : "") +
+              `\n\n${formatDiffBlock(diff)}` +
+              warnings,
+          },
+        ],
+      };
     }
 
     // Preserve the original line-ending style of the file.
-    await writeResxFile(filePath, data, eol);
+    await writeResxFile(filePath, data, eol, { sortMode });
     logger.info(`Successfully ${action} key '${key}' in ${path.basename(filePath)}`);
 
     return {
       content: [
         {
           type: "text",
-          text: `Successfully ${action} key '${key}' in ${path.basename(filePath)} (file sorted alphabetically).`,
+          text:
+            `Successfully ${action} key '${key}' in ${path.basename(filePath)} (sort mode: ${sortMode ?? getDefaultSortMode()}).` +
+            warnings,
         },
       ],
     };
   });
 }
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * Check `value` against the default value of `key` and describe any
+ * inconsistencies as a warning block to append to the response, or return
+ * an empty string when there is nothing to report (including when
+ * `filePath` is the default file or the key has no default value).
+ */
+async function checkAgainstDefault(
+  filePath: string,
+  key: string,
+  value: string,
+): Promise<string> {
+  const basePath = getVariantBasePath(filePath);
+  if (!basePath) return "";
+
+  const parsed = await parseResxFile(basePath);
+  const source = parsed ? findEntry(parsed.document.root.data ?? [], key) : undefined;
+  if (!source || getResourceInfo(source) !== null) return "";
+
+  const issues = checkTranslation(source.value?.[0] ?? "", value);
+  if (issues.length === 0) return "";
+
+  logger.warn(
+    `Key '${key}' in ${path.basename(filePath)} has ${String(issues.length)} validation issue(s)`,
+  );
+  return (
+    `\n\nWarnings (compared with ${path.basename(basePath)}):\n` +
+    issues.map((issue) => `- [${issue.type}] ${issue.message}`).join("\n")
+  );
+}
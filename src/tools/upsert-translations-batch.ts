@@ -0,0 +1,216 @@
+import * as path from "node:path";
+
+import type { BatchUpsertItemResult, ToolResponse } from "../types.js";
+import {
+  requireResxPath,
+  requireString,
+  requireNonEmptyString,
+  optionalComment,
+  optionalResxPath,
+  optionalSortMode,
+  optionalBoolean,
+  parseResxFile,
+  writeResxFile,
+  previewResxWrite,
+  findEntry,
+  upsertEntry,
+  normalizeNewlines,
+  getCultureFilePath,
+  isCultureName,
+  withFileLock,
+  describeReadFailure,
+  logger,
+} from "../utils/index.js";
+
+/** A single validated change requested by the caller. */
+interface BatchItem {
+  filePath: string;
+  key: string;
+  value: string;
+  comment?: string | null;
+}
+
+/**
+ * Adds or updates many translation entries in one call.
+ *
+ * Items are grouped by target file so that each file is read, modified and
+ * written exactly once under its exclusive lock, instead of once per key.
+ * Files that end up unchanged are not rewritten.  With `dryRun`, no file is
+ * written: updated items report their previous value and the response
+ * carries a unified diff of every file that would change.
+ */
+export async function handleUpsertTranslationsBatch(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const items = [...parseItems(args?.items), ...parseTranslationsMap(args)];
+  const sortMode = optionalSortMode(args?.sortMode, "sortMode");
+  const dryRun = optionalBoolean(args?.dryRun, "dryRun");
+
+  if (items.length === 0) {
+    throw new Error(
+      "Provide at least one change via 'items' or 'basePath' + 'translations'.",
+    );
+  }
+
+  // Group by resolved path, keeping the original item order for the report.
+  const groups = new Map<string, { item: BatchItem; index: number }[]>();
+  items.forEach((item, index) => {
+    const resolved = path.resolve(item.filePath);
+    const group = groups.get(resolved) ?? [];
+    group.push({ item, index });
+    groups.set(resolved, group);
+  });
+
+  logger.info(
+    `Batch upserting ${String(items.length)} item(s) across ${String(groups.size)} file(s)`,
+  );
+
+  const results: BatchUpsertItemResult[] = new Array<BatchUpsertItemResult>(items.length);
+  const diffs: { file: string; diff: string }[] = [];
+
+  for (const [filePath, group] of groups) {
+    await withFileLock(filePath, async () => {
+      const parsed = await parseResxFile(filePath);
+
+      if (!parsed) {
+        for (const { item, index } of group) {
+          results[index] = {
+            file: path.basename(filePath),
+            key: item.key,
+            action: "error",
+            error: `Unable to read file: ${describeReadFailure(filePath, item.filePath)}`,
+          };
+        }
+        return;
+      }
+
+      const { document: data, eol } = parsed;
+      let changed = false;
+
+      for (const { item, index } of group) {
+        const file = path.basename(filePath);
+        try {
+          const previousValue = findEntry(data.root.data ?? [], item.key)?.value?.[0];
+          const action = upsertEntry(data, item.key, item.value, item.comment);
+          if (action !== "unchanged") changed = true;
+          results[index] = {
+            file,
+            key: item.key,
+            action,
+            ...(dryRun && action === "updated"
+              ? { previousValue: previousValue ?? "" }
+              : {}),
+          };
+        } catch (error: unknown) {
+          // Non-string resources are refused per item; the rest still apply.
+          const message = error instanceof Error ? error.message : String(error);
+          results[index] = { file, key: item.key, action: "error", error: message };
+        }
+      }
+
+      if (changed && dryRun) {
+        const diff = await previewResxWrite(filePath, data, eol, { sortMode });
+        diffs.push({ file: path.basename(filePath), diff });
+      } else if (changed) {
+        await writeResxFile(filePath, data, eol, { sortMode });
+        logger.info(
+          `Wrote ${String(group.length)} item(s) to ${path.basename(filePath)}`,
+        );
+      }
+    });
+  }
+
+  const summary = { added: 0, updated: 0, unchanged: 0, error: 0 };
+  for (const r of results) summary[r.action]++;
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            ...(dryRun ? { dryRun } : {}),
+            summary,
+            results,
+            ...(dryRun ? { diffs } : {}),
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+    ...(summary.error > 0 ? { isError: true } : {}),
+  };
+}
+
+// ── Input parsing ───────────────────────────────────────────────────────
+
+/**
+ * Validate the optional `items` array of `{ filePath, key, value, comment? }`.
+ */
+function parseItems(raw: unknown): BatchItem[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    throw new Error("Parameter 'items' must be an array.");
+  }
+
+  return raw.map((entry: unknown, i) => {
+    if (typeof entry !== "object" || entry === null) {
+      throw new Error(`Parameter 'items[${String(i)}]' must be an object.`);
+    }
+    const item = entry as Record<string, unknown>;
+    const comment = optionalComment(item.comment, `items[${String(i)}].comment`);
+    return {
+      filePath: requireResxPath(item.filePath, `items[${String(i)}].filePath`),
+      key: requireString(item.key, `items[${String(i)}].key`),
+      value: normalizeNewlines(
+        requireNonEmptyString(item.value, `items[${String(i)}].value`),
+      ),
+      ...(comment !== undefined ? { comment } : {}),
+    };
+  });
+}
+
+/**
+ * Expand the optional `{ key: { culture: value } }` map into items targeting
+ * the culture variants of `basePath`.  The culture `"default"` targets the
+ * base file itself; any other culture must be a valid culture name.
+ */
+function parseTranslationsMap(args: Record<string, unknown> | undefined): BatchItem[] {
+  const raw = args?.translations;
+  if (raw === undefined || raw === null) return [];
+
+  const basePath = optionalResxPath(args?.basePath, "basePath");
+  if (!basePath) {
+    throw new Error("Parameter 'basePath' is required when 'translations' is provided.");
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(
+      "Parameter 'translations' must be an object of { key: { culture: value } }.",
+    );
+  }
+
+  const items: BatchItem[] = [];
+  for (const [key, cultures] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof cultures !== "object" || cultures === null || Array.isArray(cultures)) {
+      throw new Error(
+        `Parameter 'translations.${key}' must be an object of { culture: value }.`,
+      );
+    }
+    for (const [culture, value] of Object.entries(cultures as Record<string, unknown>)) {
+      if (culture !== "default" && !isCultureName(culture)) {
+        throw new Error(
+          `Parameter 'translations.${key}' has an invalid culture '${culture}'; use 'default' or a culture name such as 'fr' or 'fr-FR'.`,
+        );
+      }
+      items.push({
+        filePath: getCultureFilePath(basePath, culture),
+        key: requireString(key, "translations key"),
+        value: normalizeNewlines(
+          requireNonEmptyString(value, `translations.${key}.${culture}`),
+        ),
+      });
+    }
+  }
+  return items;
+}
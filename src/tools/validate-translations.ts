@@ -0,0 +1,94 @@
+import * as path from "node:path";
+
+import type { ToolResponse, TranslationViolation } from "../types.js";
+import {
+  requireResxPath,
+  loadResourceSet,
+  getDataEntries,
+  indexEntries,
+  isEmptyValue,
+  isTextResource,
+  getResourceInfo,
+  checkTranslation,
+  describeReadFailure,
+  logger,
+} from "../utils/index.js";
+
+/**
+ * Compares every culture variant of `basePath` against the default file and
+ * reports, per key and culture, values whose format placeholders, markup
+ * tags, surrounding whitespace or line breaks differ from the default value.
+ *
+ * Missing or empty translations and non-string resources are not checked;
+ * use `find_missing_translations` for the former.
+ */
+export async function handleValidateTranslations(
+  args: Record<string, unknown> | undefined,
+): Promise<ToolResponse> {
+  const basePath = requireResxPath(args?.basePath, "basePath");
+
+  logger.info(`Validating translations in variants of ${path.basename(basePath)}`);
+
+  const variants = await loadResourceSet(basePath);
+  const defaultVariant = variants.find((v) => v.language === "default");
+
+  if (!defaultVariant?.parsed) {
+    return {
+      content: [
+        { type: "text", text: `Unable to read file: ${describeReadFailure(basePath)}` },
+      ],
+      isError: true,
+    };
+  }
+
+  const defaults = indexEntries(getDataEntries(defaultVariant));
+  const violations: TranslationViolation[] = [];
+  const cultures: string[] = [];
+  const unreadable: string[] = [];
+
+  for (const variant of variants) {
+    if (variant === defaultVariant) continue;
+    if (!variant.parsed) {
+      unreadable.push(describeReadFailure(variant.file, path.basename(variant.file)));
+      continue;
+    }
+    cultures.push(variant.language);
+
+    for (const [key, entry] of indexEntries(getDataEntries(variant))) {
+      const source = defaults.get(key);
+      if (!source || isEmptyValue(entry)) continue;
+      if (getResourceInfo(source) !== null || !isTextResource(entry)) continue;
+
+      const issues = checkTranslation(source.value?.[0] ?? "", entry.value?.[0] ?? "");
+      if (issues.length > 0) {
+        violations.push({
+          key,
+          culture: variant.language,
+          file: path.basename(variant.file),
+          issues,
+        });
+      }
+    }
+  }
+
+  violations.sort(
+    (a, b) => a.key.localeCompare(b.key) || a.culture.localeCompare(b.culture),
+  );
+
+  logger.info(
+    `Found ${String(violations.length)} inconsistent translation(s) ` +
+      `across ${String(cultures.length)} culture(s)`,
+  );
+
+  const result = {
+    basePath: path.basename(basePath),
+    cultures,
+    totalViolations: violations.length,
+    violations,
+    ...(unreadable.length > 0 ? { unreadable } : {}),
+  };
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+  };
+}
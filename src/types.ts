@@ -5,6 +5,10 @@ export interface ResxDataEntry {
   $: {
     name: string;
     "xml:space"?: string;
+    /** .NET type of a non-string resource, e.g. `System.Int32, mscorlib`. */
+    type?: string;
+    /** Serialization format of an embedded binary resource. */
+    mimetype?: string;
   };
   value?: string[];
   comment?: string[];
@@ -27,12 +31,50 @@ export interface ResxDocument {
   root: ResxRoot;
 }
 
+/**
+ * Description of a `<data>` entry that is not a plain string:
+ *
+ * - `file` — a `ResXFileRef` pointing at a file next to the `.resx`;
+ * - `binary` — an embedded payload serialized as base64 (`mimetype`);
+ * - `typed` — a value converted from text, e.g. `System.Int32`.
+ */
+export interface ResourceInfo {
+  kind: "file" | "binary" | "typed";
+  /** .NET type of the resource; for file references, the type of the file's content. */
+  type?: string;
+  mimetype?: string;
+  /** Referenced path of a file resource, as written in the `.resx`. */
+  file?: string;
+  /** Decoded size of a binary payload. */
+  bytes?: number;
+}
+
 /**
  * Result of a translation lookup across language variants.
  */
 export interface TranslationResult {
   key: string;
   translations: Record<string, string>;
+  /** Translator comments per language; omitted when no variant has one. */
+  comments?: Record<string, string>;
+  /** Details of non-string resources per language; omitted when all are strings. */
+  resources?: Record<string, ResourceInfo>;
+  /** Effective value per language after culture fallback, when requested. */
+  resolved?: Record<string, ResolvedTranslation>;
+  /** Variants that could not be parsed, with the reason. */
+  unreadable?: string[];
+  /** Sibling files that were not treated as variants, when requested. */
+  skipped?: { file: string; reason: string }[];
+}
+
+/**
+ * The value an application would display for a key in one culture, after
+ * .NET `ResourceManager` parent-culture fallback.
+ */
+export interface ResolvedTranslation {
+  value: string;
+  /** Culture the value came from (`"default"` for the base file), or `null` when none has the key. */
+  resolvedFrom: string | null;
 }
 
 /**
@@ -43,9 +85,313 @@ export interface ParsedResxFile {
   document: ResxDocument;
   /** Detected line ending: `"\r\n"` (CRLF) or `"\n"` (LF). */
   eol: string;
+  /** The file's text as read. */
+  content: string;
+}
+
+/**
+ * Why a `.resx` file could not be read.  `line` and `column` (both 1-based)
+ * are present for XML syntax errors.
+ */
+export interface ResxReadError {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * How `<data>` entries are ordered when a file is written:
+ *
+ * - `alphabetical` — case-insensitive, locale-aware by key (the default);
+ * - `ordinal` — case-sensitive ordinal order, as produced by `ResXResourceWriter`;
+ * - `preserve` — existing order is kept and new keys are appended;
+ * - `insert-sorted` — existing order is kept and new keys are inserted at
+ *   their alphabetical position.
+ */
+export type SortMode = "alphabetical" | "ordinal" | "preserve" | "insert-sorted";
+
+/**
+ * Transports the server can be reached over: `stdio` for a client that
+ * launches the server as a subprocess, `http` for MCP Streamable HTTP
+ * (with the older HTTP+SSE transport as a fallback).
+ */
+export type TransportKind = "stdio" | "http";
+
+/**
+ * Options accepted by `writeResxFile`.
+ */
+export interface WriteResxOptions {
+  /** Overrides the server-wide default sort mode for this write. */
+  sortMode?: SortMode;
+}
+
+/**
+ * XLIFF versions supported by `export_xliff`.
+ */
+export type XliffVersion = "2.0" | "1.2";
+
+/**
+ * One translatable string in an XLIFF document.  `needs-translation` marks
+ * keys with no (or an empty) value in the target culture.
+ */
+export interface XliffUnit {
+  /** The resx key. */
+  id: string;
+  source: string;
+  target?: string;
+  /** Translator comment of the default entry, exported as a `<note>`. */
+  note?: string;
+  state: "translated" | "needs-translation";
+  /** Set by `parseXliff` when the unit's content cannot be mapped to a plain value. */
+  problem?: string;
+}
+
+/**
+ * A bilingual XLIFF document for one source/target language pair.
+ */
+export interface XliffDocument {
+  version: XliffVersion;
+  sourceLanguage: string;
+  targetLanguage: string;
+  /** Name of the resource the units come from, e.g. `Language.resx`. */
+  original: string;
+  units: XliffUnit[];
+}
+
+/**
+ * Field separators accepted by the CSV tools: comma, semicolon (used by
+ * Excel in many European locales) and tab.
+ */
+export type CsvDelimiter = "," | ";" | "\t";
+
+/**
+ * Layouts of the JSON locale files written by `export_json`: `flat` maps
+ * each resx key to its value, `nested` splits keys on a separator into
+ * nested objects (as used by i18next, ngx-translate and similar libraries).
+ */
+export type JsonLocaleFormat = "flat" | "nested";
+
+/**
+ * One modification made (or, in a dry run, planned) by a matrix import.
+ */
+export interface TranslationChange {
+  /** Culture label of the modified file, `"default"` for the base file. */
+  culture: string;
+  key: string;
+  field: "value" | "comment";
+  /** Previous content; omitted when the key or comment did not exist. */
+  before?: string;
+  after: string;
+}
+
+/**
+ * Values to import into a resource set, as read from a spreadsheet or other
+ * exchange format.
+ */
+export interface TranslationMatrix {
+  /** Culture label (`"default"` or a culture name) → key → value. */
+  values: Map<string, Map<string, string>>;
+  /** Key → translator comment, applied to the default file. */
+  comments: Map<string, string>;
+}
+
+/**
+ * Outcome of importing a {@link TranslationMatrix}.
+ */
+export interface TranslationImportResult {
+  dryRun: boolean;
+  files: {
+    file: string;
+    culture: string;
+    added: number;
+    updated: number;
+    /** Unified diff of the file, with `dryRun`. */
+    diff?: string;
+  }[];
+  changes: TranslationChange[];
+  skipped: { culture: string; key: string; reason: string }[];
+}
+
+/**
+ * One language variant of a resource set, as loaded by `loadResourceSet`.
+ */
+export interface ResxVariant {
+  /** Path of the `.resx` file on disk. */
+  file: string;
+  /** Culture label, e.g. `"en-US"`, or `"default"` for the base file. */
+  language: string;
+  /** Parsed content, or `null` when the file could not be read. */
+  parsed: ParsedResxFile | null;
+}
+
+/**
+ * Outcome of discovering the language variants of a base `.resx` file.
+ */
+export interface ResxDiscoveryResult {
+  /** Base file and culture variants, with `"default"` for the base file. */
+  variants: { file: string; culture: string }[];
+  /** Files matching the base name that are not culture variants. */
+  skipped: { file: string; reason: string }[];
+}
+
+/**
+ * Missing-translation findings for a single culture variant.
+ */
+export interface MissingTranslationsReport {
+  file: string;
+  /** Keys present in the default file but absent from this culture. */
+  missing: string[];
+  /** Keys present in this culture but with an empty value. */
+  empty: string[];
+  /** Keys present in this culture but absent from the default file. */
+  extra: string[];
+  counts: { missing: number; empty: number; extra: number };
+}
+
+/**
+ * Kinds of inconsistency between a translation and its default value.
+ */
+export type TranslationIssueType =
+  | "missing_placeholder"
+  | "unexpected_placeholder"
+  | "invalid_format"
+  | "tag_mismatch"
+  | "leading_whitespace"
+  | "trailing_whitespace"
+  | "newline_count";
+
+/**
+ * One inconsistency found by `checkTranslation`.
+ */
+export interface TranslationIssue {
+  type: TranslationIssueType;
+  message: string;
+}
+
+/**
+ * Issues found for one key in one culture by `validate_translations`.
+ */
+export interface TranslationViolation {
+  key: string;
+  culture: string;
+  file: string;
+  issues: TranslationIssue[];
+}
+
+/**
+ * Kinds of problem reported by `lint_resx`.
+ */
+export type LintIssueCode =
+  | "parse_error"
+  | "invalid_root"
+  | "duplicate_key"
+  | "duplicate_key_case"
+  | "empty_key"
+  | "key_whitespace"
+  | "invalid_identifier"
+  | "missing_resheader"
+  | "invalid_resheader"
+  | "utf8_bom"
+  | "unsupported_encoding"
+  | "invalid_utf8"
+  | "encoding_declaration"
+  | "mixed_line_endings";
+
+/**
+ * One problem found in a `.resx` file.  `error` issues break the .NET build
+ * or make the file unreadable, `warning` issues are likely mistakes and
+ * `info` issues are harmless but worth knowing about.
+ */
+export interface LintIssue {
+  severity: "error" | "warning" | "info";
+  code: LintIssueCode;
+  message: string;
+  /** Key the issue concerns, when it is about a `<data>` entry. */
+  key?: string;
+  /** 1-based position in the file, when known. */
+  line?: number;
+  column?: number;
+}
+
+/**
+ * A single hit returned by `search_translations`.
+ */
+export interface SearchMatch {
+  file: string;
+  culture: string;
+  key: string;
+  value: string;
+  /** Present when the entry is not a plain string resource. */
+  resource?: ResourceInfo;
+  /** Which fields matched the query. */
+  matchedIn: ("key" | "value" | "comment")[];
+}
+
+/**
+ * Summary of one logical resource set returned by `list_resource_sets`.
+ */
+export interface ResourceSetSummary {
+  /** Base (default) file, relative to the scanned root. */
+  basePath: string;
+  /** Number of keys in the base file, or `null` when it cannot be parsed. */
+  keyCount: number | null;
+  variants: { culture: string; file: string; keyCount: number | null }[];
+  /** Cultures present elsewhere in the workspace but without a file here. */
+  missingCultures: string[];
 }
 
 /**
  * Describes the outcome of an upsert operation.
  */
 export type UpsertAction = "added" | "updated";
+
+/**
+ * Per-item entry in the `upsert_translations_batch` report.  `unchanged`
+ * means the key already had exactly the requested value (and comment).
+ */
+export interface BatchUpsertItemResult {
+  file: string;
+  key: string;
+  action: UpsertAction | "unchanged" | "error";
+  /** Value before an update, reported with `dryRun`. */
+  previousValue?: string;
+  error?: string;
+}
+
+/**
+ * Outcome of removing a key from a single `.resx` file.
+ */
+export type DeleteAction = "removed" | "not_found" | "unreadable";
+
+/**
+ * Per-file entry in the `delete_translation` report.
+ */
+export interface DeleteFileResult {
+  file: string;
+  language: string;
+  action: DeleteAction;
+  /** Unified diff of the file, with `dryRun`. */
+  diff?: string;
+}
+
+/**
+ * Per-file entry in the `rename_translation_key` report.
+ */
+export interface RenameFileResult {
+  file: string;
+  language: string;
+  action: "renamed" | "not_found";
+  /** Unified diff of the file, with `dryRun`. */
+  diff?: string;
+}
+
+/**
+ * Shape returned by every tool handler, matching the MCP `CallToolResult`
+ * content model.
+ */
+export interface ToolResponse {
+  content: { type: string; text: string }[];
+  isError?: boolean;
+  /** Required for structural compatibility with the SDK's result types. */
+  [key: string]: unknown;
+}
@@ -0,0 +1,131 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing for translation matrices.
+ *
+ * Fields containing the delimiter, quotes or line breaks are quoted, with
+ * embedded quotes doubled; line breaks inside values are kept as LF, which
+ * is what spreadsheet applications use within a cell.
+ *
+ * Fields starting with `=`, `+`, `-` or `@` are written with a leading `'`
+ * so that spreadsheets show them as text instead of evaluating them as
+ * formulas; parsing removes the `'` again.
+ */
+
+import type { CsvDelimiter } from "../types.js";
+
+export const CSV_DELIMITERS: readonly CsvDelimiter[] = [",", ";", "\t"];
+
+/**
+ * Render `rows` as CSV with CRLF record separators, prefixed with a UTF-8
+ * byte order mark so that Excel detects the encoding.
+ */
+export function formatCsv(
+  rows: readonly (readonly string[])[],
+  delimiter: CsvDelimiter,
+): string {
+  const lines = rows.map((row) =>
+    row.map((field) => quoteField(escapeFormula(field), delimiter)).join(delimiter),
+  );
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Parse CSV text into rows of fields.  Accepts CRLF, LF and CR record
+ * separators, ignores a leading byte order mark and a trailing empty line,
+ * and normalizes line breaks inside quoted fields to LF.
+ *
+ * Throws when a quoted field is not terminated.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter): string[][] {
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input.charAt(i);
+
+    if (ch === '"' && field === "") {
+      const close = findClosingQuote(input, i + 1);
+      if (close < 0)
+        throw new Error(
+          `Unterminated quoted field in CSV row ${String(rows.length + 1)}.`,
+        );
+      field = input
+        .slice(i + 1, close)
+        .replace(/""/g, '"')
+        .replace(/\r\n?/g, "\n");
+      i = close + 1;
+    } else if (ch === delimiter) {
+      row.push(unescapeFormula(field));
+      field = "";
+      i++;
+    } else if (ch === "\r" || ch === "\n") {
+      row.push(unescapeFormula(field));
+      rows.push(row);
+      row = [];
+      field = "";
+      i += ch === "\r" && input.charAt(i + 1) === "\n" ? 2 : 1;
+    } else {
+      field += ch;
+      i++;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(unescapeFormula(field));
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Guess the delimiter of a CSV document from its header line: the candidate
+ * that occurs most often outside quotes, defaulting to a comma.
+ */
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+  const header = /^[^\r\n]*/.exec(text.replace(/"[^"]*"/g, ""))?.[0] ?? "";
+  let best: CsvDelimiter = ",";
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = header.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * Matches fields a spreadsheet would read as a formula, also after the `'`
+ * prefixes {@link escapeFormula} adds, so that a value that itself starts
+ * with `'=` survives a round trip.
+ */
+const FORMULA_PATTERN = /^'*[=+\-@]/;
+
+function escapeFormula(field: string): string {
+  return FORMULA_PATTERN.test(field) ? `'${field}` : field;
+}
+
+function unescapeFormula(field: string): string {
+  return field.startsWith("'") && FORMULA_PATTERN.test(field) ? field.slice(1) : field;
+}
+
+function quoteField(field: string, delimiter: CsvDelimiter): string {
+  if (!field.includes(delimiter) && !/["\r\n]/.test(field)) return field;
+  return `"${field.replace(/"/g, '""')}"`;
+}
+
+/** Index of the quote closing a field opened before `start`, skipping doubled quotes. */
+function findClosingQuote(text: string, start: number): number {
+  let i = start;
+  for (;;) {
+    const quote = text.indexOf('"', i);
+    if (quote < 0) return -1;
+    if (text.charAt(quote + 1) !== '"') return quote;
+    i = quote + 2;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Recognition of .NET culture names used as `.resx` file suffixes.
+ *
+ * A culture name follows the BCP-47 subset that .NET's `CultureInfo`
+ * understands: a language code, an optional script and an optional region,
+ * e.g. `de`, `de-DE`, `zh-Hans`, `sr-Latn-RS` or `es-419`.  Each subtag is
+ * checked against the ICU data bundled with Node so that look-alikes such as
+ * `Extras` or `old` are not mistaken for cultures.  ICU also knows some
+ * common file-name suffixes as language codes (`new` is Newari, `bak` an
+ * alias of Bashkir); those are rejected as well.
+ *
+ * Also models the parent-culture fallback that `ResourceManager` applies
+ * when a key is missing from a culture's resources.
+ */
+
+/** language[-Script][-REGION], case-insensitive. */
+const CULTURE_PATTERN = /^([a-z]{2,3})(?:-([a-z]{4}))?(?:-([a-z]{2}|\d{3}))?$/i;
+
+/**
+ * Suffixes common in file names (`Language.new.resx`, `Language.min.resx`)
+ * that ICU knows as rare language codes but that are not used as cultures
+ * on their own.  With a region (`min-ID`) they are still accepted.
+ */
+const NON_CULTURE_SUFFIXES = new Set(["new", "min", "bin", "man", "alt", "pro"]);
+
+/** Legacy .NET names that predate BCP-47 script subtags. */
+const LEGACY_CULTURES = new Set(["zh-chs", "zh-cht"]);
+
+/** Script implied by a Chinese region, which .NET uses as the region's parent. */
+const CHINESE_REGION_SCRIPTS: Record<string, string> = {
+  CN: "Hans",
+  SG: "Hans",
+  TW: "Hant",
+  HK: "Hant",
+  MO: "Hant",
+};
+
+const languageNames = new Intl.DisplayNames(["en"], {
+  type: "language",
+  fallback: "none",
+});
+const scriptNames = new Intl.DisplayNames(["en"], { type: "script", fallback: "none" });
+const regionNames = new Intl.DisplayNames(["en"], { type: "region", fallback: "none" });
+
+/**
+ * Parsed subtags of a culture name.
+ */
+export interface CultureName {
+  /** The name as written in the file name, e.g. `"zh-Hans-CN"`. */
+  name: string;
+  language: string;
+  script?: string;
+  region?: string;
+}
+
+/**
+ * Parse a culture name, returning `null` when it is not a recognised
+ * language/script/region combination.
+ *
+ * @example
+ * parseCultureName("de-DE")   → { name: "de-DE", language: "de", region: "DE" }
+ * parseCultureName("zh-Hans") → { name: "zh-Hans", language: "zh", script: "Hans" }
+ * parseCultureName("Extras")  → null
+ */
+export function parseCultureName(name: string): CultureName | null {
+  if (LEGACY_CULTURES.has(name.toLowerCase())) {
+    return { name, language: "zh" };
+  }
+
+  const match = CULTURE_PATTERN.exec(name);
+  if (!match) return null;
+
+  const [, language = "", script, region] = match;
+
+  if (!isKnown(languageNames, language.toLowerCase())) return null;
+  if (isTwoLetterAlias(language.toLowerCase())) return null;
+  if (!script && !region && NON_CULTURE_SUFFIXES.has(language.toLowerCase())) return null;
+  if (script && !isKnown(scriptNames, toTitleCase(script))) return null;
+  if (region && !isKnown(regionNames, region.toUpperCase())) return null;
+
+  return {
+    name,
+    language: language.toLowerCase(),
+    ...(script ? { script: toTitleCase(script) } : {}),
+    ...(region ? { region: region.toUpperCase() } : {}),
+  };
+}
+
+/** Whether `name` is a recognised culture name. */
+export function isCultureName(name: string): boolean {
+  return parseCultureName(name) !== null;
+}
+
+/**
+ * The cultures .NET's `ResourceManager` consults for `culture`, in order:
+ * the culture itself, its parent cultures and finally `"default"` (the
+ * invariant culture, i.e. the base `.resx` file).
+ *
+ * Parents drop the region, then the script: `sr-Latn-RS` → `sr-Latn` →
+ * `sr`.  Chinese regions fall back to their script first, as in .NET:
+ * `zh-TW` → `zh-Hant` → `zh` and `zh-CN` → `zh-Hans` → `zh`.  Names that
+ * are not recognised cultures fall back to `"default"` directly.
+ *
+ * @example
+ * getCultureFallbackChain("de-AT")   → ["de-AT", "de", "default"]
+ * getCultureFallbackChain("default") → ["default"]
+ */
+export function getCultureFallbackChain(culture: string): string[] {
+  if (culture === "default") return ["default"];
+
+  const parsed = parseCultureName(culture);
+  const chain = [culture];
+  if (parsed && !LEGACY_CULTURES.has(culture.toLowerCase())) {
+    const { language, script, region } = parsed;
+    const implied =
+      language === "zh" && region ? CHINESE_REGION_SCRIPTS[region] : undefined;
+    if (script && region) chain.push(`${language}-${script}`);
+    else if (implied) chain.push(`${language}-${implied}`);
+    if (script || region) chain.push(language);
+  }
+  chain.push("default");
+  return chain;
+}
+
+/**
+ * Resolve a value the way `ResourceManager` does: walk the fallback chain
+ * of `culture` and return the first value `lookup` finds, together with
+ * the culture it came from.  `lookup` receives the chain's culture names
+ * and returns `undefined` when that culture has no value.
+ */
+export function resolveWithFallback<T>(
+  culture: string,
+  lookup: (culture: string) => T | undefined,
+): { value: T; culture: string } | null {
+  for (const candidate of getCultureFallbackChain(culture)) {
+    const value = lookup(candidate);
+    if (value !== undefined) return { value, culture: candidate };
+  }
+  return null;
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+function isKnown(names: Intl.DisplayNames, code: string): boolean {
+  try {
+    return names.of(code) !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a three-letter language code is an alias of a two-letter one
+ * (`bak` → `ba`, `deu` → `de`); .NET names such cultures by the shorter code.
+ */
+function isTwoLetterAlias(language: string): boolean {
+  if (language.length !== 3) return false;
+  try {
+    const [canonical = language] = Intl.getCanonicalLocales(language);
+    return /^[a-z]{2}$/.test(canonical);
+  } catch {
+    return false;
+  }
+}
+
+function toTitleCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+}
@@ -0,0 +1,255 @@
+/**
+ * Line-based unified diffs, used by the write tools to preview what a
+ * dry run would change.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import { assertFileAllowed } from "./roots.js";
+
+/** Unchanged lines shown around each change. */
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Edit distance beyond which the changed lines are shown as one removed
+ * block followed by one added block instead of a minimal diff.  Myers' trace
+ * grows with the square of the distance; this keeps it to a few megabytes.
+ */
+const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * Unified diff of `before` → `after` in the format of `diff -u` and
+ * `git diff`, with the file labelled `a/<name>` and `b/<name>`.  A `before`
+ * of `null` marks a new file (`--- /dev/null`).  Returns an empty string
+ * when the texts have the same lines.
+ *
+ * CRLF and LF line endings compare equal, so a diff never shows every line
+ * as changed just because of the file's line-ending style.
+ */
+export function createUnifiedDiff(
+  name: string,
+  before: string | null,
+  after: string,
+): string {
+  const oldLines = splitLines(before ?? "");
+  const newLines = splitLines(after);
+  const ops = diffLines(oldLines, newLines);
+  if (ops.every((op) => op.type === " ")) return "";
+
+  const output = [before === null ? "--- /dev/null" : `--- a/${name}`, `+++ b/${name}`];
+  for (const hunk of groupHunks(ops)) {
+    output.push(
+      `@@ -${formatRange(hunk.oldStart, hunk.oldLength)} ` +
+        `+${formatRange(hunk.newStart, hunk.newLength)} @@`,
+    );
+    for (const op of hunk.ops) {
+      if (op.line.endsWith(NO_EOL)) {
+        output.push(op.type + op.line.slice(0, -NO_EOL.length));
+        output.push("\\ No newline at end of file");
+      } else {
+        output.push(op.type + op.line);
+      }
+    }
+  }
+  return output.join("\n") + "\n";
+}
+
+/**
+ * Unified diff of writing `content` to `filePath`, without writing: the
+ * file as it is on disk (nothing when it does not exist yet) against
+ * `content`.  Returns an empty string when the file would not change.
+ */
+export async function previewFileWrite(
+  filePath: string,
+  content: string,
+): Promise<string> {
+  await assertFileAllowed(filePath);
+
+  let current: string | null = null;
+  try {
+    current = await fs.readFile(filePath, "utf-8");
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  return createUnifiedDiff(path.basename(filePath), current, content);
+}
+
+/**
+ * A diff from {@link createUnifiedDiff} as a fenced Markdown block, for
+ * tools that answer in plain text.
+ */
+export function formatDiffBlock(diff: string): string {
+  return "```diff\n" + diff + "```";
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * Appended to a last line without a line break, so that it differs from
+ * the same line with one.  Split lines never contain `\n` themselves.
+ */
+const NO_EOL = "\n";
+
+interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+interface Hunk {
+  oldStart: number;
+  oldLength: number;
+  newStart: number;
+  newLength: number;
+  ops: DiffOp[];
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split(/\r?\n/);
+  const last = lines.pop() ?? "";
+  if (last !== "") lines.push(last + NO_EOL);
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers' O(ND) algorithm),
+ * after setting aside the common prefix and suffix.  When more than
+ * {@link MAX_EDIT_DISTANCE} lines change, the rest is replaced wholesale.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const equal = (line: string): DiffOp => ({ type: " ", line });
+  return [
+    ...a.slice(0, prefix).map(equal),
+    ...myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map(equal),
+  ];
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) return replace(a, b);
+  const offset = n + m + 1;
+  // v[k + offset] is the furthest x reached on diagonal k = x - y.
+  const v = new Int32Array(2 * offset + 1);
+  // trace[d] holds diagonals -d-1 … d+1 of v before round d.
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= n + m; d++) {
+    if (d > MAX_EDIT_DISTANCE) return replace(a, b);
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && at(v, offset, k - 1) < at(v, offset, k + 1));
+      let x = down ? at(v, offset, k + 1) : at(v, offset, k - 1) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+  return [];
+}
+
+/** Edit script that removes all of `a` and then adds all of `b`. */
+function replace(a: string[], b: string[]): DiffOp[] {
+  return [
+    ...a.map((line): DiffOp => ({ type: "-", line })),
+    ...b.map((line): DiffOp => ({ type: "+", line })),
+  ];
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d] ?? new Int32Array(0);
+    const offset = d + 1;
+    const k = x - y;
+    const down = k === -d || (k !== d && at(v, offset, k - 1) < at(v, offset, k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = at(v, offset, prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: " ", line: a[x - 1] ?? "" });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (down) ops.push({ type: "+", line: b[y - 1] ?? "" });
+      else ops.push({ type: "-", line: a[x - 1] ?? "" });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
+
+function at(v: Int32Array, offset: number, k: number): number {
+  return v[k + offset] ?? 0;
+}
+
+/**
+ * Split an edit script into hunks of changes with up to
+ * {@link DIFF_CONTEXT_LINES} unchanged lines around them; changes separated
+ * by at most twice that many unchanged lines share a hunk.
+ */
+function groupHunks(ops: DiffOp[]): Hunk[] {
+  const changes = ops.flatMap((op, index) => (op.type === " " ? [] : [index]));
+  const hunks: Hunk[] = [];
+
+  let i = 0;
+  while (i < changes.length) {
+    const first = changes[i] ?? 0;
+    let last = first;
+    while (
+      i + 1 < changes.length &&
+      (changes[i + 1] ?? 0) - last <= 2 * DIFF_CONTEXT_LINES + 1
+    ) {
+      i++;
+      last = changes[i] ?? 0;
+    }
+    i++;
+
+    const start = Math.max(0, first - DIFF_CONTEXT_LINES);
+    const end = Math.min(ops.length, last + DIFF_CONTEXT_LINES + 1);
+    let oldLine = 1;
+    let newLine = 1;
+    for (const op of ops.slice(0, start)) {
+      if (op.type !== "+") oldLine++;
+      if (op.type !== "-") newLine++;
+    }
+    const hunkOps = ops.slice(start, end);
+    hunks.push({
+      oldStart: oldLine,
+      oldLength: hunkOps.filter((op) => op.type !== "+").length,
+      newStart: newLine,
+      newLength: hunkOps.filter((op) => op.type !== "-").length,
+      ops: hunkOps,
+    });
+  }
+  return hunks;
+}
+
+/** `start,length` as printed in a hunk header; an empty range names the line before it. */
+function formatRange(start: number, length: number): string {
+  if (length === 1) return String(start);
+  return `${String(length === 0 ? start - 1 : start)},${String(length)}`;
+}
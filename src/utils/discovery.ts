@@ -3,7 +3,11 @@
  */
 
 import * as path from "node:path";
-import { glob } from "glob";
+import { glob, escape } from "glob";
+
+import type { ResxDiscoveryResult } from "../types.js";
+import { isCultureName } from "./culture.js";
+import { readGitignoreGlobs } from "./gitignore.js";
 
 /**
  * Discover all related `.resx` language files that share the same base name.
@@ -16,12 +20,121 @@ import { glob } from "glob";
  *   "src/Translations/Language.pl-PL.resx",
  * ]
  * ```
+ *
+ * Only files whose suffix is a recognised culture name are included; see
+ * {@link discoverResxVariants} for the parsed cultures and skipped files.
  */
 export async function findRelatedResxFiles(basePath: string): Promise<string[]> {
+  const { variants } = await discoverResxVariants(basePath);
+  return variants.map((v) => v.file);
+}
+
+/**
+ * Discover the language variants of `basePath` together with their culture
+ * names (`"default"` for the base file itself).
+ *
+ * Siblings that share the base name but are not culture variants — e.g.
+ * `LanguageExtras.resx` or `Language.Errors.resx` — are returned in
+ * `skipped` with the reason they were excluded.
+ */
+export async function discoverResxVariants(
+  basePath: string,
+): Promise<ResxDiscoveryResult> {
   const dir = path.dirname(basePath);
   const baseName = getBaseName(basePath);
-  const pattern = path.join(dir, `${baseName}*.resx`).replace(/\\/g, "/"); // glob requires forward slashes
-  return glob(pattern);
+  const matches = await glob(`${escape(baseName)}*.resx`, { cwd: dir });
+
+  const result: ResxDiscoveryResult = { variants: [], skipped: [] };
+  for (const match of matches.sort()) {
+    const file = path.join(dir, match);
+    const stem = getBaseName(match);
+
+    if (stem === baseName) {
+      result.variants.push({ file, culture: "default" });
+    } else if (!stem.startsWith(`${baseName}.`)) {
+      result.skipped.push({
+        file,
+        reason: `Belongs to a different resource set ('${stem}'), not '${baseName}'.`,
+      });
+    } else {
+      const suffix = stem.slice(baseName.length + 1);
+      if (isCultureName(suffix)) {
+        result.variants.push({ file, culture: suffix });
+      } else {
+        result.skipped.push({
+          file,
+          reason: `Suffix '${suffix}' is not a recognised culture name.`,
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Directories that never contain source resource files in a .NET / web
+ * workspace and are skipped by recursive scans.
+ */
+const IGNORED_DIRECTORIES = [
+  "**/bin/**",
+  "**/obj/**",
+  "**/node_modules/**",
+  "**/.git/**",
+];
+
+/**
+ * Recursively find every `.resx` file below `rootDir`, skipping build
+ * output and dependency folders as well as anything excluded by the root
+ * `.gitignore`.  Results are sorted for stable output.
+ */
+export async function findResxFilesInDirectory(rootDir: string): Promise<string[]> {
+  const files = await glob("**/*.resx", {
+    cwd: rootDir,
+    absolute: true,
+    ignore: [...IGNORED_DIRECTORIES, ...(await readGitignoreGlobs(rootDir))],
+  });
+  return files.sort();
+}
+
+/**
+ * Pick the base (default) files out of a list of `.resx` paths: a file is a
+ * base file unless its last dot-separated segment is a culture name and
+ * stripping it yields another file in the list (e.g. `Language.de-DE.resx`
+ * → `Language.resx`).
+ */
+export function findBaseResxFiles(files: readonly string[]): string[] {
+  const known = new Set(files.map((f) => path.resolve(f)));
+  return files.filter((file) => {
+    const base = cultureBasePath(file);
+    return base === null || !known.has(base);
+  });
+}
+
+/**
+ * Group a flat list of `.resx` paths into resource sets: each base file
+ * (see {@link findBaseResxFiles}) together with the culture variants from
+ * the list that belong to it.
+ */
+export function groupResourceSets(
+  files: readonly string[],
+): { basePath: string; variants: { file: string; culture: string }[] }[] {
+  const sets = findBaseResxFiles(files).map((basePath) => ({
+    basePath,
+    variants: [] as { file: string; culture: string }[],
+  }));
+  const byBase = new Map(sets.map((set) => [path.resolve(set.basePath), set]));
+
+  for (const file of files) {
+    const base = cultureBasePath(file);
+    const owner = base === null ? undefined : byBase.get(base);
+    if (owner) {
+      const stem = getBaseName(file);
+      owner.variants.push({ file, culture: stem.slice(stem.lastIndexOf(".") + 1) });
+    }
+  }
+
+  return sets;
 }
 
 /**
@@ -36,7 +149,8 @@ export async function findRelatedResxFiles(basePath: string): Promise<string[]>
  * getBaseName("Language.en-US.resx")  → "Language.en-US"
  */
 export function getBaseName(filePath: string): string {
-  return path.basename(filePath, ".resx");
+  // Accept Windows-style separators on every platform.
+  return path.basename(filePath.replace(/\\/g, "/"), ".resx");
 }
 
 /**
@@ -47,8 +161,48 @@ export function getBaseName(filePath: string): string {
  * extractLanguageLabel("Language.resx", "Language")        → "default"
  */
 export function extractLanguageLabel(filePath: string, baseName: string): string {
-  const fileName = path.basename(filePath, ".resx");
+  const fileName = getBaseName(filePath);
   if (fileName === baseName) return "default";
   const suffix = fileName.slice(baseName.length + 1);
   return suffix || "default";
 }
+
+/**
+ * Build the path of the culture-specific variant of `basePath`.
+ *
+ * @example
+ * getCultureFilePath("src/Language.resx", "de-DE")   → "src/Language.de-DE.resx"
+ * getCultureFilePath("src/Language.resx", "default") → "src/Language.resx"
+ */
+export function getCultureFilePath(basePath: string, culture: string): string {
+  if (culture === "default") return basePath;
+  const dir = path.dirname(basePath);
+  return path.join(dir, `${getBaseName(basePath)}.${culture}.resx`);
+}
+
+/**
+ * Path of the base file a culture variant would belong to, or `null` when
+ * the file name does not end in a culture suffix.  The base file is not
+ * required to exist.
+ *
+ * @example
+ * getVariantBasePath("src/Language.de-DE.resx") → "src/Language.resx"
+ * getVariantBasePath("src/Language.resx")       → null
+ */
+export function getVariantBasePath(file: string): string | null {
+  const stem = getBaseName(file);
+  const dot = stem.lastIndexOf(".");
+  if (dot <= 0 || !isCultureName(stem.slice(dot + 1))) return null;
+  return path.join(path.dirname(file), `${stem.slice(0, dot)}.resx`);
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/**
+ * Resolved path of the base file a culture variant belongs to, or `null`
+ * when the file name does not end in a culture suffix.
+ */
+function cultureBasePath(file: string): string | null {
+  const base = getVariantBasePath(file);
+  return base === null ? null : path.resolve(base);
+}
@@ -23,6 +23,7 @@
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { logger } from "./logger.js";
+import { assertFileAllowed } from "./roots.js";
 
 // ── Configuration ───────────────────────────────────────────────────────
 
@@ -109,12 +110,16 @@ async function releaseLockFile(filePath: string): Promise<void> {
  *   (in-process promise chain).
  * - Only one process at a time operates on the file (cross-process
  *   lockfile with stale-lock recovery).
+ *
+ * Throws before taking any lock when `filePath` lies outside the allowed
+ * roots, so that not even the lockfile is created there.
  */
 export async function withFileLock<T>(
   filePath: string,
   fn: () => Promise<T>,
 ): Promise<T> {
   const key = path.resolve(filePath);
+  await assertFileAllowed(key);
 
   // ── 1. In-process serialisation ──────────────────────────────────────
   // Chain this operation after whatever is currently pending for the same
@@ -148,6 +153,28 @@ export async function withFileLock<T>(
   }
 }
 
+/**
+ * Execute `fn` while holding exclusive locks on every path in `filePaths`.
+ *
+ * Locks are acquired one by one in a canonical (sorted, de-duplicated)
+ * order so that two callers locking overlapping sets of files can never
+ * deadlock each other.  All locks are released when `fn` settles.
+ */
+export async function withFileLocks<T>(
+  filePaths: readonly string[],
+  fn: () => Promise<T>,
+): Promise<T> {
+  const ordered = [...new Set(filePaths.map((p) => path.resolve(p)))].sort();
+
+  const acquire = (index: number): Promise<T> => {
+    const next = ordered[index];
+    if (next === undefined) return fn();
+    return withFileLock(next, () => acquire(index + 1));
+  };
+
+  return acquire(0);
+}
+
 // ── Helpers ─────────────────────────────────────────────────────────────
 
 function delay(ms: number): Promise<void> {
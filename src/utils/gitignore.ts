@@ -0,0 +1,52 @@
+/**
+ * Minimal `.gitignore` support for recursive workspace scans.
+ *
+ * Only the subset of the syntax that matters for locating resource files is
+ * supported: comments, blank lines, anchored (`/foo`) and unanchored
+ * (`foo`) patterns, and directory-only patterns (`foo/`).  Negated patterns
+ * (`!foo`) cannot be expressed as plain ignore globs and are skipped.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+/**
+ * Convert the content of a `.gitignore` file into glob ignore patterns
+ * relative to the directory containing it.
+ */
+export function gitignoreToGlobs(content: string): string[] {
+  const globs: string[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (line.length === 0 || line.startsWith("#") || line.startsWith("!")) continue;
+
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.replace(/\/+$/, "");
+
+    // A pattern is anchored to the .gitignore directory when it starts with
+    // or contains a slash; otherwise it matches at any depth.
+    const anchored = line.includes("/");
+    line = line.replace(/^\/+/, "");
+    if (line.length === 0) continue;
+
+    const base = anchored ? line : `**/${line}`;
+    globs.push(`${base}/**`);
+    if (!directoryOnly) globs.push(base);
+  }
+
+  return globs;
+}
+
+/**
+ * Read `<rootDir>/.gitignore` and return its patterns as glob ignores.
+ * Returns an empty array when the file does not exist.
+ */
+export async function readGitignoreGlobs(rootDir: string): Promise<string[]> {
+  try {
+    const content = await fs.readFile(path.join(rootDir, ".gitignore"), "utf-8");
+    return gitignoreToGlobs(content);
+  } catch {
+    return [];
+  }
+}
@@ -1,5 +1,93 @@
-export { logger, attachServerToLogger, setLogLevel, getLogLevel } from "./logger.js";
-export { requireString, requireResxPath } from "./validation.js";
-export { parseResxFile, writeResxFile, findEntry, detectEol } from "./resx.js";
-export { findRelatedResxFiles, getBaseName, extractLanguageLabel } from "./discovery.js";
-export { withFileLock } from "./file-lock.js";
+export {
+  logger,
+  attachServerToLogger,
+  runWithLoggerServer,
+  setLogLevel,
+  getLogLevel,
+} from "./logger.js";
+export {
+  requireString,
+  requireNonEmptyString,
+  requireResxPath,
+  optionalString,
+  optionalResxPath,
+  optionalBoolean,
+  optionalComment,
+  optionalInteger,
+  optionalStringArray,
+  optionalRegExp,
+  requireRegExp,
+  optionalSortMode,
+  optionalCsvDelimiter,
+  optionalKeySeparator,
+} from "./validation.js";
+export {
+  parseResxFile,
+  parseResxText,
+  toReadError,
+  getReadError,
+  describeReadFailure,
+  writeResxFile,
+  restoreResxFile,
+  previewResxWrite,
+  serializeResxDocument,
+  onResxFileWritten,
+  findEntry,
+  detectEol,
+  upsertEntry,
+  normalizeNewlines,
+} from "./resx.js";
+export {
+  findRelatedResxFiles,
+  discoverResxVariants,
+  getBaseName,
+  extractLanguageLabel,
+  getCultureFilePath,
+  getVariantBasePath,
+  findResxFilesInDirectory,
+  findBaseResxFiles,
+  groupResourceSets,
+} from "./discovery.js";
+export {
+  SORT_MODES,
+  isSortMode,
+  setDefaultSortMode,
+  getDefaultSortMode,
+  compareKeys,
+  compareKeysOrdinal,
+  orderDataEntries,
+} from "./sort.js";
+export { getResourceInfo, isTextResource, formatEntryValue } from "./resource-type.js";
+export { checkTranslation } from "./translation-checks.js";
+export { lintResxContent } from "./resx-lint.js";
+export { importTranslationMatrix } from "./translation-import.js";
+export { createUnifiedDiff, previewFileWrite, formatDiffBlock } from "./diff.js";
+export { CSV_DELIMITERS, formatCsv, parseCsv, detectCsvDelimiter } from "./csv.js";
+export {
+  JSON_LOCALE_FORMATS,
+  isJsonLocaleFormat,
+  buildJsonLocale,
+  flattenJsonLocale,
+} from "./json-locale.js";
+export { XLIFF_VERSIONS, isXliffVersion, buildXliff, parseXliff } from "./xliff.js";
+export {
+  parseCultureName,
+  isCultureName,
+  getCultureFallbackChain,
+  resolveWithFallback,
+} from "./culture.js";
+export { withFileLock, withFileLocks } from "./file-lock.js";
+export {
+  setConfiguredRoots,
+  getConfiguredRoots,
+  getAllowedRoots,
+  assertPathArgumentsAllowed,
+  assertFileAllowed,
+  runWithClientRoots,
+} from "./roots.js";
+export {
+  loadResourceSet,
+  getDataEntries,
+  isEmptyValue,
+  indexEntries,
+} from "./resource-set.js";
@@ -0,0 +1,120 @@
+/**
+ * Conversion between resx key/value lists and the JSON locale files used by
+ * frontend i18n libraries.
+ *
+ * Flat files map each key to its value.  Nested files split keys on a
+ * separator, so `Home.Title` becomes `{ "Home": { "Title": "…" } }`.
+ */
+
+import type { JsonLocaleFormat } from "../types.js";
+
+export const JSON_LOCALE_FORMATS: readonly JsonLocaleFormat[] = ["flat", "nested"];
+
+/**
+ * Type guard for {@link JsonLocaleFormat}.
+ */
+export function isJsonLocaleFormat(value: unknown): value is JsonLocaleFormat {
+  return (
+    typeof value === "string" &&
+    (JSON_LOCALE_FORMATS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Build the JSON object for `entries` (key/value pairs, in output order).
+ *
+ * Throws when nesting would put a value and an object at the same path,
+ * e.g. for the keys `Home` and `Home.Title`, or when a key has an empty
+ * segment such as `Home..Title`.
+ */
+export function buildJsonLocale(
+  entries: readonly (readonly [string, string])[],
+  format: JsonLocaleFormat,
+  separator: string,
+): Record<string, unknown> {
+  const root = emptyObject();
+  if (format === "flat") {
+    for (const [key, value] of entries) root[key] = value;
+    return root;
+  }
+
+  const owners = new Map<object, string>();
+  for (const [key, value] of entries) {
+    const segments = key.split(separator);
+    if (segments.includes("")) {
+      throw new Error(
+        `Key '${key}' cannot be nested by '${separator}' because it has an empty segment; ` +
+          "use the flat format or another separator.",
+      );
+    }
+
+    let node = root;
+    segments.forEach((segment, index) => {
+      const path = segments.slice(0, index + 1).join(separator);
+      const existing = node[segment];
+      if (index === segments.length - 1) {
+        if (existing !== undefined)
+          throw nestingConflict(key, owners.get(existing as object) ?? path);
+        node[segment] = value;
+        return;
+      }
+      if (typeof existing === "string") throw nestingConflict(key, path);
+      if (existing === undefined) {
+        const child = emptyObject();
+        owners.set(child, key);
+        node[segment] = child;
+      }
+      node = node[segment] as Record<string, unknown>;
+    });
+  }
+  return root;
+}
+
+/**
+ * Flatten a parsed JSON locale file into key/value pairs, joining nested
+ * object keys with `separator`.  Flat files pass through unchanged.
+ *
+ * Values that are not strings (numbers, booleans, `null`, arrays) are not
+ * returned as values; their keys are listed in `invalid` instead.
+ *
+ * Throws when `data` is not a JSON object.
+ */
+export function flattenJsonLocale(
+  data: unknown,
+  separator: string,
+): { values: Map<string, string>; invalid: string[] } {
+  if (!isPlainObject(data)) {
+    throw new Error("A JSON locale file must contain an object at the top level.");
+  }
+
+  const values = new Map<string, string>();
+  const invalid: string[] = [];
+  const visit = (node: Record<string, unknown>, prefix: string): void => {
+    for (const [name, value] of Object.entries(node)) {
+      const key = prefix === "" ? name : `${prefix}${separator}${name}`;
+      if (typeof value === "string") values.set(key, value);
+      else if (isPlainObject(value)) visit(value, key);
+      else invalid.push(key);
+    }
+  };
+  visit(data, "");
+  return { values, invalid };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/** An object without a prototype, so that keys such as `__proto__` are plain properties. */
+function emptyObject(): Record<string, unknown> {
+  return Object.create(null) as Record<string, unknown>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function nestingConflict(key: string, other: string): Error {
+  return new Error(
+    `Keys '${other}' and '${key}' conflict when nested by the separator; ` +
+      "use the flat format or another separator.",
+  );
+}
@@ -2,10 +2,17 @@
  * Structured logger that writes to **stderr** and — once a server instance
  * is attached — also forwards messages as MCP `notifications/message`.
  *
+ * Over HTTP every session has its own server instance.  Messages logged
+ * while handling a session's request are forwarded to that session only
+ * (see {@link runWithLoggerServer}); anything logged outside a request,
+ * such as startup and shutdown, goes to stderr alone.
+ *
  * The stderr output is always enabled so diagnostic messages are visible
  * even before the MCP handshake completes.
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
+
 import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
 
@@ -26,6 +33,8 @@ const LEVEL_SEVERITY: Record<LoggingLevel, number> = {
 
 // eslint-disable-next-line @typescript-eslint/no-deprecated
 let _server: Server | null = null;
+// eslint-disable-next-line @typescript-eslint/no-deprecated
+const requestServer = new AsyncLocalStorage<Server>();
 let _minLevel: LoggingLevel = "debug";
 
 // ── Public API ──────────────────────────────────────────────────────────
@@ -39,6 +48,16 @@ export function attachServerToLogger(server: Server): void {
   _server = server;
 }
 
+/**
+ * Run `fn` with messages logged during it (including asynchronous work it
+ * starts) forwarded to `server` instead of the attached one.  Used to keep
+ * each HTTP session's messages to itself.
+ */
+// eslint-disable-next-line @typescript-eslint/no-deprecated
+export function runWithLoggerServer<T>(server: Server, fn: () => T): T {
+  return requestServer.run(server, fn);
+}
+
 /**
  * Set the minimum log level.  Messages below this severity are discarded.
  * Called by the `logging/setLevel` request handler.
@@ -72,13 +91,14 @@ function emit(level: LoggingLevel, message: string, error?: unknown): void {
   // Always write to stderr for local diagnostics.
   process.stderr.write(formatMessage(level, message, error) + "\n");
 
-  // Forward to MCP client if connected.
-  if (_server) {
+  // Forward to the MCP client whose request this is, if connected.
+  const server = requestServer.getStore() ?? _server;
+  if (server) {
     const data = error instanceof Error
       ? `${message}: ${error.message}`
       : message;
 
-    _server.sendLoggingMessage({ level, logger: "resx-translations-mcp", data }).catch(() => {
+    server.sendLoggingMessage({ level, logger: "resx-translations-mcp", data }).catch(() => {
       // Swallow — the transport may not be ready yet.
     });
   }
@@ -0,0 +1,58 @@
+/**
+ * Helpers for loading every language variant of a resource set at once.
+ */
+
+import type { ResxDataEntry, ResxVariant } from "../types.js";
+import { discoverResxVariants } from "./discovery.js";
+import { parseResxFile } from "./resx.js";
+
+/**
+ * Discover and parse every language variant related to `basePath`.
+ *
+ * The default file (label `"default"`) is always returned first, followed by
+ * the culture variants in alphabetical order.  Files that cannot be parsed
+ * are returned with `parsed: null` so callers can report them.
+ */
+export async function loadResourceSet(basePath: string): Promise<ResxVariant[]> {
+  const { variants: files } = await discoverResxVariants(basePath);
+
+  const variants: ResxVariant[] = [];
+  for (const { file, culture } of files) {
+    variants.push({ file, language: culture, parsed: await parseResxFile(file) });
+  }
+
+  return variants.sort((a, b) => {
+    if (a.language === "default") return -1;
+    if (b.language === "default") return 1;
+    return a.language.localeCompare(b.language);
+  });
+}
+
+/**
+ * The `<data>` entries of a parsed variant, or an empty array when the file
+ * could not be parsed or contains no entries.
+ */
+export function getDataEntries(variant: ResxVariant): ResxDataEntry[] {
+  const data = variant.parsed?.document.root.data;
+  return Array.isArray(data) ? data : [];
+}
+
+/**
+ * Whether an entry has no usable value (missing `<value>` element, or a
+ * value that is empty or whitespace-only).
+ */
+export function isEmptyValue(entry: ResxDataEntry): boolean {
+  return (entry.value?.[0] ?? "").trim().length === 0;
+}
+
+/**
+ * Build a key → entry map for quick lookups.  When a key is duplicated the
+ * first occurrence wins, matching `findEntry`.
+ */
+export function indexEntries(entries: ResxDataEntry[]): Map<string, ResxDataEntry> {
+  const map = new Map<string, ResxDataEntry>();
+  for (const entry of entries) {
+    if (!map.has(entry.$.name)) map.set(entry.$.name, entry);
+  }
+  return map;
+}
@@ -0,0 +1,82 @@
+/**
+ * Classification of non-string `<data>` entries.
+ *
+ * Besides strings, a `.resx` file can hold file references
+ * (`System.Resources.ResXFileRef`), embedded binary payloads such as
+ * bitmaps (identified by a `mimetype` attribute) and values of other types
+ * converted from text (e.g. `System.Int32`).  Read tools describe these
+ * instead of dumping their raw payload, and write tools refuse to overwrite
+ * the ones a plain string would corrupt.
+ */
+
+import type { ResourceInfo, ResxDataEntry } from "../types.js";
+
+const FILE_REF_TYPE = "System.Resources.ResXFileRef";
+const STRING_TYPE = "System.String";
+
+/**
+ * Describe a non-string entry, or return `null` for a plain string entry
+ * (no `type`/`mimetype`, or an explicit `System.String` type).
+ */
+export function getResourceInfo(entry: ResxDataEntry): ResourceInfo | null {
+  const { type, mimetype } = entry.$;
+  const value = entry.value?.[0] ?? "";
+
+  if (mimetype) {
+    return {
+      kind: "binary",
+      mimetype,
+      ...(type ? { type } : {}),
+      bytes: base64Size(value),
+    };
+  }
+
+  if (!type || typeName(type) === STRING_TYPE) return null;
+
+  if (typeName(type) === FILE_REF_TYPE) {
+    // "<path>;<type of the file content>[;<text encoding>]"
+    const [file = "", fileType] = value.split(";");
+    return {
+      kind: "file",
+      file: file.trim(),
+      ...(fileType ? { type: fileType.trim() } : {}),
+    };
+  }
+
+  return { kind: "typed", type };
+}
+
+/**
+ * Whether `value` can safely replace the entry's value: true for strings
+ * and text-converted values, false for file references and binary payloads.
+ */
+export function isTextResource(entry: ResxDataEntry): boolean {
+  const info = getResourceInfo(entry);
+  return info === null || info.kind === "typed";
+}
+
+/**
+ * The value to show for an entry: the text for string and typed entries,
+ * and a short placeholder for file references and binary payloads.
+ */
+export function formatEntryValue(entry: ResxDataEntry): string {
+  const info = getResourceInfo(entry);
+  if (info?.kind === "file") return `[file: ${info.file ?? ""}]`;
+  if (info?.kind === "binary") {
+    return `[binary: ${info.type ?? info.mimetype ?? ""}, ${String(info.bytes ?? 0)} bytes]`;
+  }
+  return entry.value?.[0] ?? "";
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/** The type name without its assembly qualification. */
+function typeName(type: string): string {
+  return type.split(",")[0]?.trim() ?? "";
+}
+
+function base64Size(payload: string): number {
+  const data = payload.replace(/\s/g, "");
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
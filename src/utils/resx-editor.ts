@@ -0,0 +1,389 @@
+/**
+ * Format-preserving editing of `.resx` source text.
+ *
+ * Instead of rebuilding the whole document, the writer splices individual
+ * `<data>` elements into the original text: untouched elements, the XML
+ * declaration, header comments, the schema block, resheaders and all
+ * whitespace in between are kept byte-for-byte.
+ */
+
+import type { ResxDataEntry } from "../types.js";
+
+/**
+ * Location of one top-level `<data>` element in the source text.
+ */
+interface DataSpan {
+  /** Offset of the opening `<`. */
+  start: number;
+  /** Offset just past the closing `>`. */
+  end: number;
+  /** Offset of the first character of the element's line. */
+  lineStart: number;
+  /** Whitespace preceding the element on its line ("" when not on its own line). */
+  indent: string;
+  ownLine: boolean;
+}
+
+/**
+ * The original source of a parsed document, with each `<data>` entry mapped
+ * to the span it was parsed from and a snapshot of its parsed content.
+ */
+export interface ResxSource {
+  text: string;
+  spans: DataSpan[];
+  /** Offset of the root closing tag, or -1 for a self-closing root. */
+  rootClose: number;
+  /** Indentation of the root's child elements. */
+  childIndent: string;
+  /** Indentation step used inside a `<data>` element. */
+  indentUnit: string;
+  origins: Map<ResxDataEntry, Origin>;
+}
+
+/** Where a parsed entry came from and what it looked like when parsed. */
+interface Origin {
+  index: number;
+  span: DataSpan;
+  snapshot: string;
+}
+
+/**
+ * Scan `text` and associate each of `entries` — the parsed `<data>`
+ * elements, in document order — with its location.
+ *
+ * Returns `null` when the structure cannot be matched reliably (no root
+ * element, or a different number of `<data>` elements than were parsed),
+ * in which case callers fall back to a full rebuild.
+ */
+export function createResxSource(
+  text: string,
+  entries: readonly ResxDataEntry[],
+): ResxSource | null {
+  const layout = scanLayout(text);
+  if (layout?.spans.length !== entries.length) return null;
+
+  const origins = new Map<ResxDataEntry, Origin>();
+  layout.spans.forEach((span, index) => {
+    const entry = entries[index];
+    if (entry) origins.set(entry, { index, span, snapshot: JSON.stringify(entry) });
+  });
+
+  return { text, ...layout, origins };
+}
+
+/**
+ * Produce the source text for `entries` (in their final order) by editing
+ * `source` in place:
+ *
+ * - entries parsed from `source` and not modified keep their original text;
+ * - modified entries are re-rendered where they stand;
+ * - new entries, and entries that had to move to honour the requested
+ *   order, are rendered next to their new neighbours;
+ * - entries no longer present are removed together with their line.
+ *
+ * Returns `null` when there is nowhere to insert new elements (a
+ * self-closing root), so the caller can rebuild the document instead.
+ */
+export function editResxSource(
+  source: ResxSource,
+  entries: readonly ResxDataEntry[],
+  eol: string,
+): string | null {
+  const origins = entries.map((entry) => source.origins.get(entry));
+
+  // Entries that can stay where they are: the longest run, in the new
+  // order, of entries whose original positions are already increasing.
+  const anchored = longestIncreasingRun(origins.map((origin) => origin?.index));
+  const anchoredSpans = new Set(
+    origins.filter((_, position) => anchored.has(position)).map((origin) => origin?.span),
+  );
+
+  const edits: Edit[] = [];
+  const leading: string[] = [];
+  let firstAnchor: DataSpan | undefined;
+  let current: { span: DataSpan; text: string } | undefined;
+
+  for (const [position, entry] of entries.entries()) {
+    const origin = origins[position];
+    if (origin && anchored.has(position)) {
+      if (current) edits.push(replaceSpan(current.span, current.text));
+      const { span } = origin;
+      current = { span, text: elementText(source, entry, span.indent, eol) };
+      firstAnchor ??= span;
+      continue;
+    }
+
+    const indent = current?.span.indent ?? source.childIndent;
+    const text = elementText(source, entry, indent, eol);
+    if (current) current.text += eol + indent + text;
+    else leading.push(text);
+  }
+  if (current) edits.push(replaceSpan(current.span, current.text));
+
+  // Entries before the first anchored element, or all of them when none
+  // could be anchored.
+  if (leading.length > 0) {
+    if (firstAnchor) {
+      const { lineStart, indent } = firstAnchor;
+      const text = leading.map((t) => indent + t + eol).join("");
+      edits.push({ from: lineStart, to: lineStart, text });
+    } else {
+      if (source.rootClose < 0) return null;
+      const at = trimEndIndex(source.text, source.rootClose);
+      const text = leading.map((t) => eol + source.childIndent + t).join("");
+      edits.push({ from: at, to: at, text });
+    }
+  }
+
+  for (const span of source.spans) {
+    if (!anchoredSpans.has(span)) {
+      edits.push({ from: removalStart(source.text, span), to: span.end, text: "" });
+    }
+  }
+
+  return applyEdits(source.text, edits);
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+interface Edit {
+  from: number;
+  to: number;
+  text: string;
+}
+
+function replaceSpan(span: DataSpan, text: string): Edit {
+  return { from: span.start, to: span.end, text };
+}
+
+function applyEdits(text: string, edits: Edit[]): string {
+  let result = text;
+  const ordered = [...edits].sort((a, b) => b.from - a.from || b.to - a.to);
+  for (const edit of ordered) {
+    result = result.slice(0, edit.from) + edit.text + result.slice(edit.to);
+  }
+  return result;
+}
+
+/**
+ * The element's text: the original bytes when the entry was parsed from
+ * `source` and has not been modified, otherwise a fresh rendering.
+ */
+function elementText(
+  source: ResxSource,
+  entry: ResxDataEntry,
+  indent: string,
+  eol: string,
+): string {
+  const origin = source.origins.get(entry);
+  if (origin?.snapshot === JSON.stringify(entry)) {
+    return source.text.slice(origin.span.start, origin.span.end);
+  }
+  return renderDataElement(entry, indent, source.indentUnit, eol);
+}
+
+/**
+ * Render a `<data>` element in the layout Visual Studio uses, with the
+ * opening tag unindented (the caller places it) and children one step in.
+ */
+function renderDataElement(
+  entry: ResxDataEntry,
+  indent: string,
+  indentUnit: string,
+  eol: string,
+): string {
+  const attributes = Object.entries(entry.$)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+    .join("");
+
+  const children: string[] = [];
+  for (const name of ["value", "comment"] as const) {
+    const content = entry[name];
+    if (content === undefined) continue;
+    const text = content[0] ?? "";
+    children.push(
+      indent +
+        indentUnit +
+        (text === "" ? `<${name} />` : `<${name}>${escapeText(text)}</${name}>`),
+    );
+  }
+
+  if (children.length === 0) return `<data${attributes} />`;
+  return [`<data${attributes}>`, ...children, `${indent}</data>`]
+    .join("\n")
+    .replace(/\r?\n/g, eol);
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
+
+/**
+ * Positions (indices into `origins`) forming the longest subsequence whose
+ * original indices strictly increase.  `undefined` entries never qualify.
+ */
+function longestIncreasingRun(origins: (number | undefined)[]): Set<number> {
+  // tails[k]: position ending the best run of length k + 1 found so far.
+  const tails: { position: number; origin: number }[] = [];
+  const previous = new Map<number, number>();
+
+  origins.forEach((origin, position) => {
+    if (origin === undefined) return;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if ((tails[mid]?.origin ?? Infinity) < origin) low = mid + 1;
+      else high = mid;
+    }
+    const before = tails[low - 1];
+    if (before) previous.set(position, before.position);
+    tails[low] = { position, origin };
+  });
+
+  const result = new Set<number>();
+  for (let p = tails.at(-1)?.position; p !== undefined; p = previous.get(p)) {
+    result.add(p);
+  }
+  return result;
+}
+
+/**
+ * Where removing a span should start: the line break before it when the
+ * element sits on its own line, so no blank line is left behind.
+ */
+function removalStart(text: string, span: DataSpan): number {
+  if (!span.ownLine || span.lineStart === 0) return span.start;
+  const lineBreak = span.lineStart - 1;
+  return text[lineBreak - 1] === "\r" ? lineBreak - 1 : lineBreak;
+}
+
+/** Offset just past the last non-whitespace character before `index`. */
+function trimEndIndex(text: string, index: number): number {
+  let i = index;
+  while (i > 0 && /\s/.test(text.charAt(i - 1))) i--;
+  return i;
+}
+
+/**
+ * Walk the markup and record the top-level `<data>` elements and the
+ * position of the root closing tag.  Comments, CDATA sections, processing
+ * instructions and doctypes are skipped so that sample markup in the
+ * standard resx header comment is not mistaken for data.
+ */
+function scanLayout(text: string): Omit<ResxSource, "text" | "origins"> | null {
+  const spans: DataSpan[] = [];
+  let depth = 0;
+  let sawRoot = false;
+  let rootClose = -1;
+  let childIndent: string | undefined;
+  let open: DataSpan | null = null;
+  let i = text.indexOf("<");
+
+  while (i >= 0 && i < text.length) {
+    if (text.startsWith("<!--", i)) {
+      i = skipPast(text, i, "-->");
+    } else if (text.startsWith("<![CDATA[", i)) {
+      i = skipPast(text, i, "]]>");
+    } else if (text.startsWith("<?", i)) {
+      i = skipPast(text, i, "?>");
+    } else if (text.startsWith("<!", i)) {
+      i = skipPast(text, i, ">");
+    } else if (text.startsWith("</", i)) {
+      const close = skipPast(text, i, ">");
+      const name = text.slice(i + 2, close - 1).trim();
+      depth--;
+      if (depth === 1 && open && name === "data") {
+        open.end = close;
+        spans.push(open);
+        open = null;
+      } else if (depth === 0 && sawRoot) {
+        rootClose = i;
+        break;
+      }
+      i = close;
+    } else {
+      const close = tagEnd(text, i);
+      if (close < 0) return null;
+      const name = /^<([^\s/>]+)/.exec(text.slice(i, close))?.[1] ?? "";
+      const selfClosing = text[close - 2] === "/";
+
+      if (depth === 0) {
+        sawRoot = true;
+        if (selfClosing) break;
+      } else if (depth === 1) {
+        const span = locate(text, i);
+        childIndent ??= span.indent;
+        if (name === "data") {
+          if (selfClosing) spans.push({ ...span, end: close });
+          else open = span;
+        }
+      }
+      if (!selfClosing) depth++;
+      i = close;
+    }
+    i = text.indexOf("<", i);
+  }
+
+  if (!sawRoot || open) return null;
+
+  const indent = childIndent ?? "  ";
+  return {
+    spans,
+    rootClose,
+    childIndent: indent,
+    indentUnit: detectIndentUnit(text, spans) ?? (indent || "  "),
+  };
+}
+
+function locate(text: string, start: number): DataSpan {
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const prefix = text.slice(lineStart, start);
+  const ownLine = /^[ \t]*$/.test(prefix);
+  return {
+    start,
+    end: start,
+    lineStart: ownLine ? lineStart : start,
+    indent: ownLine ? prefix : "",
+    ownLine,
+  };
+}
+
+/**
+ * Indentation of the first child line inside a multi-line `<data>`
+ * element, relative to the element itself.
+ */
+function detectIndentUnit(text: string, spans: DataSpan[]): string | undefined {
+  for (const span of spans) {
+    const match = /\n([ \t]*)</.exec(text.slice(span.start, span.end));
+    if (match?.[1]?.startsWith(span.indent) && match[1].length > span.indent.length) {
+      return match[1].slice(span.indent.length);
+    }
+  }
+  return undefined;
+}
+
+/** Offset just past the end of a start tag, honouring quoted attributes. */
+function tagEnd(text: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+function skipPast(text: string, start: number, terminator: string): number {
+  const index = text.indexOf(terminator, start);
+  return index < 0 ? text.length : index + terminator.length;
+}
@@ -0,0 +1,270 @@
+/**
+ * Structural checks for `.resx` files: problems that break the .NET build
+ * (duplicate keys, malformed XML, missing headers) or that the other tools
+ * would otherwise work around silently (encoding quirks, odd key names).
+ */
+
+import type { LintIssue, ResxDataEntry, ResxDocument } from "../types.js";
+import { parseResxText, toReadError } from "./resx.js";
+import { createResxSource } from "./resx-editor.js";
+
+/**
+ * Lint the raw bytes of a `.resx` file.  Issues are returned in the order
+ * they were found: encoding first, then XML syntax, headers and entries.
+ * When the file cannot be decoded or parsed, only the problems found up to
+ * that point are reported.
+ */
+export async function lintResxContent(bytes: Uint8Array): Promise<LintIssue[]> {
+  const issues: LintIssue[] = [];
+
+  const text = checkEncoding(bytes, issues);
+  if (text === null) return issues;
+
+  let document: ResxDocument;
+  try {
+    document = await parseResxText(text);
+  } catch (error: unknown) {
+    const { message, line, column } = toReadError(error);
+    issues.push({
+      severity: "error",
+      code: "parse_error",
+      message: `Invalid XML: ${message}`,
+      ...(line !== undefined ? { line, column } : {}),
+    });
+    return issues;
+  }
+
+  const rootName = Object.keys(document).find((name) => name !== "root");
+  if (rootName !== undefined) {
+    issues.push({
+      severity: "error",
+      code: "invalid_root",
+      message: `Root element is <${rootName}>; a .resx file must have a <root> element.`,
+    });
+    return issues;
+  }
+
+  checkResheaders(document, issues);
+  checkKeys(text, document, issues);
+  return issues;
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/** Headers written by Visual Studio, with the value they must have (if fixed). */
+const REQUIRED_RESHEADERS: [string, string | null][] = [
+  ["resmimetype", "text/microsoft-resx"],
+  ["version", null],
+  ["reader", null],
+  ["writer", null],
+];
+
+/** Identifier accepted by the strongly-typed resource class generator. */
+const IDENTIFIER = /^[\p{L}_][\p{L}\p{Nd}\p{Mn}\p{Mc}\p{Pc}]*$/u;
+
+/**
+ * Check byte order marks, UTF-8 validity, the XML declaration and line
+ * endings.  Returns the decoded text, or `null` when it cannot be decoded.
+ */
+function checkEncoding(bytes: Uint8Array, issues: LintIssue[]): string | null {
+  const bom = detectForeignBom(bytes);
+  if (bom) {
+    issues.push({
+      severity: "error",
+      code: "unsupported_encoding",
+      message: `File is ${bom} encoded; .resx files are read and written as UTF-8.`,
+    });
+    return null;
+  }
+
+  const text = new TextDecoder("utf-8", { ignoreBOM: true }).decode(bytes);
+
+  if (!isValidUtf8(bytes)) {
+    issues.push({
+      severity: "error",
+      code: "invalid_utf8",
+      message:
+        "File contains bytes that are not valid UTF-8; they are replaced " +
+        "with U+FFFD when the file is read.",
+      ...position(text, Math.max(text.indexOf("\uFFFD"), 0)),
+    });
+  }
+
+  if (text.startsWith("\uFEFF")) {
+    issues.push({
+      severity: "info",
+      code: "utf8_bom",
+      message: "File starts with a UTF-8 byte order mark; it is kept on write.",
+    });
+  }
+
+  const declared = /^\uFEFF?<\?xml[^>]*?\bencoding\s*=\s*["']([^"']*)["']/.exec(
+    text,
+  )?.[1];
+  if (declared !== undefined && !/^utf-?8$/i.test(declared)) {
+    issues.push({
+      severity: "warning",
+      code: "encoding_declaration",
+      message: `XML declaration says encoding '${declared}', but the file is UTF-8.`,
+      line: 1,
+    });
+  }
+
+  const crlf = text.match(/\r\n/g)?.length ?? 0;
+  const lf = (text.match(/\n/g)?.length ?? 0) - crlf;
+  if (crlf > 0 && lf > 0) {
+    issues.push({
+      severity: "warning",
+      code: "mixed_line_endings",
+      message:
+        `File mixes line endings (${String(crlf)} CRLF, ${String(lf)} LF); ` +
+        "new content is written with CRLF.",
+    });
+  }
+
+  return text;
+}
+
+function detectForeignBom(bytes: Uint8Array): string | null {
+  const [b0, b1, b2, b3] = bytes;
+  if (b0 === 0x00 && b1 === 0x00 && b2 === 0xfe && b3 === 0xff) return "UTF-32 (BE)";
+  if (b0 === 0xff && b1 === 0xfe && b2 === 0x00 && b3 === 0x00) return "UTF-32 (LE)";
+  if (b0 === 0xfe && b1 === 0xff) return "UTF-16 (BE)";
+  if (b0 === 0xff && b1 === 0xfe) return "UTF-16 (LE)";
+  return null;
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function checkResheaders(document: ResxDocument, issues: LintIssue[]): void {
+  const headers = new Map<string, string>();
+  for (const header of document.root.resheader ?? []) {
+    const { $, value } = header as { $?: { name?: string }; value?: unknown[] };
+    if ($?.name)
+      headers.set($.name, typeof value?.[0] === "string" ? value[0].trim() : "");
+  }
+
+  for (const [name, expected] of REQUIRED_RESHEADERS) {
+    const actual = headers.get(name);
+    if (actual === undefined) {
+      issues.push({
+        severity: "warning",
+        code: "missing_resheader",
+        message: `Missing <resheader name="${name}">; ResXResourceReader and Visual Studio expect it.`,
+      });
+    } else if (expected !== null && actual !== expected) {
+      issues.push({
+        severity: "error",
+        code: "invalid_resheader",
+        message: `<resheader name="${name}"> is '${actual}', expected '${expected}'.`,
+      });
+    }
+  }
+}
+
+function checkKeys(text: string, document: ResxDocument, issues: LintIssue[]): void {
+  const entries = document.root.data ?? [];
+  const source = createResxSource(text, entries);
+  const locate = (entry: ResxDataEntry): { line?: number; column?: number } => {
+    const span = source?.origins.get(entry)?.span;
+    return span ? position(text, span.start) : {};
+  };
+
+  const firstByName = new Map<string, ResxDataEntry>();
+  const firstByFoldedName = new Map<string, ResxDataEntry>();
+
+  for (const entry of entries) {
+    const name = (entry.$ as ResxDataEntry["$"] | undefined)?.name ?? "";
+    const at = locate(entry);
+
+    if (name.trim() === "") {
+      issues.push({
+        severity: "error",
+        code: "empty_key",
+        message: "<data> element has no name.",
+        ...at,
+      });
+      continue;
+    }
+
+    const first = firstByName.get(name);
+    if (first) {
+      const firstLine = locate(first).line;
+      issues.push({
+        severity: "error",
+        code: "duplicate_key",
+        key: name,
+        message:
+          `Key '${name}' is defined more than once` +
+          (firstLine !== undefined ? ` (first on line ${String(firstLine)})` : "") +
+          "; the .NET build fails and tools only see the first definition.",
+        ...at,
+      });
+      continue;
+    }
+    firstByName.set(name, entry);
+
+    const folded = name.toLowerCase();
+    const sameExceptCase = firstByFoldedName.get(folded);
+    if (sameExceptCase) {
+      issues.push({
+        severity: "warning",
+        code: "duplicate_key_case",
+        key: name,
+        message:
+          `Key '${name}' differs from '${sameExceptCase.$.name}' only in case; ` +
+          "lookups that ignore case return either one.",
+        ...at,
+      });
+    } else {
+      firstByFoldedName.set(folded, entry);
+    }
+
+    if (name !== name.trim()) {
+      issues.push({
+        severity: "warning",
+        code: "key_whitespace",
+        key: name,
+        message: `Key '${name}' has leading or trailing whitespace.`,
+        ...at,
+      });
+    } else if (!IDENTIFIER.test(name) && !isDesignerMetadata(name)) {
+      issues.push({
+        severity: "warning",
+        code: "invalid_identifier",
+        key: name,
+        message:
+          `Key '${name}' is not a valid identifier; a generated Designer ` +
+          `class exposes it as '${toIdentifier(name)}'.`,
+        ...at,
+      });
+    }
+  }
+}
+
+/** WinForms designer entries (`$this.Text`, `>>button1.Name`), skipped by code generators. */
+function isDesignerMetadata(name: string): boolean {
+  return name.startsWith("$") || name.startsWith(">>");
+}
+
+function toIdentifier(name: string): string {
+  const replaced = name.replace(/[^\p{L}\p{Nd}\p{Mn}\p{Mc}\p{Pc}]/gu, "_");
+  return /^[\p{L}_]/u.test(replaced) ? replaced : `_${replaced}`;
+}
+
+/** 1-based line and column of `offset` in `text`. */
+function position(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return {
+    line: (before.match(/\n/g)?.length ?? 0) + 1,
+    column: offset - lineStart + 1,
+  };
+}
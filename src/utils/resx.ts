@@ -3,10 +3,24 @@
  */
 
 import * as fs from "node:fs/promises";
+import * as path from "node:path";
 import * as xml2js from "xml2js";
 
-import type { ResxDataEntry, ResxDocument, ParsedResxFile } from "../types.js";
+import type {
+  ResxDataEntry,
+  ResxDocument,
+  ParsedResxFile,
+  ResxReadError,
+  SortMode,
+  UpsertAction,
+  WriteResxOptions,
+} from "../types.js";
 import { logger } from "./logger.js";
+import { getDefaultSortMode, orderDataEntries } from "./sort.js";
+import { getResourceInfo, isTextResource } from "./resource-type.js";
+import { createResxSource, editResxSource, type ResxSource } from "./resx-editor.js";
+import { previewFileWrite } from "./diff.js";
+import { assertFileAllowed } from "./roots.js";
 
 // ── XML codec ───────────────────────────────────────────────────────────
 
@@ -22,6 +36,21 @@ function createXmlBuilder(newline: string): xml2js.Builder {
   });
 }
 
+/**
+ * Original source text of every document returned by {@link parseResxFile},
+ * so that {@link writeResxFile} can edit it instead of rebuilding it.
+ */
+const documentSources = new WeakMap<ResxDocument, ResxSource>();
+
+/**
+ * Why the last {@link parseResxFile} call for a path (resolved) failed, so
+ * tools can report more than "unable to read".  Cleared on success.
+ */
+const readErrors = new Map<string, ResxReadError>();
+
+/** Callbacks registered with {@link onResxFileWritten}. */
+const writeListeners = new Set<(filePath: string) => void>();
+
 // ── Public API ──────────────────────────────────────────────────────────
 
 /**
@@ -45,47 +74,174 @@ export function detectEol(content: string): string {
 /**
  * Parse a `.resx` file from disk.
  *
- * Returns the parsed document together with the detected line-ending style
- * so that {@link writeResxFile} can preserve the original formatting.
+ * Returns the parsed document together with the detected line-ending style,
+ * so that {@link writeResxFile} can preserve the original formatting, and
+ * the text as read.
  * Returns `null` when the file cannot be read or parsed.
  */
 export async function parseResxFile(filePath: string): Promise<ParsedResxFile | null> {
+  const key = path.resolve(filePath);
   try {
+    await assertFileAllowed(filePath);
     const content = await fs.readFile(filePath, "utf-8");
     const eol = detectEol(content);
-    const document = (await xmlParser.parseStringPromise(content)) as ResxDocument;
-    return { document, eol };
+    const document = await parseResxText(content);
+    rememberSource(document, content);
+    readErrors.delete(key);
+    return { document, eol, content };
   } catch (error: unknown) {
     logger.error(`Failed to parse ${filePath}`, error);
+    readErrors.set(key, toReadError(error));
     return null;
   }
 }
 
 /**
- * Serialize a document object back to XML, sort `<data>` entries
- * alphabetically by key, and write the result to disk.
+ * Parse `.resx` markup.  Throws when the text is not well-formed XML; use
+ * {@link toReadError} to extract the position from the thrown error.
+ */
+export async function parseResxText(content: string): Promise<ResxDocument> {
+  const document = (await xmlParser.parseStringPromise(content)) as ResxDocument | null;
+  if (!document) throw new Error("File is empty.");
+  // xml2js yields an empty string for an empty `<root/>` element.
+  if (typeof document.root !== "object") document.root = {};
+  return document;
+}
+
+/**
+ * Convert an error thrown while reading or parsing a file into a
+ * {@link ResxReadError}, with a 1-based position for XML syntax errors.
+ */
+export function toReadError(error: unknown): ResxReadError {
+  if (!(error instanceof Error)) return { message: String(error) };
+
+  const code = (error as NodeJS.ErrnoException).code;
+  if (code === "ENOENT") return { message: "File not found." };
+  if (code === "EACCES" || code === "EPERM") return { message: "Permission denied." };
+  if (code === "EISDIR") return { message: "Path is a directory." };
+
+  // sax reports "<message>\nLine: <0-based>\nColumn: <1-based>\nChar: <c>".
+  const match = /^([^\n]*)\nLine: (\d+)\nColumn: (\d+)/.exec(error.message);
+  if (match) {
+    return {
+      message: `${match[1] ?? ""}.`,
+      line: Number(match[2]) + 1,
+      column: Number(match[3]),
+    };
+  }
+  return { message: error.message };
+}
+
+/**
+ * Why the last {@link parseResxFile} call for `filePath` returned `null`,
+ * or `undefined` when it succeeded or was never made.
+ */
+export function getReadError(filePath: string): ResxReadError | undefined {
+  return readErrors.get(path.resolve(filePath));
+}
+
+/**
+ * `label` (the file path by default) followed by the reason the file could
+ * not be read, e.g. `Language.resx (line 4, column 19: Unexpected close tag.)`.
+ */
+export function describeReadFailure(filePath: string, label = filePath): string {
+  const error = getReadError(filePath);
+  if (!error) return label;
+  const position =
+    error.line !== undefined
+      ? `line ${String(error.line)}, column ${String(error.column ?? 0)}: `
+      : "";
+  return `${label} (${position}${error.message})`;
+}
+
+/**
+ * Order `<data>` entries according to the sort mode (the server default
+ * unless `options.sortMode` is given) and write the document to disk.
+ *
+ * Documents obtained from {@link parseResxFile} are written by editing the
+ * original text: only `<data>` elements that were added, changed, removed or
+ * moved are touched, and the header, schema, comments and indentation are
+ * kept byte-for-byte.  Other documents (or sources whose structure cannot be
+ * matched) are serialized from scratch.
  *
- * @param eol - Line ending to use. Defaults to CRLF — the standard for
- *              `.resx` files generated by .NET tooling — when not provided
- *              (e.g. when creating a brand-new file).
+ * @param eol - Line ending to use for new content. Defaults to CRLF — the
+ *              standard for `.resx` files generated by .NET tooling — when
+ *              not provided (e.g. when creating a brand-new file).
  */
 export async function writeResxFile(
   filePath: string,
   data: ResxDocument,
   eol: string = RESX_DEFAULT_EOL,
+  options: WriteResxOptions = {},
 ): Promise<void> {
-  sortDataEntries(data);
+  await assertFileAllowed(filePath);
+  const xml = serializeResxDocument(data, eol, options);
+  await fs.writeFile(filePath, xml, "utf-8");
 
-  // Always build with LF internally to prevent xml2js from encoding \r
-  // as &#xD; inside text nodes. Convert to the desired EOL afterwards.
-  const builder = createXmlBuilder("\n");
-  let xml = builder.buildObject(data);
+  // Later writes of the same document edit what is now on disk.
+  rememberSource(data, xml);
+  notifyWritten(filePath);
+}
+
+/**
+ * Write `content` back to `filePath` as it is, e.g. the text of a
+ * {@link parseResxFile} result to undo a later {@link writeResxFile}.
+ */
+export async function restoreResxFile(filePath: string, content: string): Promise<void> {
+  await assertFileAllowed(filePath);
+  await fs.writeFile(filePath, content, "utf-8");
+  notifyWritten(filePath);
+}
 
-  if (eol === "\r\n") {
-    xml = xml.replace(/\n/g, "\r\n");
+/**
+ * Unified diff of what {@link writeResxFile} would change in `filePath`,
+ * without writing: the file as it is on disk (nothing when it does not
+ * exist yet) against the text that would replace it.  Returns an empty
+ * string when the file would not change.  Entries of `data` are ordered as
+ * for a real write.
+ */
+export async function previewResxWrite(
+  filePath: string,
+  data: ResxDocument,
+  eol: string = RESX_DEFAULT_EOL,
+  options: WriteResxOptions = {},
+): Promise<string> {
+  return previewFileWrite(filePath, serializeResxDocument(data, eol, options));
+}
+
+/**
+ * The text {@link writeResxFile} writes for `data`, after ordering its
+ * entries according to the sort mode (the server default unless
+ * `options.sortMode` is given).
+ */
+export function serializeResxDocument(
+  data: ResxDocument,
+  eol: string = RESX_DEFAULT_EOL,
+  options: WriteResxOptions = {},
+): string {
+  sortDataEntries(data, options.sortMode ?? getDefaultSortMode());
+
+  const source = documentSources.get(data);
+  if (source) {
+    const xml = editResxSource(source, data.root.data ?? [], eol);
+    if (xml !== null) return xml;
   }
 
-  await fs.writeFile(filePath, xml, "utf-8");
+  // Always build with LF internally to prevent xml2js from encoding \r
+  // as &#xD; inside text nodes. Convert to the desired EOL afterwards.
+  const xml = createXmlBuilder("\n").buildObject(data);
+  return eol === "\r\n" ? xml.replace(/\n/g, "\r\n") : xml;
+}
+
+/**
+ * Call `listener` with the resolved path of every file written by
+ * {@link writeResxFile} or {@link restoreResxFile}.  Returns a function that removes the listener.
+ */
+export function onResxFileWritten(listener: (filePath: string) => void): () => void {
+  writeListeners.add(listener);
+  return () => {
+    writeListeners.delete(listener);
+  };
 }
 
 /**
@@ -98,15 +254,93 @@ export function findEntry(
   return entries.find((d) => d.$.name === key);
 }
 
+/**
+ * Add `key` to the document or update its value in place.
+ *
+ * `comment` controls the entry's `<comment>`: a string sets it, `null`
+ * removes it and `undefined` leaves it untouched.  Returns `"unchanged"`
+ * when the entry already holds exactly the requested content, in which case
+ * the document is not modified.  `value` must use bare LF line breaks (see
+ * {@link normalizeNewlines}); line breaks in the file compare equal whether
+ * they are CRLF or LF.
+ *
+ * Typed entries (e.g. `System.Int32`) keep their `type` attribute.  Throws
+ * when the key holds a file reference or binary payload, which a string
+ * value would corrupt.
+ */
+export function upsertEntry(
+  data: ResxDocument,
+  key: string,
+  value: string,
+  comment?: string | null,
+): UpsertAction | "unchanged" {
+  if (!Array.isArray(data.root.data)) data.root.data = [];
+
+  const existing = findEntry(data.root.data, key);
+  if (!existing) {
+    const entry: ResxDataEntry = {
+      $: { name: key, "xml:space": "preserve" },
+      value: [value],
+    };
+    if (typeof comment === "string") entry.comment = [comment];
+    data.root.data.push(entry);
+    return "added";
+  }
+
+  if (!isTextResource(existing)) {
+    const info = getResourceInfo(existing);
+    throw new Error(
+      `Key '${key}' is a ${info?.kind ?? "non-string"} resource ` +
+        `(${info?.type ?? info?.mimetype ?? "unknown type"}); ` +
+        "refusing to overwrite it with a string value.",
+    );
+  }
+
+  // Parsed text keeps the file's CRLF line breaks; `value` has bare LF.
+  const sameValue = normalizeNewlines(existing.value?.[0] ?? "") === value;
+  const sameComment =
+    comment === undefined ||
+    (comment === null
+      ? existing.comment === undefined
+      : normalizeNewlines(existing.comment?.[0] ?? "") === normalizeNewlines(comment));
+  if (sameValue && sameComment) return "unchanged";
+
+  existing.value = [value];
+  if (comment === null) delete existing.comment;
+  else if (comment !== undefined) existing.comment = [comment];
+  return "updated";
+}
+
+/**
+ * Normalize line endings in a user-supplied value to bare LF.  The writer
+ * converts them to the file's EOL style on output.
+ */
+export function normalizeNewlines(value: string): string {
+  return value.replace(/\r\n/g, "\n").replace(/\r/g, "");
+}
+
 // ── Internal helpers ────────────────────────────────────────────────────
 
-function sortDataEntries(data: ResxDocument): void {
+function notifyWritten(filePath: string): void {
+  const resolved = path.resolve(filePath);
+  for (const listener of writeListeners) listener(resolved);
+}
+
+function rememberSource(data: ResxDocument, text: string): void {
+  const source = createResxSource(text, data.root.data ?? []);
+  if (source) documentSources.set(data, source);
+  else documentSources.delete(data);
+}
+
+function sortDataEntries(data: ResxDocument, mode: SortMode): void {
   const entries = data.root.data;
   if (!Array.isArray(entries)) return;
 
-  data.root.data = [...entries].sort((a, b) => {
-    const nameA = a.$.name.toLowerCase();
-    const nameB = b.$.name.toLowerCase();
-    return nameA.localeCompare(nameB);
-  });
+  // Entries parsed from the file count as existing; anything else was added.
+  const origins = documentSources.get(data)?.origins;
+  data.root.data = orderDataEntries(
+    entries,
+    mode,
+    (entry) => origins?.has(entry) ?? false,
+  );
 }
@@ -0,0 +1,179 @@
+/**
+ * Confinement of tool file paths to a set of allowed root directories.
+ *
+ * Roots come from two places: the server configuration (`--root` /
+ * `RESX_ROOTS`), set once at startup, and the client's MCP `roots`, which
+ * differ per session and are passed in by the caller.  When both are
+ * present only their overlap is allowed; when neither is, paths are not
+ * restricted.
+ *
+ * Paths and roots are compared after resolving `..` segments and symbolic
+ * links, so a link inside a root that points elsewhere does not escape it.
+ *
+ * Besides the path arguments of a call, every file a tool reads or writes
+ * is checked again once its final path is known ({@link assertFileAllowed}),
+ * since tools also build paths from other input such as culture names.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+/** Tool parameters that name files or directories, also inside array items. */
+const PATH_PARAMETERS = new Set([
+  "basePath",
+  "filePath",
+  "directory",
+  "rootDir",
+  "csvPath",
+  "xliffPath",
+  "inputDir",
+  "outputDir",
+  "outputPath",
+]);
+
+let _configuredRoots: string[] = [];
+
+/** Client roots of the request being handled, see {@link runWithClientRoots}. */
+const requestClientRoots = new AsyncLocalStorage<readonly string[] | null>();
+
+/**
+ * Set the roots from the server configuration.  Relative paths are
+ * resolved against the current working directory.
+ */
+export function setConfiguredRoots(roots: readonly string[]): void {
+  _configuredRoots = roots.map((root) => path.resolve(root));
+}
+
+/** Roots from the server configuration, as absolute paths. */
+export function getConfiguredRoots(): string[] {
+  return [..._configuredRoots];
+}
+
+/**
+ * The roots paths must lie in, after resolving symbolic links, or `null`
+ * when paths are not restricted.  `clientRoots` are the directories the
+ * client announced via MCP `roots`, or `null` when it did not.
+ */
+export async function getAllowedRoots(
+  clientRoots: readonly string[] | null,
+): Promise<string[] | null> {
+  const configured = await Promise.all(_configuredRoots.map(realPath));
+  const client = clientRoots && (await Promise.all(clientRoots.map(realPath)));
+
+  if (!client) return configured.length > 0 ? configured : null;
+  if (configured.length === 0) return client;
+
+  // Only the overlap of both sets of trees is allowed.
+  const overlap = [
+    ...client.filter((root) => configured.some((outer) => isWithin(root, outer))),
+    ...configured.filter((root) => client.some((outer) => isWithin(root, outer))),
+  ];
+  return [...new Set(overlap)];
+}
+
+/**
+ * Throw unless every path-valued parameter in `args` — including those of
+ * array items such as `upsert_translations_batch` changes — lies within the
+ * allowed roots.  Other nested objects hold keys and values, not paths.
+ *
+ * The error names the offending parameter, the path it resolves to and the
+ * permitted roots.
+ */
+export async function assertPathArgumentsAllowed(
+  args: Record<string, unknown> | undefined,
+  clientRoots: readonly string[] | null,
+): Promise<void> {
+  const paths = collectPathArguments(args, "");
+  if (paths.length === 0) return;
+
+  const roots = await getAllowedRoots(clientRoots);
+  if (roots === null) return;
+
+  for (const [paramName, value] of paths) {
+    const resolved = await realPath(value);
+    if (roots.some((root) => isWithin(resolved, root))) continue;
+
+    throw new Error(
+      `Parameter '${paramName}' resolves to '${resolved}', which is outside ` +
+        `${describeRoots(roots)}.`,
+    );
+  }
+}
+
+/**
+ * Run `fn` with `clientRoots` as the client's roots for every
+ * {@link assertFileAllowed} check it makes, however deep in the call.
+ */
+export function runWithClientRoots<T>(
+  clientRoots: readonly string[] | null,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return requestClientRoots.run(clientRoots, fn);
+}
+
+/**
+ * Throw unless the file a tool is about to read or write lies within the
+ * allowed roots: the configured roots and, inside
+ * {@link runWithClientRoots}, the client's.
+ */
+export async function assertFileAllowed(filePath: string): Promise<void> {
+  const roots = await getAllowedRoots(requestClientRoots.getStore() ?? null);
+  if (roots === null) return;
+
+  const resolved = await realPath(filePath);
+  if (roots.some((root) => isWithin(resolved, root))) return;
+
+  throw new Error(`Path '${resolved}' is outside ${describeRoots(roots)}.`);
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+function describeRoots(roots: readonly string[]): string {
+  return roots.length > 0
+    ? `the allowed roots: ${roots.join(", ")}`
+    : "the allowed roots (there are none: the client announced no roots, " +
+        "or none of them overlaps the configured roots)";
+}
+
+function collectPathArguments(value: unknown, prefix: string): [string, string][] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) =>
+      collectPathArguments(item, `${prefix}[${String(index)}]`),
+    );
+  }
+  if (typeof value !== "object" || value === null) return [];
+
+  return Object.entries(value).flatMap(([name, child]): [string, string][] => {
+    const paramName = prefix === "" ? name : `${prefix}.${name}`;
+    if (PATH_PARAMETERS.has(name) && typeof child === "string") {
+      return [[paramName, child]];
+    }
+    return Array.isArray(child) ? collectPathArguments(child, paramName) : [];
+  });
+}
+
+/**
+ * Absolute path with symbolic links resolved.  For paths that do not exist
+ * yet, the deepest existing ancestor is resolved and the rest appended.
+ */
+async function realPath(filePath: string): Promise<string> {
+  const absolute = path.resolve(filePath);
+  try {
+    return await fs.realpath(absolute);
+  } catch (error: unknown) {
+    const parent = path.dirname(absolute);
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT" || parent === absolute) {
+      return absolute;
+    }
+    return path.join(await realPath(parent), path.basename(absolute));
+  }
+}
+
+function isWithin(target: string, root: string): boolean {
+  const relative = path.relative(root, target);
+  return (
+    relative === "" ||
+    (relative.split(path.sep)[0] !== ".." && !path.isAbsolute(relative))
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Ordering of `<data>` entries on write.
+ *
+ * The server-wide default is set once at startup from the server
+ * configuration and can be overridden per tool call.
+ */
+
+import type { ResxDataEntry, SortMode } from "../types.js";
+
+/** All supported sort modes, in the order they are documented. */
+export const SORT_MODES: readonly SortMode[] = [
+  "alphabetical",
+  "ordinal",
+  "preserve",
+  "insert-sorted",
+];
+
+let _defaultSortMode: SortMode = "alphabetical";
+
+/** Whether `value` names a supported {@link SortMode}. */
+export function isSortMode(value: unknown): value is SortMode {
+  return typeof value === "string" && (SORT_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Set the sort mode used when a write does not request one explicitly.
+ */
+export function setDefaultSortMode(mode: SortMode): void {
+  _defaultSortMode = mode;
+}
+
+/** Current server-wide default sort mode. */
+export function getDefaultSortMode(): SortMode {
+  return _defaultSortMode;
+}
+
+/**
+ * Comparator used by the `alphabetical` and `insert-sorted` modes:
+ * case-insensitive, locale-aware by key name.
+ */
+export function compareKeys(a: string, b: string): number {
+  return a.toLowerCase().localeCompare(b.toLowerCase());
+}
+
+/**
+ * Comparator used by the `ordinal` mode: case-sensitive comparison of
+ * UTF-16 code units, matching .NET's `StringComparer.Ordinal`.
+ */
+export function compareKeysOrdinal(a: string, b: string): number {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Return `entries` in the order they should be written under `mode`.
+ *
+ * `isExisting` tells entries already present in the file apart from newly
+ * added ones, which `preserve` appends and `insert-sorted` places at their
+ * alphabetical position without moving anything else.
+ */
+export function orderDataEntries(
+  entries: readonly ResxDataEntry[],
+  mode: SortMode,
+  isExisting: (entry: ResxDataEntry) => boolean,
+): ResxDataEntry[] {
+  switch (mode) {
+    case "alphabetical":
+      return [...entries].sort((a, b) => compareKeys(a.$.name, b.$.name));
+    case "ordinal":
+      return [...entries].sort((a, b) => compareKeysOrdinal(a.$.name, b.$.name));
+    case "preserve":
+      return [...entries.filter(isExisting), ...entries.filter((e) => !isExisting(e))];
+    case "insert-sorted":
+      return insertSorted(entries, isExisting);
+  }
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+function insertSorted(
+  entries: readonly ResxDataEntry[],
+  isExisting: (entry: ResxDataEntry) => boolean,
+): ResxDataEntry[] {
+  const result = entries.filter(isExisting);
+  const added = entries
+    .filter((e) => !isExisting(e))
+    .sort((a, b) => compareKeys(a.$.name, b.$.name));
+
+  for (const entry of added) {
+    const index = result.findIndex((e) => compareKeys(e.$.name, entry.$.name) > 0);
+    if (index < 0) result.push(entry);
+    else result.splice(index, 0, entry);
+  }
+  return result;
+}
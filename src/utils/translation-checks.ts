@@ -0,0 +1,183 @@
+/**
+ * Consistency checks between a default value and its translation.
+ *
+ * Translations must keep the composite format placeholders (`{0}`,
+ * `{1:N2}`), markup tags, surrounding whitespace and line breaks of the
+ * default value; otherwise `string.Format` may throw at runtime or the UI
+ * renders differently per culture.
+ */
+
+import type { TranslationIssue } from "../types.js";
+
+/**
+ * Compare `translation` against `source` (the default-culture value) and
+ * return every inconsistency found, or an empty array when they match.
+ */
+export function checkTranslation(
+  source: string,
+  translation: string,
+): TranslationIssue[] {
+  return [
+    ...checkPlaceholders(source, translation),
+    ...checkTags(source, translation),
+    ...checkWhitespace(source, translation),
+    ...checkNewlines(source, translation),
+  ];
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+/** `{index[,alignment][:format]}` as accepted by .NET composite formatting. */
+const FORMAT_ITEM = /^\s*(\d+)\s*(?:,\s*(-?\d+)\s*)?(?::(.*))?$/s;
+
+/** Opening, closing and self-closing HTML/XML tags. */
+const TAG = /<(\/?)([A-Za-z][\w:.-]*)\b[^<>]*?(\/?)>/g;
+
+function checkPlaceholders(source: string, translation: string): TranslationIssue[] {
+  const expected = parsePlaceholders(source);
+  const actual = parsePlaceholders(translation);
+  const issues: TranslationIssue[] = [];
+
+  if (expected.valid && !actual.valid) {
+    issues.push({
+      type: "invalid_format",
+      message:
+        "Translation contains an unescaped '{' or '}' and is not a valid format string.",
+    });
+  }
+
+  for (const item of expected.items) {
+    if (!actual.items.has(item)) {
+      issues.push({
+        type: "missing_placeholder",
+        message: `Placeholder ${item} from the default value is missing.`,
+      });
+    }
+  }
+  for (const item of actual.items) {
+    if (!expected.items.has(item)) {
+      issues.push({
+        type: "unexpected_placeholder",
+        message: `Placeholder ${item} does not appear in the default value.`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Collect the placeholders of `value`: composite format items normalized to
+ * `{index[,alignment][:format]}`, and any other `{name}` token verbatim.
+ * `valid` is false when a brace is neither escaped nor part of a format item.
+ */
+function parsePlaceholders(value: string): { items: Set<string>; valid: boolean } {
+  const items = new Set<string>();
+  let valid = true;
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === "}") {
+      if (value[i + 1] === "}") i++;
+      else valid = false;
+      continue;
+    }
+    if (ch !== "{") continue;
+    if (value[i + 1] === "{") {
+      i++;
+      continue;
+    }
+
+    const close = value.indexOf("}", i + 1);
+    if (close < 0) {
+      valid = false;
+      break;
+    }
+
+    const content = value.slice(i + 1, close);
+    const match = FORMAT_ITEM.exec(content);
+    if (match) {
+      const [, index = "", alignment, format] = match;
+      items.add(
+        `{${index}${alignment !== undefined ? `,${alignment}` : ""}` +
+          `${format !== undefined ? `:${format}` : ""}}`,
+      );
+    } else {
+      valid = false;
+      items.add(`{${content}}`);
+    }
+    i = close;
+  }
+
+  return { items, valid };
+}
+
+function checkTags(source: string, translation: string): TranslationIssue[] {
+  const expected = countTags(source);
+  const actual = countTags(translation);
+  const issues: TranslationIssue[] = [];
+
+  for (const tag of new Set([...expected.keys(), ...actual.keys()])) {
+    const want = expected.get(tag) ?? 0;
+    const got = actual.get(tag) ?? 0;
+    if (want !== got) {
+      issues.push({
+        type: "tag_mismatch",
+        message:
+          `Tag ${tag} appears ${String(want)} time(s) in the default value ` +
+          `but ${String(got)} time(s) in the translation.`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/** Count tags by normalized form (`<b>`, `</b>`, `<br/>`), ignoring attributes. */
+function countTags(value: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const [, closing = "", name = "", selfClosing = ""] of value.matchAll(TAG)) {
+    const tag = `<${closing}${name.toLowerCase()}${selfClosing}>`;
+    counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function checkWhitespace(source: string, translation: string): TranslationIssue[] {
+  const issues: TranslationIssue[] = [];
+  if (/^\s/.test(source) !== /^\s/.test(translation)) {
+    issues.push({
+      type: "leading_whitespace",
+      message: /^\s/.test(source)
+        ? "Default value starts with whitespace but the translation does not."
+        : "Translation starts with whitespace but the default value does not.",
+    });
+  }
+  if (/\s$/.test(source) !== /\s$/.test(translation)) {
+    issues.push({
+      type: "trailing_whitespace",
+      message: /\s$/.test(source)
+        ? "Default value ends with whitespace but the translation does not."
+        : "Translation ends with whitespace but the default value does not.",
+    });
+  }
+  return issues;
+}
+
+function checkNewlines(source: string, translation: string): TranslationIssue[] {
+  const expected = countNewlines(source);
+  const actual = countNewlines(translation);
+  if (expected === actual) return [];
+  return [
+    {
+      type: "newline_count",
+      message:
+        `Default value has ${String(expected)} line break(s) ` +
+        `but the translation has ${String(actual)}.`,
+    },
+  ];
+}
+
+function countNewlines(value: string): number {
+  return value.match(/\r\n|\r|\n/g)?.length ?? 0;
+}
@@ -0,0 +1,192 @@
+/**
+ * Applying a key × culture matrix of values to a resource set, shared by the
+ * spreadsheet-style import tools.
+ */
+
+import * as path from "node:path";
+
+import type {
+  ParsedResxFile,
+  SortMode,
+  TranslationChange,
+  TranslationImportResult,
+  TranslationMatrix,
+} from "../types.js";
+import { discoverResxVariants } from "./discovery.js";
+import { withFileLocks } from "./file-lock.js";
+import { indexEntries } from "./resource-set.js";
+import {
+  describeReadFailure,
+  findEntry,
+  normalizeNewlines,
+  parseResxFile,
+  previewResxWrite,
+  upsertEntry,
+  writeResxFile,
+} from "./resx.js";
+
+/**
+ * Upsert every value of `matrix` into the matching variant of `basePath`.
+ *
+ * All affected files are locked together, read once, and each modified
+ * file is written once at the end.  With `dryRun` nothing is written and
+ * each file's result carries a unified diff of the change instead.  The default
+ * file is processed first, so a key can be added to it and translated in the
+ * same import; values for keys absent from the default file are otherwise
+ * skipped, as are non-string resources.  With `skipFallbacks`, a culture
+ * value equal to the default value is skipped when the culture has no value
+ * for the key yet: it was most likely filled in from the default by the
+ * export, not translated.
+ *
+ * Throws when a culture has no `.resx` file or a file cannot be parsed;
+ * nothing is written in that case.
+ */
+export async function importTranslationMatrix(
+  basePath: string,
+  matrix: TranslationMatrix,
+  {
+    dryRun = false,
+    skipFallbacks = false,
+    sortMode,
+  }: { dryRun?: boolean; skipFallbacks?: boolean; sortMode?: SortMode } = {},
+): Promise<TranslationImportResult> {
+  const { variants } = await discoverResxVariants(basePath);
+  const fileOf = new Map(variants.map((v) => [v.culture, v.file]));
+
+  const cultures = [
+    "default",
+    ...[...matrix.values.keys()].filter((c) => c !== "default"),
+  ];
+  const missing = cultures.filter((culture) => !fileOf.has(culture));
+  if (missing.length > 0) {
+    throw new Error(
+      `No .resx file for culture(s): ${missing.join(", ")}. ` +
+        "Create missing culture files with create_culture_file first.",
+    );
+  }
+  const files = cultures.map((culture) => fileOf.get(culture) ?? "");
+
+  return withFileLocks(files, async () => {
+    const loaded = new Map<string, ParsedResxFile>();
+    const unreadable: string[] = [];
+    for (const [index, culture] of cultures.entries()) {
+      const file = files[index] ?? "";
+      const parsed = await parseResxFile(file);
+      if (parsed) loaded.set(culture, parsed);
+      else unreadable.push(describeReadFailure(file, path.basename(file)));
+    }
+    if (unreadable.length > 0) {
+      throw new Error(`Unable to read file(s): ${unreadable.join(", ")}`);
+    }
+
+    const defaultKeys = new Set(
+      indexEntries(loaded.get("default")?.document.root.data ?? []).keys(),
+    );
+    const defaultValue = (key: string): string | undefined => {
+      const document = loaded.get("default")?.document;
+      return document && findEntry(document.root.data ?? [], key)?.value?.[0];
+    };
+    const changes: TranslationChange[] = [];
+    const skipped: TranslationImportResult["skipped"] = [];
+    const touched = new Map(
+      cultures.map((culture) => [
+        culture,
+        { added: new Set<string>(), updated: new Set<string>() },
+      ]),
+    );
+
+    for (const culture of cultures) {
+      const document = loaded.get(culture)?.document;
+      const keys = touched.get(culture);
+      if (!document || !keys) continue;
+
+      for (const [key, rawValue] of matrix.values.get(culture) ?? []) {
+        if (culture !== "default" && !defaultKeys.has(key)) {
+          skipped.push({ culture, key, reason: "key not in the default file" });
+          continue;
+        }
+
+        const value = normalizeNewlines(rawValue);
+        const before = findEntry(document.root.data ?? [], key)?.value?.[0];
+        if (
+          skipFallbacks &&
+          culture !== "default" &&
+          (before ?? "") === "" &&
+          value === normalizeNewlines(defaultValue(key) ?? "")
+        ) {
+          skipped.push({ culture, key, reason: "same as the default value (fallback)" });
+          continue;
+        }
+        try {
+          const action = upsertEntry(document, key, value);
+          if (action === "unchanged") continue;
+          keys[action].add(key);
+          changes.push({
+            culture,
+            key,
+            field: "value",
+            ...(action === "updated" ? { before: before ?? "" } : {}),
+            after: value,
+          });
+          if (culture === "default") defaultKeys.add(key);
+        } catch (error: unknown) {
+          skipped.push({ culture, key, reason: errorMessage(error) });
+        }
+      }
+    }
+
+    const defaultDocument = loaded.get("default")?.document;
+    for (const [key, comment] of matrix.comments) {
+      const entry = defaultDocument && findEntry(defaultDocument.root.data ?? [], key);
+      if (!defaultDocument || !entry) {
+        skipped.push({ culture: "default", key, reason: "key not in the default file" });
+        continue;
+      }
+      const before = entry.comment?.[0];
+      try {
+        const value = normalizeNewlines(entry.value?.[0] ?? "");
+        if (upsertEntry(defaultDocument, key, value, comment) === "unchanged") continue;
+        const keys = touched.get("default");
+        if (keys && !keys.added.has(key)) keys.updated.add(key);
+        changes.push({
+          culture: "default",
+          key,
+          field: "comment",
+          ...(before !== undefined ? { before } : {}),
+          after: comment,
+        });
+      } catch (error: unknown) {
+        skipped.push({ culture: "default", key, reason: errorMessage(error) });
+      }
+    }
+
+    const results: TranslationImportResult["files"] = [];
+    for (const [index, culture] of cultures.entries()) {
+      const file = files[index] ?? "";
+      const parsed = loaded.get(culture);
+      const keys = touched.get(culture);
+      if (!parsed || !keys || keys.added.size + keys.updated.size === 0) continue;
+
+      const options = { sortMode };
+      const diff = dryRun
+        ? await previewResxWrite(file, parsed.document, parsed.eol, options)
+        : undefined;
+      if (!dryRun) await writeResxFile(file, parsed.document, parsed.eol, options);
+      results.push({
+        file: path.basename(file),
+        culture,
+        added: keys.added.size,
+        updated: keys.updated.size,
+        ...(diff !== undefined ? { diff } : {}),
+      });
+    }
+
+    return { dryRun, files: results, changes, skipped };
+  });
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
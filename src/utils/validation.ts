@@ -5,16 +5,28 @@
  * caller can surface the message directly to the MCP client.
  */
 
+import type { CsvDelimiter, SortMode } from "../types.js";
+import { SORT_MODES, isSortMode } from "./sort.js";
+import { CSV_DELIMITERS } from "./csv.js";
+
 /**
  * Asserts that `value` is a non-empty string and returns it trimmed.
  */
 export function requireString(value: unknown, paramName: string): string {
+  return requireNonEmptyString(value, paramName).trim();
+}
+
+/**
+ * Like {@link requireString}, but returns `value` as is, for text such as
+ * translation values whose surrounding whitespace is significant.
+ */
+export function requireNonEmptyString(value: unknown, paramName: string): string {
   if (typeof value !== "string" || value.trim().length === 0) {
     throw new Error(
       `Parameter '${paramName}' is required and must be a non-empty string.`,
     );
   }
-  return value.trim();
+  return value;
 }
 
 /**
@@ -29,3 +41,165 @@ export function requireResxPath(value: unknown, paramName: string): string {
   }
   return filePath;
 }
+
+/**
+ * Returns `value` trimmed when it is a non-empty string, `undefined` when it
+ * is omitted, and throws for any other type.
+ */
+export function optionalString(value: unknown, paramName: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return requireString(value, paramName);
+}
+
+/**
+ * Like {@link requireResxPath}, but returns `undefined` when the parameter is
+ * omitted.
+ */
+export function optionalResxPath(value: unknown, paramName: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return requireResxPath(value, paramName);
+}
+
+/**
+ * Asserts that `value` is a boolean when provided and returns `fallback`
+ * when it is omitted.
+ */
+export function optionalBoolean(
+  value: unknown,
+  paramName: string,
+  fallback = false,
+): boolean {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== "boolean") {
+    throw new Error(`Parameter '${paramName}' must be a boolean.`);
+  }
+  return value;
+}
+
+/**
+ * Validates an optional comment parameter.
+ *
+ * Returns `undefined` when omitted (leave the comment untouched), `null`
+ * when an empty string is passed (remove the comment), or the trimmed text.
+ */
+export function optionalComment(
+  value: unknown,
+  paramName: string,
+): string | null | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new Error(`Parameter '${paramName}' must be a string.`);
+  }
+  const trimmed = value.trim();
+  return trimmed.length === 0 ? null : trimmed;
+}
+
+/**
+ * Asserts that `value` is an integer within `[min, max]` when provided and
+ * returns `fallback` when it is omitted.
+ */
+export function optionalInteger(
+  value: unknown,
+  paramName: string,
+  fallback: number,
+  { min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER } = {},
+): number {
+  if (value === undefined || value === null) return fallback;
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    throw new Error(
+      `Parameter '${paramName}' must be an integer between ${String(min)} and ${String(max)}.`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Asserts that `value` is an array of non-empty strings when provided and
+ * returns the trimmed strings, or `undefined` when it is omitted.
+ */
+export function optionalStringArray(
+  value: unknown,
+  paramName: string,
+): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Parameter '${paramName}' must be a non-empty array of strings.`);
+  }
+  return value.map((item, index) =>
+    requireString(item, `${paramName}[${String(index)}]`),
+  );
+}
+
+/**
+ * Compiles a required regular-expression parameter, turning syntax errors
+ * into a descriptive validation error.
+ */
+export function requireRegExp(value: unknown, paramName: string, flags = ""): RegExp {
+  const source = requireString(value, paramName);
+  try {
+    return new RegExp(source, flags);
+  } catch (error: unknown) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Parameter '${paramName}' is not a valid regular expression: ${reason}`,
+    );
+  }
+}
+
+/**
+ * Like {@link requireRegExp}, but returns `undefined` when the parameter is
+ * omitted.
+ */
+export function optionalRegExp(
+  value: unknown,
+  paramName: string,
+  flags = "",
+): RegExp | undefined {
+  if (value === undefined || value === null) return undefined;
+  return requireRegExp(value, paramName, flags);
+}
+
+/**
+ * Validates an optional sort-mode parameter, returning `undefined` when it is
+ * omitted so the server-wide default applies.
+ */
+export function optionalSortMode(
+  value: unknown,
+  paramName: string,
+): SortMode | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isSortMode(value)) {
+    throw new Error(`Parameter '${paramName}' must be one of: ${SORT_MODES.join(", ")}.`);
+  }
+  return value;
+}
+
+/**
+ * Validates the optional separator that joins nested JSON locale keys into
+ * flat resource keys, returning `"."` when it is omitted.
+ */
+export function optionalKeySeparator(value: unknown, paramName: string): string {
+  return optionalString(value, paramName) ?? ".";
+}
+
+/**
+ * Validates an optional CSV delimiter parameter (`,`, `;` or a tab
+ * character), returning `undefined` when it is omitted.
+ */
+export function optionalCsvDelimiter(
+  value: unknown,
+  paramName: string,
+): CsvDelimiter | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!(CSV_DELIMITERS as readonly unknown[]).includes(value)) {
+    throw new Error(
+      `Parameter '${paramName}' must be one of: ",", ";" or a tab character.`,
+    );
+  }
+  return value as CsvDelimiter;
+}
@@ -0,0 +1,260 @@
+/**
+ * Serialization of XLIFF, the exchange format used by translation vendors
+ * and CAT tools.
+ *
+ * Both XLIFF 2.0 (one `<unit>`/`<segment>` per key) and the older but still
+ * widespread XLIFF 1.2 (one `<trans-unit>` per key) are supported.  Values
+ * are written with `xml:space="preserve"` so leading/trailing whitespace and
+ * line breaks survive the round trip.
+ */
+
+import * as xml2js from "xml2js";
+
+import type { XliffDocument, XliffUnit, XliffVersion } from "../types.js";
+
+export const XLIFF_VERSIONS: readonly XliffVersion[] = ["2.0", "1.2"];
+
+/**
+ * Type guard for {@link XliffVersion}.
+ */
+export function isXliffVersion(value: unknown): value is XliffVersion {
+  return (
+    typeof value === "string" && (XLIFF_VERSIONS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Render `doc` as an XLIFF file in the requested version, with LF line
+ * endings.
+ *
+ * Keys that need translation get `state="needs-translation"` on the
+ * `<target>` in 1.2.  XLIFF 2.0 has no such state, so its segments are
+ * marked `state="initial"` with `subState="resx:needs-translation"`.
+ */
+export function buildXliff(doc: XliffDocument): string {
+  const builder = new xml2js.Builder({
+    renderOpts: { pretty: true, indent: "  ", newline: "\n" },
+    xmldec: { version: "1.0", encoding: "utf-8" },
+  });
+  const root = doc.version === "1.2" ? buildXliff12(doc) : buildXliff20(doc);
+  return builder.buildObject(root) + "\n";
+}
+
+/**
+ * Parse an XLIFF 2.0 or 1.2 document, flattening `<group>`s and `<file>`s
+ * into a single list of units.  Unit ids are the `name` (2.0) or `resname`
+ * (1.2) attribute when present, otherwise the `id`.
+ *
+ * A unit counts as translated when it has a non-empty target whose state
+ * is not explicitly untranslated (`initial` in 2.0, `new` or
+ * `needs-translation` in 1.2) — CAT tools often pre-fill targets with the
+ * source text.  Units with inline markup get a `problem` instead of values.
+ *
+ * Throws when the text is not XML or not an XLIFF 2.0 / 1.2 document.
+ */
+export async function parseXliff(text: string): Promise<XliffDocument> {
+  const parsed = (await xliffParser.parseStringPromise(text)) as {
+    xliff?: XmlElement;
+  } | null;
+  const xliff = parsed?.xliff;
+  if (!xliff || typeof xliff !== "object") {
+    throw new Error("Not an XLIFF document: the root element must be <xliff>.");
+  }
+
+  const version = attribute(xliff, "version");
+  if (!isXliffVersion(version)) {
+    throw new Error(
+      `Unsupported XLIFF version '${version ?? ""}'; expected one of: ${XLIFF_VERSIONS.join(", ")}.`,
+    );
+  }
+
+  const files = children(xliff, "file");
+  const firstFile = files[0];
+  const units: XliffUnit[] = [];
+
+  if (version === "2.0") {
+    for (const file of files) collectUnits20(file, units);
+    return {
+      version,
+      sourceLanguage: attribute(xliff, "srcLang") ?? "",
+      targetLanguage: attribute(xliff, "trgLang") ?? "",
+      original: (firstFile && attribute(firstFile, "original")) ?? "",
+      units,
+    };
+  }
+
+  for (const file of files) {
+    for (const body of children(file, "body")) collectUnits12(body, units);
+  }
+  return {
+    version,
+    sourceLanguage: (firstFile && attribute(firstFile, "source-language")) ?? "",
+    targetLanguage: (firstFile && attribute(firstFile, "target-language")) ?? "",
+    original: (firstFile && attribute(firstFile, "original")) ?? "",
+    units,
+  };
+}
+
+// ── Internal helpers ────────────────────────────────────────────────────
+
+const xliffParser = new xml2js.Parser();
+
+/** An element as produced by xml2js: text-only elements are plain strings. */
+type XmlNode = string | XmlElement;
+interface XmlElement {
+  $?: Record<string, string>;
+  _?: string;
+  [child: string]: unknown;
+}
+
+/** Untranslated target states, which CAT tools may pair with a copy of the source. */
+const UNTRANSLATED_STATES = new Set(["initial", "new", "needs-translation"]);
+
+function children(element: XmlNode, name: string): XmlNode[] {
+  if (typeof element === "string") return [];
+  const value = element[name];
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+function attribute(element: XmlNode, name: string): string | undefined {
+  return typeof element === "string" ? undefined : element.$?.[name];
+}
+
+/**
+ * Text content of an element, or `null` when it contains child elements
+ * (inline markup such as `<ph/>`, `<pc>` or `<g>`).
+ */
+function textOf(element: XmlNode | undefined): string | null {
+  if (element === undefined || typeof element === "string") return element ?? "";
+  const childNames = Object.keys(element).filter((key) => key !== "$" && key !== "_");
+  return childNames.length > 0 ? null : (element._ ?? "");
+}
+
+function collectUnits20(container: XmlNode, units: XliffUnit[]): void {
+  for (const group of children(container, "group")) collectUnits20(group, units);
+
+  for (const unit of children(container, "unit")) {
+    const id = attribute(unit, "name") ?? attribute(unit, "id") ?? "";
+    const segments = children(unit, "segment");
+    if (children(unit, "ignorable").length > 0) {
+      units.push(problemUnit(id, "unit has <ignorable> content between segments"));
+      continue;
+    }
+
+    const sources = segments.map((segment) => textOf(children(segment, "source")[0]));
+    const targets = segments.map((segment) => {
+      const target = children(segment, "target")[0];
+      return target === undefined ? undefined : textOf(target);
+    });
+    if (sources.includes(null) || targets.includes(null)) {
+      units.push(problemUnit(id, "unit contains inline markup"));
+      continue;
+    }
+
+    const target = targets.some((t) => t === undefined) ? undefined : targets.join("");
+    const untranslated = segments.some((segment) =>
+      UNTRANSLATED_STATES.has(attribute(segment, "state") ?? ""),
+    );
+    units.push(toUnit(id, sources.join(""), target, untranslated));
+  }
+}
+
+function collectUnits12(container: XmlNode, units: XliffUnit[]): void {
+  for (const group of children(container, "group")) collectUnits12(group, units);
+
+  for (const unit of children(container, "trans-unit")) {
+    const id = attribute(unit, "resname") ?? attribute(unit, "id") ?? "";
+    const source = textOf(children(unit, "source")[0]);
+    const targetElement = children(unit, "target")[0];
+    const target = targetElement === undefined ? undefined : textOf(targetElement);
+    if (source === null || target === null) {
+      units.push(problemUnit(id, "unit contains inline markup"));
+      continue;
+    }
+
+    const state = targetElement && attribute(targetElement, "state");
+    units.push(toUnit(id, source, target, UNTRANSLATED_STATES.has(state ?? "")));
+  }
+}
+
+function toUnit(
+  id: string,
+  source: string,
+  target: string | undefined,
+  untranslated: boolean,
+): XliffUnit {
+  const translated = !untranslated && target !== undefined && target.trim() !== "";
+  return {
+    id,
+    source,
+    ...(target !== undefined ? { target } : {}),
+    state: translated ? "translated" : "needs-translation",
+  };
+}
+
+function problemUnit(id: string, problem: string): XliffUnit {
+  return { id, source: "", state: "needs-translation", problem };
+}
+
+const XLIFF_20_NAMESPACE = "urn:oasis:names:tc:xliff:document:2.0";
+const XLIFF_12_NAMESPACE = "urn:oasis:names:tc:xliff:document:1.2";
+
+const PRESERVE = { "xml:space": "preserve" };
+
+function buildXliff20(doc: XliffDocument): object {
+  return {
+    xliff: {
+      $: {
+        xmlns: XLIFF_20_NAMESPACE,
+        version: "2.0",
+        srcLang: doc.sourceLanguage,
+        trgLang: doc.targetLanguage,
+      },
+      file: {
+        $: { id: "f1", original: doc.original },
+        unit: doc.units.map(unit20),
+      },
+    },
+  };
+}
+
+function unit20(unit: XliffUnit): object {
+  const translated = unit.state === "translated";
+  return {
+    $: { id: unit.id },
+    ...(unit.note !== undefined ? { notes: { note: unit.note } } : {}),
+    segment: {
+      $: translated
+        ? { state: "translated" }
+        : { state: "initial", subState: "resx:needs-translation" },
+      source: { $: PRESERVE, _: unit.source },
+      ...(translated ? { target: { $: PRESERVE, _: unit.target ?? "" } } : {}),
+    },
+  };
+}
+
+function buildXliff12(doc: XliffDocument): object {
+  return {
+    xliff: {
+      $: { xmlns: XLIFF_12_NAMESPACE, version: "1.2" },
+      file: {
+        $: {
+          original: doc.original,
+          "source-language": doc.sourceLanguage,
+          "target-language": doc.targetLanguage,
+          datatype: "resx",
+        },
+        body: { "trans-unit": doc.units.map(unit12) },
+      },
+    },
+  };
+}
+
+function unit12(unit: XliffUnit): object {
+  return {
+    $: { id: unit.id, resname: unit.id, ...PRESERVE },
+    source: unit.source,
+    target: { $: { state: unit.state }, _: unit.target ?? "" },
+    ...(unit.note !== undefined ? { note: unit.note } : {}),
+  };
+}
@@ -0,0 +1,82 @@
+import * as path from "node:path";
+import { describe, it, expect } from "vitest";
+import { loadServerConfig } from "../src/config.js";
+
+describe("loadServerConfig", () => {
+  it("defaults to alphabetical sorting", () => {
+    expect(loadServerConfig([], {})).toEqual({
+      sortMode: "alphabetical",
+      transport: "stdio",
+      host: "127.0.0.1",
+      port: 3000,
+      roots: [],
+    });
+  });
+
+  it("reads the sort mode from the environment", () => {
+    expect(loadServerConfig([], { RESX_SORT_MODE: "preserve" }).sortMode).toBe(
+      "preserve",
+    );
+  });
+
+  it("prefers the command line over the environment", () => {
+    const env = { RESX_SORT_MODE: "preserve" };
+    expect(loadServerConfig(["--sort-mode", "ordinal"], env).sortMode).toBe("ordinal");
+    expect(loadServerConfig(["--sort-mode=insert-sorted"], env).sortMode).toBe(
+      "insert-sorted",
+    );
+  });
+
+  it("rejects invalid values and unknown options", () => {
+    expect(() => loadServerConfig(["--sort-mode", "random"], {})).toThrow(
+      "Invalid sort mode 'random'",
+    );
+    expect(() => loadServerConfig(["--sort-mode"], {})).toThrow("requires a value");
+    expect(() => loadServerConfig(["--verbose"], {})).toThrow(
+      "Unknown command-line option",
+    );
+  });
+
+  it("reads the HTTP transport settings", () => {
+    expect(
+      loadServerConfig(["--transport", "http", "--host=0.0.0.0", "--port", "8080"], {
+        RESX_AUTH_TOKEN: "s3cret",
+      }),
+    ).toEqual({
+      sortMode: "alphabetical",
+      transport: "http",
+      host: "0.0.0.0",
+      port: 8080,
+      authToken: "s3cret",
+      roots: [],
+    });
+    expect(
+      loadServerConfig([], { RESX_TRANSPORT: "http", RESX_HTTP_PORT: "0" }).port,
+    ).toBe(0);
+  });
+
+  it("rejects invalid transports and ports", () => {
+    expect(() => loadServerConfig(["--transport", "ws"], {})).toThrow(
+      "Invalid transport 'ws'",
+    );
+    expect(() => loadServerConfig(["--port", "70000"], {})).toThrow("Invalid port");
+    expect(() => loadServerConfig([], { RESX_HTTP_PORT: "abc" })).toThrow("Invalid port");
+  });
+
+  it("collects repeated roots, falling back to the environment", () => {
+    const env = { RESX_ROOTS: ["/srv/a", "/srv/b"].join(path.delimiter) };
+
+    expect(loadServerConfig([], env).roots).toEqual(["/srv/a", "/srv/b"]);
+    expect(loadServerConfig(["--root", "/repo", "--root=/other"], env).roots).toEqual([
+      "/repo",
+      "/other",
+    ]);
+  });
+
+  it("lets the last value of a repeated single-valued option win", () => {
+    expect(
+      loadServerConfig(["--sort-mode", "ordinal", "--sort-mode", "preserve"], {})
+        .sortMode,
+    ).toBe("preserve");
+  });
+});
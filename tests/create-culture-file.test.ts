@@ -0,0 +1,156 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleCreateCultureFile } from "../src/tools/create-culture-file.js";
+import { handleUpsertTranslation } from "../src/tools/upsert-translation.js";
+import { parseResxFile } from "../src/utils/resx.js";
+import { createTempDir, valuesOf } from "./helpers.js";
+
+const BASE_CONTENT = [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  "<root>",
+  '  <resheader name="resmimetype">',
+  "    <value>text/microsoft-resx</value>",
+  "  </resheader>",
+  '  <resheader name="version">',
+  "    <value>2.0</value>",
+  "  </resheader>",
+  '  <data name="GREETING" xml:space="preserve">',
+  "    <value>Cześć</value>",
+  "    <comment>Shown on the start page</comment>",
+  "  </data>",
+  '  <data name="FAREWELL" xml:space="preserve">',
+  "    <value>Do widzenia</value>",
+  "  </data>",
+  "</root>",
+].join("\r\n");
+
+describe("handleCreateCultureFile", () => {
+  let tempDir: string;
+  let basePath: string;
+  let frPath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir("create", { "Language.resx": BASE_CONTENT });
+    basePath = path.join(tempDir, "Language.resx");
+    frPath = path.join(tempDir, "Language.fr-FR.resx");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("creates a file with the base boilerplate and no entries by default", async () => {
+    const result = await handleCreateCultureFile({ basePath, culture: "fr-FR" });
+
+    expect(result.isError).toBeUndefined();
+    const parsed = await parseResxFile(frPath);
+    expect(parsed!.document.root.resheader).toHaveLength(2);
+    expect(parsed!.document.root.data ?? []).toHaveLength(0);
+  });
+
+  it("adds every key with an empty value in 'empty' mode, keeping comments", async () => {
+    await handleCreateCultureFile({ basePath, culture: "fr-FR", entries: "empty" });
+
+    expect(await valuesOf(frPath)).toEqual({ FAREWELL: "", GREETING: "" });
+    const parsed = await parseResxFile(frPath);
+    const greeting = parsed!.document.root.data!.find((d) => d.$.name === "GREETING");
+    expect(greeting!.comment).toEqual(["Shown on the start page"]);
+  });
+
+  it("copies default values in 'copy' mode", async () => {
+    await handleCreateCultureFile({ basePath, culture: "fr", entries: "copy" });
+
+    expect(await valuesOf(path.join(tempDir, "Language.fr.resx"))).toEqual({
+      FAREWELL: "Do widzenia",
+      GREETING: "Cześć",
+    });
+  });
+
+  it("does not copy non-string resources", async () => {
+    const withIcon = BASE_CONTENT.replace(
+      "</root>",
+      '  <data name="ICON" type="System.Resources.ResXFileRef, System.Windows.Forms">\r\n' +
+        "    <value>Icon.ico;System.Drawing.Icon, System.Drawing</value>\r\n" +
+        "  </data>\r\n</root>",
+    );
+    await fs.writeFile(basePath, withIcon, "utf-8");
+
+    const result = await handleCreateCultureFile({
+      basePath,
+      culture: "fr",
+      entries: "empty",
+    });
+
+    expect(result.content[0]!.text).toContain("1 non-string resource(s) skipped");
+    expect(Object.keys(await valuesOf(path.join(tempDir, "Language.fr.resx")))).toEqual([
+      "FAREWELL",
+      "GREETING",
+    ]);
+  });
+
+  it("uses the base file's line endings", async () => {
+    await handleCreateCultureFile({ basePath, culture: "fr-FR" });
+
+    expect(await fs.readFile(frPath, "utf-8")).toContain("\r\n");
+  });
+
+  it("produces a file that can be upserted into afterwards", async () => {
+    await handleCreateCultureFile({ basePath, culture: "fr-FR" });
+
+    const result = await handleUpsertTranslation({
+      filePath: frPath,
+      key: "GREETING",
+      value: "Bonjour",
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(await valuesOf(frPath)).toEqual({ GREETING: "Bonjour" });
+  });
+
+  it("refuses to overwrite an existing file", async () => {
+    await fs.writeFile(frPath, "existing", "utf-8");
+
+    const result = await handleCreateCultureFile({ basePath, culture: "fr-FR" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("already exists");
+    expect(await fs.readFile(frPath, "utf-8")).toBe("existing");
+  });
+
+  it("returns error when the base file cannot be read", async () => {
+    const result = await handleCreateCultureFile({
+      basePath: path.join(tempDir, "Missing.resx"),
+      culture: "fr-FR",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("Unable to read file");
+  });
+
+  it("throws for an invalid culture name", async () => {
+    await expect(
+      handleCreateCultureFile({ basePath, culture: "French" }),
+    ).rejects.toThrow("valid culture name");
+  });
+
+  it("throws for an unknown entries mode", async () => {
+    await expect(
+      handleCreateCultureFile({ basePath, culture: "fr-FR", entries: "all" }),
+    ).rejects.toThrow("'entries' must be one of");
+  });
+
+  it("previews the new file against /dev/null without creating it in dry-run mode", async () => {
+    const result = await handleCreateCultureFile({
+      basePath,
+      culture: "fr-FR",
+      entries: "copy",
+      dryRun: true,
+    });
+
+    const text = result.content[0]!.text;
+    expect(text).toContain("Dry run: would create Language.fr-FR.resx");
+    expect(text).toContain("--- /dev/null\n+++ b/Language.fr-FR.resx\n@@ -0,0 +1,");
+    await expect(fs.access(path.join(tempDir, "Language.fr-FR.resx"))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,247 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleExportCsv } from "../src/tools/export-csv.js";
+import { handleImportCsv } from "../src/tools/import-csv.js";
+import { parseResxFile } from "../src/utils/resx.js";
+import type { TranslationImportResult } from "../src/types.js";
+import { createTempDir, crlf, resx, valuesOf } from "./helpers.js";
+
+function parse(text: string): TranslationImportResult {
+  return JSON.parse(text) as TranslationImportResult;
+}
+
+describe("CSV export and import", () => {
+  let tempDir: string;
+  let basePath: string;
+  let csvPath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir("csv", {
+      "Language.resx": resx({ SAVE: "Save", INTRO: "Line 1\nLine 2" }).replace(
+        "<value>Save</value>",
+        "<value>Save</value>\n    <comment>Toolbar, primary</comment>",
+      ),
+      "Language.de-DE.resx": resx({ SAVE: "Speichern" }),
+      "Language.fr.resx": resx({ SAVE: "Enregistrer", INTRO: "Ligne 1\nLigne 2" }),
+    });
+    basePath = path.join(tempDir, "Language.resx");
+    csvPath = path.join(tempDir, "Language.csv");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe("handleExportCsv", () => {
+    it("writes a key × culture matrix with a comment column", async () => {
+      const result = await handleExportCsv({ basePath });
+
+      expect(result.isError).toBeUndefined();
+      expect(JSON.parse(result.content[0]!.text)).toEqual({
+        file: csvPath,
+        keys: 2,
+        columns: ["key", "default", "de-DE", "fr", "comment"],
+      });
+      expect(await fs.readFile(csvPath, "utf-8")).toBe(
+        "\uFEFFkey,default,de-DE,fr,comment\r\n" +
+          'SAVE,Save,Speichern,Enregistrer,"Toolbar, primary"\r\n' +
+          'INTRO,"Line 1\nLine 2",,"Ligne 1\nLigne 2",\r\n',
+      );
+    });
+
+    it("prefixes values that a spreadsheet would evaluate as formulas", async () => {
+      await fs.writeFile(
+        path.join(tempDir, "Language.de-DE.resx"),
+        resx({ SAVE: '=HYPERLINK("http://x","Speichern")' }),
+      );
+
+      await handleExportCsv({ basePath });
+
+      expect(await fs.readFile(csvPath, "utf-8")).toContain(
+        `SAVE,Save,"'=HYPERLINK(""http://x"",""Speichern"")",Enregistrer`,
+      );
+      const report = parse(
+        (await handleImportCsv({ basePath, csvPath })).content[0]!.text,
+      );
+      expect(report.changes).toEqual([]);
+    });
+
+    it("uses the requested delimiter and output path", async () => {
+      const outputPath = path.join(tempDir, "out", "sheet.csv");
+
+      await handleExportCsv({ basePath, outputPath, delimiter: ";" });
+
+      expect(await fs.readFile(outputPath, "utf-8")).toContain(
+        "key;default;de-DE;fr;comment",
+      );
+    });
+
+    it("previews the export as a diff against the file on disk in dry-run mode", async () => {
+      const created = JSON.parse(
+        (await handleExportCsv({ basePath, dryRun: true })).content[0]!.text,
+      ) as { dryRun: boolean; diff: string };
+
+      expect(created.dryRun).toBe(true);
+      expect(created.diff).toContain("--- /dev/null\n+++ b/Language.csv\n");
+      await expect(fs.access(csvPath)).rejects.toThrow();
+
+      await handleExportCsv({ basePath });
+      const before = await fs.readFile(csvPath, "utf-8");
+      await fs.writeFile(
+        path.join(tempDir, "Language.de-DE.resx"),
+        resx({ SAVE: "Sichern" }),
+      );
+      const { diff } = JSON.parse(
+        (await handleExportCsv({ basePath, dryRun: true })).content[0]!.text,
+      ) as { diff: string };
+
+      expect(diff).toContain(
+        '-SAVE,Save,Speichern,Enregistrer,"Toolbar, primary"\n' +
+          '+SAVE,Save,Sichern,Enregistrer,"Toolbar, primary"\n',
+      );
+      expect(await fs.readFile(csvPath, "utf-8")).toBe(before);
+    });
+
+    it("throws for an unsupported delimiter", async () => {
+      await expect(handleExportCsv({ basePath, delimiter: "|" })).rejects.toThrow(
+        "'delimiter' must be one of",
+      );
+    });
+  });
+
+  describe("handleImportCsv", () => {
+    it("round-trips an edited export and reports each change", async () => {
+      await handleExportCsv({ basePath });
+      const csv = await fs.readFile(csvPath, "utf-8");
+      await fs.writeFile(
+        csvPath,
+        csv
+          .replace("Speichern,", "Sichern,")
+          .replace('"Line 1\nLine 2",,', '"Line 1\nLine 2","Zeile 1\nZeile 2",')
+          .replace('"Toolbar, primary"', "Primary button"),
+      );
+
+      const result = await handleImportCsv({ csvPath, basePath });
+
+      expect(result.isError).toBeUndefined();
+      const report = parse(result.content[0]!.text);
+      expect(report.files).toEqual([
+        { file: "Language.resx", culture: "default", added: 0, updated: 1 },
+        { file: "Language.de-DE.resx", culture: "de-DE", added: 1, updated: 1 },
+      ]);
+      expect(report.changes).toEqual([
+        {
+          culture: "de-DE",
+          key: "SAVE",
+          field: "value",
+          before: "Speichern",
+          after: "Sichern",
+        },
+        { culture: "de-DE", key: "INTRO", field: "value", after: "Zeile 1\nZeile 2" },
+        {
+          culture: "default",
+          key: "SAVE",
+          field: "comment",
+          before: "Toolbar, primary",
+          after: "Primary button",
+        },
+      ]);
+      expect(await valuesOf(path.join(tempDir, "Language.de-DE.resx"))).toEqual({
+        INTRO: "Zeile 1\nZeile 2",
+        SAVE: "Sichern",
+      });
+    });
+
+    it("reports no changes when re-importing an unchanged export of CRLF files", async () => {
+      const files = ["Language.resx", "Language.de-DE.resx", "Language.fr.resx"];
+      const before: string[] = [];
+      for (const file of files) {
+        const content = crlf(await fs.readFile(path.join(tempDir, file), "utf-8"));
+        await fs.writeFile(path.join(tempDir, file), content);
+        before.push(content);
+      }
+      await handleExportCsv({ basePath });
+
+      const report = parse(
+        (await handleImportCsv({ basePath, csvPath })).content[0]!.text,
+      );
+
+      expect(report.files).toEqual([]);
+      expect(report.changes).toEqual([]);
+      for (const [index, file] of files.entries()) {
+        expect(await fs.readFile(path.join(tempDir, file), "utf-8")).toBe(before[index]);
+      }
+    });
+
+    it("does not write files in dry-run mode", async () => {
+      await fs.writeFile(csvPath, "key;de-DE\nSAVE;Sichern\n");
+      const before = await fs.readFile(
+        path.join(tempDir, "Language.de-DE.resx"),
+        "utf-8",
+      );
+
+      const report = parse(
+        (await handleImportCsv({ csvPath, basePath, dryRun: true })).content[0]!.text,
+      );
+
+      expect(report.dryRun).toBe(true);
+      expect(report.changes).toHaveLength(1);
+      expect(report.files[0]?.diff).toContain("+    <value>Sichern</value>");
+      expect(await fs.readFile(path.join(tempDir, "Language.de-DE.resx"), "utf-8")).toBe(
+        before,
+      );
+    });
+
+    it("adds new default keys and skips translations of unknown keys", async () => {
+      await fs.writeFile(csvPath, "key,default,fr\nNEW,New,Nouveau\nORPHAN,,Orphelin\n");
+
+      const report = parse(
+        (await handleImportCsv({ csvPath, basePath })).content[0]!.text,
+      );
+
+      expect(report.skipped).toEqual([
+        { culture: "fr", key: "ORPHAN", reason: "key not in the default file" },
+      ]);
+      expect((await valuesOf(basePath)).NEW).toBe("New");
+      expect((await valuesOf(path.join(tempDir, "Language.fr.resx"))).NEW).toBe(
+        "Nouveau",
+      );
+    });
+
+    it("writes each file once even when it receives many values", async () => {
+      await fs.writeFile(csvPath, "key,fr\nSAVE,Sauver\nINTRO,Intro\n");
+
+      await handleImportCsv({ csvPath, basePath });
+
+      const parsed = await parseResxFile(path.join(tempDir, "Language.fr.resx"));
+      expect(parsed!.document.root.data).toHaveLength(2);
+    });
+
+    it("throws for a culture column without a file", async () => {
+      await fs.writeFile(csvPath, "key,es\nSAVE,Guardar\n");
+
+      await expect(handleImportCsv({ csvPath, basePath })).rejects.toThrow(
+        "No .resx file for culture(s): es",
+      );
+    });
+
+    it("throws for an unknown column", async () => {
+      await fs.writeFile(csvPath, "key,notes\nSAVE,x\n");
+
+      await expect(handleImportCsv({ csvPath, basePath })).rejects.toThrow(
+        "Unknown CSV column 'notes'",
+      );
+    });
+
+    it("returns error when the CSV cannot be read", async () => {
+      const result = await handleImportCsv({
+        csvPath: path.join(tempDir, "missing.csv"),
+        basePath,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]!.text).toContain("Unable to read CSV file");
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { formatCsv, parseCsv, detectCsvDelimiter } from "../src/utils/csv.js";
+
+describe("formatCsv", () => {
+  it("quotes fields with delimiters, quotes and line breaks, with a BOM and CRLF", () => {
+    const csv = formatCsv(
+      [
+        ["key", "value"],
+        ["A", 'Say "hi", then\nleave'],
+        ["B", "plain"],
+      ],
+      ",",
+    );
+
+    expect(csv).toBe('\uFEFFkey,value\r\nA,"Say ""hi"", then\nleave"\r\nB,plain\r\n');
+  });
+
+  it("prefixes fields that a spreadsheet would evaluate as formulas", () => {
+    expect(formatCsv([["=1+1", "+49", "-", "@SUM(A1)", "a=b", "'=x"]], ",")).toBe(
+      "\uFEFF'=1+1,'+49,'-,'@SUM(A1),a=b,''=x\r\n",
+    );
+  });
+
+  it("only quotes for the delimiter in use", () => {
+    expect(formatCsv([["a,b", "c;d"]], ";")).toBe('\uFEFFa,b;"c;d"\r\n');
+  });
+});
+
+describe("parseCsv", () => {
+  it("round-trips formatCsv output", () => {
+    const rows = [
+      ["key", "default", "comment"],
+      ["A", 'Multi\nline "quoted", value', ""],
+      ["B", "", "note"],
+    ];
+
+    expect(parseCsv(formatCsv(rows, ","), ",")).toEqual(rows);
+  });
+
+  it("round-trips values that look like formulas", () => {
+    const rows = [['=HYPERLINK("x")', "-1", "'=x", "'plain", "@"]];
+
+    expect(parseCsv(formatCsv(rows, ","), ",")).toEqual(rows);
+  });
+
+  it("accepts LF records and normalizes CRLF inside quoted fields", () => {
+    expect(parseCsv('a;b\n"x\r\ny";z', ";")).toEqual([
+      ["a", "b"],
+      ["x\ny", "z"],
+    ]);
+  });
+
+  it("keeps empty trailing fields", () => {
+    expect(parseCsv("a,,\r\n", ",")).toEqual([["a", "", ""]]);
+  });
+
+  it("throws for an unterminated quoted field", () => {
+    expect(() => parseCsv('a,"b\n', ",")).toThrow(
+      "Unterminated quoted field in CSV row 1",
+    );
+  });
+});
+
+describe("detectCsvDelimiter", () => {
+  it("picks the most frequent delimiter of the header row", () => {
+    expect(detectCsvDelimiter("key;default;de-DE\nA;x,y;z")).toBe(";");
+    expect(detectCsvDelimiter("key\tdefault\n")).toBe("\t");
+    expect(detectCsvDelimiter('key,"a;b;c"\n')).toBe(",");
+    expect(detectCsvDelimiter("key\n")).toBe(",");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCultureName,
+  isCultureName,
+  getCultureFallbackChain,
+  resolveWithFallback,
+} from "../src/utils/culture.js";
+
+describe("parseCultureName", () => {
+  it("parses specific cultures", () => {
+    expect(parseCultureName("de-DE")).toEqual({
+      name: "de-DE",
+      language: "de",
+      region: "DE",
+    });
+  });
+
+  it("parses neutral cultures", () => {
+    expect(parseCultureName("de")).toEqual({ name: "de", language: "de" });
+  });
+
+  it("parses script subtags", () => {
+    expect(parseCultureName("zh-Hans")).toEqual({
+      name: "zh-Hans",
+      language: "zh",
+      script: "Hans",
+    });
+    expect(parseCultureName("sr-Latn-RS")).toMatchObject({
+      script: "Latn",
+      region: "RS",
+    });
+  });
+
+  it("parses numeric regions and three-letter languages", () => {
+    expect(parseCultureName("es-419")).toMatchObject({ language: "es", region: "419" });
+    expect(parseCultureName("fil-PH")).toMatchObject({ language: "fil", region: "PH" });
+  });
+
+  it("accepts legacy .NET Chinese names", () => {
+    expect(isCultureName("zh-CHS")).toBe(true);
+    expect(isCultureName("zh-CHT")).toBe(true);
+  });
+
+  it("is case-insensitive", () => {
+    expect(isCultureName("EN-us")).toBe(true);
+  });
+
+  it("rejects words that merely look like subtags", () => {
+    expect(parseCultureName("Extras")).toBeNull();
+    expect(parseCultureName("xtras")).toBeNull();
+    expect(parseCultureName("Designer")).toBeNull();
+    expect(parseCultureName("old")).toBeNull();
+  });
+
+  it("rejects file-name suffixes that ICU knows as language codes", () => {
+    expect(isCultureName("new")).toBe(false);
+    expect(isCultureName("min")).toBe(false);
+    expect(isCultureName("bak")).toBe(false);
+    expect(isCultureName("deu")).toBe(false);
+    expect(isCultureName("min-ID")).toBe(true);
+    expect(isCultureName("prs-AF")).toBe(true);
+  });
+
+  it("rejects unknown languages, scripts and regions", () => {
+    expect(isCultureName("qq")).toBe(false);
+    expect(isCultureName("zh-Abcd")).toBe(false);
+    expect(isCultureName("en-XX")).toBe(false);
+  });
+});
+
+describe("getCultureFallbackChain", () => {
+  it("drops the region, then the script, then falls back to default", () => {
+    expect(getCultureFallbackChain("de-AT")).toEqual(["de-AT", "de", "default"]);
+    expect(getCultureFallbackChain("sr-Latn-RS")).toEqual([
+      "sr-Latn-RS",
+      "sr-Latn",
+      "sr",
+      "default",
+    ]);
+    expect(getCultureFallbackChain("de")).toEqual(["de", "default"]);
+  });
+
+  it("falls back from Chinese regions to their script", () => {
+    expect(getCultureFallbackChain("zh-TW")).toEqual([
+      "zh-TW",
+      "zh-Hant",
+      "zh",
+      "default",
+    ]);
+    expect(getCultureFallbackChain("zh-CN")).toEqual([
+      "zh-CN",
+      "zh-Hans",
+      "zh",
+      "default",
+    ]);
+    expect(getCultureFallbackChain("zh-Hant")).toEqual(["zh-Hant", "zh", "default"]);
+  });
+
+  it("uses canonical casing for parents", () => {
+    expect(getCultureFallbackChain("DE-at")).toEqual(["DE-at", "de", "default"]);
+  });
+
+  it("goes straight to default for legacy and unknown names", () => {
+    expect(getCultureFallbackChain("zh-CHS")).toEqual(["zh-CHS", "default"]);
+    expect(getCultureFallbackChain("default")).toEqual(["default"]);
+  });
+});
+
+describe("resolveWithFallback", () => {
+  it("returns the first value along the chain", () => {
+    const values: Record<string, string> = { de: "Hallo", default: "Hello" };
+
+    expect(resolveWithFallback("de-AT", (c) => values[c])).toEqual({
+      value: "Hallo",
+      culture: "de",
+    });
+    expect(resolveWithFallback("fr-FR", (c) => values[c])).toEqual({
+      value: "Hello",
+      culture: "default",
+    });
+    expect(resolveWithFallback("fr", () => undefined)).toBeNull();
+  });
+});
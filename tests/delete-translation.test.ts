@@ -0,0 +1,142 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleDeleteTranslation } from "../src/tools/delete-translation.js";
+import { createTempDir, keysOf as readKeys, resx } from "./helpers.js";
+
+let tempDir: string;
+
+const keysOf = (file: string) => readKeys(path.join(tempDir, file));
+
+describe("handleDeleteTranslation", () => {
+  beforeEach(async () => {
+    tempDir = await createTempDir("delete", {
+      "Language.resx": resx({ KEEP: "Keep", REMOVE_ME: "Usuń" }),
+      "Language.en-US.resx": resx({ KEEP: "Keep", REMOVE_ME: "Remove" }),
+      "Language.de-DE.resx": resx({ KEEP: "Behalten" }),
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("removes a key from a single file", async () => {
+    const result = await handleDeleteTranslation({
+      filePath: path.join(tempDir, "Language.en-US.resx"),
+      key: "REMOVE_ME",
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]!.text).toContain("removed");
+    expect(await keysOf("Language.en-US.resx")).toEqual(["KEEP"]);
+    // Other variants are untouched.
+    expect(await keysOf("Language.resx")).toEqual(["KEEP", "REMOVE_ME"]);
+  });
+
+  it("reports a key that is already absent without rewriting the file", async () => {
+    const file = path.join(tempDir, "Language.de-DE.resx");
+    const before = await fs.readFile(file, "utf-8");
+
+    const result = await handleDeleteTranslation({ filePath: file, key: "REMOVE_ME" });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]!.text).toContain("was not present");
+    expect(await fs.readFile(file, "utf-8")).toBe(before);
+  });
+
+  it("removes a key from every variant when allVariants is true", async () => {
+    const result = await handleDeleteTranslation({
+      basePath: path.join(tempDir, "Language.resx"),
+      allVariants: true,
+      key: "REMOVE_ME",
+    });
+
+    expect(result.isError).toBeUndefined();
+    const report = JSON.parse(result.content[0]!.text) as {
+      key: string;
+      results: { file: string; language: string; action: string }[];
+    };
+
+    const byLanguage = Object.fromEntries(
+      report.results.map((r) => [r.language, r.action]),
+    );
+    expect(byLanguage).toEqual({
+      default: "removed",
+      "en-US": "removed",
+      "de-DE": "not_found",
+    });
+
+    expect(await keysOf("Language.resx")).toEqual(["KEEP"]);
+    expect(await keysOf("Language.en-US.resx")).toEqual(["KEEP"]);
+    expect(await keysOf("Language.de-DE.resx")).toEqual(["KEEP"]);
+  });
+
+  it("returns error for non-existent file", async () => {
+    const result = await handleDeleteTranslation({
+      filePath: path.join(tempDir, "Missing.resx"),
+      key: "X",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("Unable to read file");
+  });
+
+  it("throws when allVariants is true but basePath is missing", async () => {
+    await expect(
+      handleDeleteTranslation({
+        filePath: path.join(tempDir, "Language.resx"),
+        allVariants: true,
+        key: "X",
+      }),
+    ).rejects.toThrow("'basePath'");
+  });
+
+  it("throws for missing key", async () => {
+    await expect(
+      handleDeleteTranslation({ filePath: path.join(tempDir, "Language.resx") }),
+    ).rejects.toThrow("non-empty string");
+  });
+
+  it("throws for non-boolean allVariants", async () => {
+    await expect(
+      handleDeleteTranslation({
+        basePath: path.join(tempDir, "Language.resx"),
+        allVariants: "yes",
+        key: "X",
+      }),
+    ).rejects.toThrow("must be a boolean");
+  });
+
+  it("previews the removal from every variant in dry-run mode", async () => {
+    const result = await handleDeleteTranslation({
+      basePath: path.join(tempDir, "Language.resx"),
+      allVariants: true,
+      key: "REMOVE_ME",
+      dryRun: true,
+    });
+
+    const report = JSON.parse(result.content[0]!.text) as {
+      dryRun: boolean;
+      results: { language: string; action: string; diff?: string }[];
+    };
+    expect(report.dryRun).toBe(true);
+    const en = report.results.find((r) => r.language === "en-US");
+    expect(en?.action).toBe("removed");
+    expect(en?.diff).toContain('-  <data name="REMOVE_ME" xml:space="preserve">');
+    expect(report.results.find((r) => r.language === "de-DE")?.diff).toBeUndefined();
+    expect(await keysOf("Language.en-US.resx")).toEqual(["KEEP", "REMOVE_ME"]);
+  });
+
+  it("previews the removal from a single file as a diff block", async () => {
+    const result = await handleDeleteTranslation({
+      filePath: path.join(tempDir, "Language.en-US.resx"),
+      key: "REMOVE_ME",
+      dryRun: true,
+    });
+
+    expect(result.content[0]!.text).toContain("Dry run: would remove key 'REMOVE_ME'");
+    expect(result.content[0]!.text).toContain("-    <value>Remove</value>");
+    expect(await keysOf("Language.en-US.resx")).toEqual(["KEEP", "REMOVE_ME"]);
+  });
+});
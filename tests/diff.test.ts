@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { createUnifiedDiff, formatDiffBlock } from "../src/utils/diff.js";
+
+const lines = (count: number, label = "line"): string =>
+  Array.from({ length: count }, (_, i) => `${label} ${String(i + 1)}\n`).join("");
+
+describe("createUnifiedDiff", () => {
+  it("returns an empty string for identical texts", () => {
+    expect(createUnifiedDiff("a.resx", "one\ntwo\n", "one\ntwo\n")).toBe("");
+  });
+
+  it("ignores the difference between CRLF and LF", () => {
+    expect(createUnifiedDiff("a.resx", "one\r\ntwo\r\n", "one\ntwo\n")).toBe("");
+  });
+
+  it("shows a change with three lines of context", () => {
+    const before = lines(10);
+    const after = before.replace("line 5\n", "line five\n");
+
+    expect(createUnifiedDiff("a.resx", before, after)).toBe(
+      [
+        "--- a/a.resx",
+        "+++ b/a.resx",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line five",
+        " line 6",
+        " line 7",
+        " line 8",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const before = lines(20);
+    const after = before.replace("line 2\n", "").replace("line 19\n", "line 19\nnew\n");
+
+    const diff = createUnifiedDiff("a.resx", before, after);
+
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(["@@ -1,5 +1,4 @@", "@@ -17,4 +16,5 @@"]);
+    expect(diff).toContain("-line 2\n");
+    expect(diff).toContain("+new\n");
+  });
+
+  it("merges changes that are close together into one hunk", () => {
+    const before = lines(20);
+    const after = before.replace("line 5\n", "five\n").replace("line 11\n", "eleven\n");
+
+    expect(createUnifiedDiff("a.resx", before, after).match(/^@@ .* @@$/gm)).toEqual([
+      "@@ -2,13 +2,13 @@",
+    ]);
+  });
+
+  it("diffs a new file against /dev/null", () => {
+    expect(createUnifiedDiff("new.resx", null, "a\nb\n")).toBe(
+      ["--- /dev/null", "+++ b/new.resx", "@@ -0,0 +1,2 @@", "+a", "+b", ""].join("\n"),
+    );
+  });
+
+  it("diffs a large new file without tracing an edit script", () => {
+    const diff = createUnifiedDiff("new.resx", null, lines(50_000));
+
+    expect(diff.startsWith("--- /dev/null\n+++ b/new.resx\n@@ -0,0 +1,50000 @@\n")).toBe(
+      true,
+    );
+    expect(diff.split("\n").filter((line) => line.startsWith("+line"))).toHaveLength(
+      50_000,
+    );
+  });
+
+  it("shows the changed middle as one block when too many lines change", () => {
+    const before = `head\n${lines(3000, "old")}tail\n`;
+    const after = `head\n${lines(3000, "new")}tail\n`;
+
+    const changed = createUnifiedDiff("a.resx", before, after)
+      .split("\n")
+      .filter((line) => /^[-+][^-+]/.test(line));
+
+    expect(changed).toHaveLength(6000);
+    expect(changed[0]).toBe("-old 1");
+    expect(changed[2999]).toBe("-old 3000");
+    expect(changed[3000]).toBe("+new 1");
+  });
+
+  it("marks a missing newline at the end of the file", () => {
+    expect(createUnifiedDiff("a.resx", "a\nb", "a\nb\n")).toBe(
+      [
+        "--- a/a.resx",
+        "+++ b/a.resx",
+        "@@ -1,2 +1,2 @@",
+        " a",
+        "-b",
+        "\\ No newline at end of file",
+        "+b",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("finds a minimal diff when lines move", () => {
+    const diff = createUnifiedDiff("a.resx", "a\nb\nc\nd\n", "b\nc\nd\na\n");
+
+    expect(diff.split("\n").filter((line) => /^[-+][^-+]/.test(line))).toEqual([
+      "-a",
+      "+a",
+    ]);
+  });
+});
+
+describe("formatDiffBlock", () => {
+  it("wraps a diff in a fenced diff block", () => {
+    expect(formatDiffBlock("--- a/x\n+++ b/x\n")).toBe("```diff\n--- a/x\n+++ b/x\n```");
+  });
+});
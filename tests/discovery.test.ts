@@ -1,5 +1,17 @@
-import { describe, it, expect } from "vitest";
-import { getBaseName, extractLanguageLabel } from "../src/utils/discovery.js";
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  getBaseName,
+  extractLanguageLabel,
+  getCultureFilePath,
+  getVariantBasePath,
+  findBaseResxFiles,
+  groupResourceSets,
+  discoverResxVariants,
+  findRelatedResxFiles,
+} from "../src/utils/discovery.js";
+import { createTempDir, resx } from "./helpers.js";
 
 describe("getBaseName", () => {
   it("strips .resx from base file", () => {
@@ -43,3 +55,132 @@ describe("extractLanguageLabel", () => {
     expect(extractLanguageLabel("MyFile.resx", "MyFile")).toBe("default");
   });
 });
+
+describe("getCultureFilePath", () => {
+  it("inserts the culture before the extension", () => {
+    expect(getCultureFilePath(path.join("src", "Language.resx"), "de-DE")).toBe(
+      path.join("src", "Language.de-DE.resx"),
+    );
+  });
+
+  it('returns the base path for "default"', () => {
+    expect(getCultureFilePath("Language.resx", "default")).toBe("Language.resx");
+  });
+});
+
+describe("getVariantBasePath", () => {
+  it("strips the culture suffix", () => {
+    expect(getVariantBasePath(path.join("src", "Language.de-DE.resx"))).toBe(
+      path.join("src", "Language.resx"),
+    );
+  });
+
+  it("returns null for base files and non-culture suffixes", () => {
+    expect(getVariantBasePath("Language.resx")).toBeNull();
+    expect(getVariantBasePath("Language.Errors.resx")).toBeNull();
+  });
+});
+
+describe("findBaseResxFiles", () => {
+  it("keeps only files without a base sibling in the list", () => {
+    const files = [
+      path.join("a", "Language.resx"),
+      path.join("a", "Language.de-DE.resx"),
+      path.join("a", "Orders.resx"),
+      path.join("b", "Language.pl-PL.resx"),
+    ];
+
+    expect(findBaseResxFiles(files)).toEqual([
+      path.join("a", "Language.resx"),
+      path.join("a", "Orders.resx"),
+      path.join("b", "Language.pl-PL.resx"),
+    ]);
+  });
+});
+
+describe("groupResourceSets", () => {
+  it("attaches culture variants to their base file", () => {
+    const files = [
+      path.join("a", "Language.de-DE.resx"),
+      path.join("a", "Language.resx"),
+      path.join("a", "Orders.resx"),
+    ];
+
+    expect(groupResourceSets(files)).toEqual([
+      {
+        basePath: path.join("a", "Language.resx"),
+        variants: [{ file: path.join("a", "Language.de-DE.resx"), culture: "de-DE" }],
+      },
+      { basePath: path.join("a", "Orders.resx"), variants: [] },
+    ]);
+  });
+});
+
+describe("discoverResxVariants", () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    const content = resx({ K: "v" });
+    tempDir = await createTempDir("discovery", {
+      "Language.resx": content,
+      "Language.de.resx": content,
+      "Language.de-DE.resx": content,
+      "Language.zh-Hans.resx": content,
+      "LanguageExtras.resx": content,
+      "Language.Errors.resx": content,
+      "Language.Errors.de-DE.resx": content,
+      "Language.bak.resx": content,
+      "Language.new.resx": content,
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("returns only culture variants with their parsed culture", async () => {
+    const { variants } = await discoverResxVariants(path.join(tempDir, "Language.resx"));
+
+    expect(variants).toEqual([
+      { file: path.join(tempDir, "Language.de-DE.resx"), culture: "de-DE" },
+      { file: path.join(tempDir, "Language.de.resx"), culture: "de" },
+      { file: path.join(tempDir, "Language.resx"), culture: "default" },
+      { file: path.join(tempDir, "Language.zh-Hans.resx"), culture: "zh-Hans" },
+    ]);
+  });
+
+  it("reports skipped siblings with a reason", async () => {
+    const { skipped } = await discoverResxVariants(path.join(tempDir, "Language.resx"));
+
+    const reasons = Object.fromEntries(
+      skipped.map((s) => [path.basename(s.file), s.reason]),
+    );
+    expect(Object.keys(reasons).sort()).toEqual([
+      "Language.Errors.de-DE.resx",
+      "Language.Errors.resx",
+      "Language.bak.resx",
+      "Language.new.resx",
+      "LanguageExtras.resx",
+    ]);
+    expect(reasons["LanguageExtras.resx"]).toContain("different resource set");
+    expect(reasons["Language.Errors.resx"]).toContain("not a recognised culture");
+    expect(reasons["Language.bak.resx"]).toContain("not a recognised culture");
+  });
+
+  it("treats dotted resource names as their own resource set", async () => {
+    const files = await findRelatedResxFiles(path.join(tempDir, "Language.Errors.resx"));
+
+    expect(files.map((f) => path.basename(f))).toEqual([
+      "Language.Errors.de-DE.resx",
+      "Language.Errors.resx",
+    ]);
+  });
+});
+
+describe("groupResourceSets with dotted names", () => {
+  it("does not treat a non-culture suffix as a variant", () => {
+    const files = [path.join("a", "Strings.resx"), path.join("a", "Strings.Errors.resx")];
+
+    expect(groupResourceSets(files).map((s) => s.basePath)).toEqual(files);
+  });
+});
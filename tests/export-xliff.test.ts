@@ -0,0 +1,128 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleExportXliff } from "../src/tools/export-xliff.js";
+import { createTempDir, resx } from "./helpers.js";
+
+interface Report {
+  version: string;
+  files: { culture: string; file: string; units: number; needsTranslation: number }[];
+}
+
+function parse(text: string): Report {
+  return JSON.parse(text) as Report;
+}
+
+describe("handleExportXliff", () => {
+  let tempDir: string;
+  let basePath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir("xliff", {
+      "Language.resx": resx({ A: "Save", B: "Cancel", C: "Close" }).replace(
+        "<value>Save</value>",
+        "<value>Save</value>\n    <comment>Toolbar button</comment>",
+      ),
+      "Language.de-DE.resx": resx({ A: "Speichern", B: "", EXTRA: "x" }),
+    });
+    basePath = path.join(tempDir, "Language.resx");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("exports every existing culture next to the base file", async () => {
+    const result = await handleExportXliff({ basePath, sourceLanguage: "en" });
+
+    expect(result.isError).toBeUndefined();
+    const report = parse(result.content[0]!.text);
+    expect(report.version).toBe("2.0");
+    expect(report.files).toEqual([
+      {
+        culture: "de-DE",
+        file: path.join(tempDir, "Language.de-DE.xlf"),
+        units: 3,
+        needsTranslation: 2,
+      },
+    ]);
+
+    const xml = await fs.readFile(path.join(tempDir, "Language.de-DE.xlf"), "utf-8");
+    expect(xml).toContain('trgLang="de-DE"');
+    expect(xml).toContain('<target xml:space="preserve">Speichern</target>');
+    expect(xml).toContain("<note>Toolbar button</note>");
+    expect(xml).not.toContain("EXTRA");
+  });
+
+  it("exports cultures without a file with every key needing translation", async () => {
+    const outputDir = path.join(tempDir, "out");
+    const result = await handleExportXliff({
+      basePath,
+      sourceLanguage: "en",
+      cultures: ["fr"],
+      version: "1.2",
+      outputDir,
+    });
+
+    expect(parse(result.content[0]!.text).files[0]).toMatchObject({
+      culture: "fr",
+      units: 3,
+      needsTranslation: 3,
+    });
+    const xml = await fs.readFile(path.join(outputDir, "Language.fr.xlf"), "utf-8");
+    expect(xml.match(/state="needs-translation"/g)).toHaveLength(3);
+  });
+
+  it("does not export non-string resources", async () => {
+    await fs.writeFile(
+      basePath,
+      resx({ A: "Save" }).replace(
+        "</root>",
+        '  <data name="MAX" type="System.Int32, mscorlib">\n    <value>5</value>\n  </data>\n</root>',
+      ),
+      "utf-8",
+    );
+
+    const result = await handleExportXliff({ basePath, sourceLanguage: "en" });
+
+    expect(parse(result.content[0]!.text).files[0]!.units).toBe(1);
+  });
+
+  it("previews each file as a diff without writing in dry-run mode", async () => {
+    const result = await handleExportXliff({
+      basePath,
+      sourceLanguage: "en",
+      dryRun: true,
+    });
+
+    const report = JSON.parse(result.content[0]!.text) as {
+      dryRun: boolean;
+      files: { file: string; diff: string }[];
+    };
+    expect(report.dryRun).toBe(true);
+    expect(report.files[0]!.diff).toContain("--- /dev/null\n+++ b/Language.de-DE.xlf\n");
+    expect(report.files[0]!.diff).toContain('+    <unit id="A">');
+    await expect(fs.access(report.files[0]!.file)).rejects.toThrow();
+  });
+
+  it("returns error when there is no culture to export", async () => {
+    await fs.rm(path.join(tempDir, "Language.de-DE.resx"));
+
+    const result = await handleExportXliff({ basePath, sourceLanguage: "en" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("No culture variants");
+  });
+
+  it("throws for an invalid culture or version", async () => {
+    await expect(
+      handleExportXliff({ basePath, sourceLanguage: "English" }),
+    ).rejects.toThrow("valid culture name");
+    await expect(
+      handleExportXliff({ basePath, sourceLanguage: "en", cultures: ["de", "xx-Bogus"] }),
+    ).rejects.toThrow("cultures[1]");
+    await expect(
+      handleExportXliff({ basePath, sourceLanguage: "en", version: "3.0" }),
+    ).rejects.toThrow("'version' must be one of");
+  });
+});
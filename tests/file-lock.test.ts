@@ -1,15 +1,19 @@
 import * as path from "node:path";
 import * as fs from "node:fs/promises";
 import { describe, it, expect, afterEach } from "vitest";
-import { withFileLock } from "../src/utils/file-lock.js";
+import { withFileLock, withFileLocks } from "../src/utils/file-lock.js";
 
 const FIXTURES_DIR = path.resolve(import.meta.dirname, "fixtures");
 const TEMP_FILE = path.join(FIXTURES_DIR, "_lock-test.resx");
 const TEMP_LOCK = TEMP_FILE + ".lock";
+const TEMP_FILE_2 = path.join(FIXTURES_DIR, "_lock-test-2.resx");
+const TEMP_LOCK_2 = TEMP_FILE_2 + ".lock";
 
 async function cleanUp(): Promise<void> {
   await fs.unlink(TEMP_FILE).catch(() => {});
   await fs.unlink(TEMP_LOCK).catch(() => {});
+  await fs.unlink(TEMP_FILE_2).catch(() => {});
+  await fs.unlink(TEMP_LOCK_2).catch(() => {});
 }
 
 describe("withFileLock", () => {
@@ -79,3 +83,47 @@ describe("withFileLock", () => {
     await expect(fs.access(TEMP_LOCK)).rejects.toThrow();
   });
 });
+
+describe("withFileLocks", () => {
+  afterEach(cleanUp);
+
+  it("holds every lockfile while the callback runs", async () => {
+    await fs.writeFile(TEMP_FILE, "a", "utf-8");
+    await fs.writeFile(TEMP_FILE_2, "b", "utf-8");
+
+    await withFileLocks([TEMP_FILE, TEMP_FILE_2], async () => {
+      await expect(fs.access(TEMP_LOCK)).resolves.toBeUndefined();
+      await expect(fs.access(TEMP_LOCK_2)).resolves.toBeUndefined();
+    });
+
+    await expect(fs.access(TEMP_LOCK)).rejects.toThrow();
+    await expect(fs.access(TEMP_LOCK_2)).rejects.toThrow();
+  });
+
+  it("does not deadlock when callers lock overlapping sets in different orders", async () => {
+    await fs.writeFile(TEMP_FILE, "a", "utf-8");
+    await fs.writeFile(TEMP_FILE_2, "b", "utf-8");
+
+    const slow = () => new Promise((r) => setTimeout(r, 10));
+    const results = await Promise.all([
+      withFileLocks([TEMP_FILE, TEMP_FILE_2], async () => {
+        await slow();
+        return 1;
+      }),
+      withFileLocks([TEMP_FILE_2, TEMP_FILE], async () => {
+        await slow();
+        return 2;
+      }),
+    ]);
+
+    expect(results).toEqual([1, 2]);
+  });
+
+  it("tolerates duplicate paths", async () => {
+    await fs.writeFile(TEMP_FILE, "a", "utf-8");
+
+    const result = await withFileLocks([TEMP_FILE, TEMP_FILE], async () => "ok");
+
+    expect(result).toBe("ok");
+  });
+});
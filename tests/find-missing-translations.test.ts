@@ -0,0 +1,122 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleFindMissingTranslations } from "../src/tools/find-missing-translations.js";
+import { createTempDir, resx } from "./helpers.js";
+
+const FIXTURES_DIR = path.resolve(import.meta.dirname, "fixtures");
+
+interface Report {
+  defaultKeyCount: number;
+  languages: Record<
+    string,
+    {
+      missing: string[];
+      empty: string[];
+      extra: string[];
+      counts: Record<string, number>;
+    }
+  >;
+  totals: { missing: number; empty: number; extra: number };
+  unreadable?: string[];
+}
+
+function parse(text: string): Report {
+  return JSON.parse(text) as Report;
+}
+
+describe("handleFindMissingTranslations", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir("missing", {
+      "Language.resx": resx({ A: "a", B: "b", C: "c" }),
+      "Language.en-US.resx": resx({ A: "a", B: "", ONLY_EN: "x" }),
+      "Language.de-DE.resx": resx({ A: "a", B: "b", C: "   " }),
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("reports the fixture's missing key per language", async () => {
+    const result = await handleFindMissingTranslations({
+      basePath: path.join(FIXTURES_DIR, "Language.resx"),
+    });
+
+    expect(result.isError).toBeUndefined();
+    const report = parse(result.content[0]!.text);
+    expect(report.defaultKeyCount).toBe(3);
+    expect(report.languages["de-DE"]!.missing).toEqual(["TITLE_HOME"]);
+    expect(report.languages["en-US"]!.missing).toEqual([]);
+  });
+
+  it("groups missing, empty and extra keys by language with counts", async () => {
+    const result = await handleFindMissingTranslations({
+      basePath: path.join(tempDir, "Language.resx"),
+    });
+
+    const report = parse(result.content[0]!.text);
+    expect(report.languages["en-US"]).toMatchObject({
+      missing: ["C"],
+      empty: ["B"],
+      extra: ["ONLY_EN"],
+      counts: { missing: 1, empty: 1, extra: 1 },
+    });
+    expect(report.languages["de-DE"]).toMatchObject({
+      missing: [],
+      empty: ["C"],
+      extra: [],
+    });
+    expect(report.totals).toEqual({ missing: 1, empty: 2, extra: 1 });
+    expect(report.languages["default"]).toBeUndefined();
+  });
+
+  it("does not expect non-string resources in culture files", async () => {
+    await fs.writeFile(
+      path.join(tempDir, "Language.resx"),
+      resx({ A: "a", B: "b", C: "c" }).replace(
+        "</root>",
+        '  <data name="ICON" type="System.Resources.ResXFileRef, System.Windows.Forms">\n' +
+          "    <value>icon.png;System.Byte[], mscorlib</value>\n  </data>\n</root>",
+      ),
+    );
+
+    const result = await handleFindMissingTranslations({
+      basePath: path.join(tempDir, "Language.resx"),
+    });
+
+    const report = parse(result.content[0]!.text);
+    expect(report.defaultKeyCount).toBe(3);
+    expect(report.languages["de-DE"]?.missing).toEqual([]);
+    expect(report.languages["en-US"]?.missing).toEqual(["C"]);
+  });
+
+  it("lists culture files that cannot be parsed, with the parse error", async () => {
+    await fs.writeFile(path.join(tempDir, "Language.fr-FR.resx"), "<root><data", "utf-8");
+
+    const result = await handleFindMissingTranslations({
+      basePath: path.join(tempDir, "Language.resx"),
+    });
+
+    expect(parse(result.content[0]!.text).unreadable).toEqual([
+      "Language.fr-FR.resx (line 1, column 11: Unclosed root tag.)",
+    ]);
+  });
+
+  it("returns error when the base file cannot be read", async () => {
+    const result = await handleFindMissingTranslations({
+      basePath: path.join(tempDir, "Missing.resx"),
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("Unable to read file");
+  });
+
+  it("throws for non-.resx basePath", async () => {
+    await expect(handleFindMissingTranslations({ basePath: "file.xml" })).rejects.toThrow(
+      "must point to a .resx file",
+    );
+  });
+});
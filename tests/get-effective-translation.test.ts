@@ -0,0 +1,127 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleGetEffectiveTranslation } from "../src/tools/get-effective-translation.js";
+import { createTempDir, resx } from "./helpers.js";
+
+describe("handleGetEffectiveTranslation", () => {
+  let tempDir: string;
+  let basePath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir("effective", {
+      "Language.resx": resx({ SAVE: "Save", HOME: "Home", EMPTY: "Empty" }),
+      "Language.de.resx": resx({ SAVE: "Speichern", EMPTY: "" }),
+      "Language.de-AT.resx": resx({ HOME: "Startseite" }).replace(
+        "</root>",
+        '  <data name="SAVE" xml:space="preserve" />\n</root>',
+      ),
+    });
+    basePath = path.join(tempDir, "Language.resx");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  function parse(text: string): Record<string, unknown> {
+    return JSON.parse(text) as Record<string, unknown>;
+  }
+
+  it("returns the culture's own value", async () => {
+    const result = await handleGetEffectiveTranslation({
+      basePath,
+      key: "HOME",
+      culture: "de-AT",
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(parse(result.content[0]!.text)).toEqual({
+      key: "HOME",
+      culture: "de-AT",
+      value: "Startseite",
+      resolvedFrom: "de-AT",
+      fallbackChain: [{ culture: "de-AT", file: "Language.de-AT.resx", status: "found" }],
+    });
+  });
+
+  it("falls through entries without a value to the parent culture", async () => {
+    const result = await handleGetEffectiveTranslation({
+      basePath,
+      key: "SAVE",
+      culture: "de-AT",
+    });
+
+    expect(parse(result.content[0]!.text)).toMatchObject({
+      value: "Speichern",
+      resolvedFrom: "de",
+      fallbackChain: [
+        { culture: "de-AT", file: "Language.de-AT.resx", status: "no value" },
+        { culture: "de", file: "Language.de.resx", status: "found" },
+      ],
+    });
+  });
+
+  it("returns an empty value without falling back, as at runtime", async () => {
+    const result = await handleGetEffectiveTranslation({
+      basePath,
+      key: "EMPTY",
+      culture: "de-AT",
+    });
+
+    expect(parse(result.content[0]!.text)).toMatchObject({
+      value: "",
+      resolvedFrom: "de",
+    });
+  });
+
+  it("resolves cultures that have no file of their own", async () => {
+    const result = await handleGetEffectiveTranslation({
+      basePath,
+      key: "HOME",
+      culture: "de-CH",
+    });
+
+    expect(parse(result.content[0]!.text)).toMatchObject({
+      value: "Home",
+      resolvedFrom: "default",
+      fallbackChain: [
+        { culture: "de-CH", file: null, status: "no file" },
+        { culture: "de", file: "Language.de.resx", status: "not found" },
+        { culture: "default", file: "Language.resx", status: "found" },
+      ],
+    });
+  });
+
+  it("returns a message when no culture in the chain has the key", async () => {
+    const result = await handleGetEffectiveTranslation({
+      basePath,
+      key: "MISSING",
+      culture: "de-AT",
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]!.text).toBe(
+      "Key 'MISSING' was not found for culture 'de-AT' or any of its fallbacks: de-AT → de → default",
+    );
+  });
+
+  it("returns error when a file in the chain cannot be read", async () => {
+    await fs.writeFile(path.join(tempDir, "Language.de.resx"), "<root>");
+
+    const result = await handleGetEffectiveTranslation({
+      basePath,
+      key: "HOME",
+      culture: "de-CH",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("Unable to read file");
+  });
+
+  it("throws for an invalid culture", async () => {
+    await expect(
+      handleGetEffectiveTranslation({ basePath, key: "HOME", culture: "Extras" }),
+    ).rejects.toThrow("Parameter 'culture' must be 'default' or a valid culture name");
+  });
+});
@@ -38,6 +38,36 @@ describe("handleGetTranslations", () => {
     expect(parsed.translations["de-DE"]).toBe("[NOT_FOUND]");
   });
 
+  it("includes translator comments per language when present", async () => {
+    const result = await handleGetTranslations({ basePath: BASE_PATH, key: "BUTTON_SAVE" });
+
+    const parsed = JSON.parse(result.content[0]!.text) as {
+      comments?: Record<string, string>;
+    };
+
+    expect(parsed.comments).toEqual({ "en-US": "Label of the primary toolbar button" });
+  });
+
+  it("omits comments when no variant has one", async () => {
+    const result = await handleGetTranslations({ basePath: BASE_PATH, key: "BUTTON_CANCEL" });
+
+    const parsed = JSON.parse(result.content[0]!.text) as { comments?: unknown };
+
+    expect(parsed.comments).toBeUndefined();
+  });
+
+  it("lists skipped siblings when includeSkipped is true", async () => {
+    const result = await handleGetTranslations({
+      basePath: BASE_PATH,
+      key: "BUTTON_SAVE",
+      includeSkipped: true,
+    });
+
+    const parsed = JSON.parse(result.content[0]!.text) as { skipped?: unknown[] };
+
+    expect(parsed.skipped).toEqual([]);
+  });
+
   it("returns descriptive message when key is not found anywhere", async () => {
     const result = await handleGetTranslations({
       basePath: BASE_PATH,
@@ -64,4 +94,43 @@ describe("handleGetTranslations", () => {
       handleGetTranslations({ basePath: "file.xml", key: "X" }),
     ).rejects.toThrow("must point to a .resx file");
   });
+
+  it("reports non-string resources instead of their payload", async () => {
+    const result = await handleGetTranslations({
+      basePath: path.join(FIXTURES_DIR, "Resources.resx"),
+      key: "Logo",
+    });
+
+    const parsed = JSON.parse(result.content[0]!.text) as {
+      translations: Record<string, string>;
+      resources?: Record<string, { kind: string; bytes?: number }>;
+    };
+    expect(parsed.translations["default"]).toBe(
+      "[binary: System.Drawing.Bitmap, System.Drawing, 70 bytes]",
+    );
+    expect(parsed.resources?.["default"]).toMatchObject({ kind: "binary", bytes: 70 });
+  });
+
+  it("resolves each language through culture fallback when requested", async () => {
+    const result = await handleGetTranslations({
+      basePath: BASE_PATH,
+      key: "TITLE_HOME",
+      resolve: true,
+    });
+
+    const parsed = JSON.parse(result.content[0]!.text) as {
+      resolved?: Record<string, { value: string; resolvedFrom: string | null }>;
+    };
+    expect(parsed.resolved).toEqual({
+      "de-DE": { value: "Strona główna", resolvedFrom: "default" },
+      "en-US": { value: "Home", resolvedFrom: "en-US" },
+      default: { value: "Strona główna", resolvedFrom: "default" },
+    });
+  });
+
+  it("omits resolved values unless requested", async () => {
+    const result = await handleGetTranslations({ basePath: BASE_PATH, key: "TITLE_HOME" });
+
+    expect(JSON.parse(result.content[0]!.text)).not.toHaveProperty("resolved");
+  });
 });
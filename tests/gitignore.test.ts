@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { gitignoreToGlobs } from "../src/utils/gitignore.js";
+
+describe("gitignoreToGlobs", () => {
+  it("skips comments, blank lines and negations", () => {
+    expect(gitignoreToGlobs("# comment\n\n!keep.resx\n")).toEqual([]);
+  });
+
+  it("matches unanchored patterns at any depth", () => {
+    expect(gitignoreToGlobs("Generated")).toEqual(["**/Generated/**", "**/Generated"]);
+  });
+
+  it("anchors patterns containing a slash to the root", () => {
+    expect(gitignoreToGlobs("/artifacts\nsrc/Legacy")).toEqual([
+      "artifacts/**",
+      "artifacts",
+      "src/Legacy/**",
+      "src/Legacy",
+    ]);
+  });
+
+  it("treats trailing-slash patterns as directories only", () => {
+    expect(gitignoreToGlobs("packages/\r\n")).toEqual(["**/packages/**"]);
+  });
+});
@@ -0,0 +1,54 @@
+import * as path from "node:path";
+import * as os from "node:os";
+import * as fs from "node:fs/promises";
+import { parseResxFile } from "../src/utils/resx.js";
+
+/**
+ * Build a minimal .resx document (LF line endings) from a key → value map.
+ */
+export function resx(entries: Record<string, string>): string {
+  const data = Object.entries(entries)
+    .map(
+      ([name, value]) =>
+        `  <data name="${name}" xml:space="preserve">\n    <value>${value}</value>\n  </data>`,
+    )
+    .join("\n");
+  return `<?xml version="1.0" encoding="utf-8"?>\n<root>\n${data}\n</root>\n`;
+}
+
+/**
+ * Convert LF line breaks to CRLF, the line ending Visual Studio writes
+ * .resx files with.
+ */
+export function crlf(text: string): string {
+  return text.replace(/\r?\n/g, "\r\n");
+}
+
+/**
+ * Create a fresh temporary directory populated with the given files, so
+ * tests that discover sibling variants never see each other's files.
+ */
+export async function createTempDir(
+  prefix: string,
+  files: Record<string, string> = {},
+): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), `resx-${prefix}-`));
+  for (const [name, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(dir, name), content, "utf-8");
+  }
+  return dir;
+}
+
+/** Key names of a .resx file, in file order. */
+export async function keysOf(filePath: string): Promise<string[]> {
+  const parsed = await parseResxFile(filePath);
+  return (parsed!.document.root.data ?? []).map((d) => d.$.name);
+}
+
+/** Key → first value map of a .resx file. */
+export async function valuesOf(filePath: string): Promise<Record<string, string>> {
+  const parsed = await parseResxFile(filePath);
+  return Object.fromEntries(
+    (parsed!.document.root.data ?? []).map((d) => [d.$.name, d.value?.[0] ?? ""]),
+  );
+}
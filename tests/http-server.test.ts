@@ -0,0 +1,195 @@
+import { describe, it, expect, afterEach } from "vitest";
+import * as path from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { startHttpServer } from "../src/http-server.js";
+import type { HttpServerHandle } from "../src/http-server.js";
+import { LoggingMessageNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "../src/server.js";
+import { createTempDir, resx } from "./helpers.js";
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+describe("startHttpServer", () => {
+  let handle: HttpServerHandle | undefined;
+  const clients: Client[] = [];
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await handle?.close();
+    handle = undefined;
+  });
+
+  async function connect(
+    transport: StreamableHTTPClientTransport | SSEClientTransport,
+  ): Promise<Client> {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  }
+
+  it("serves tools over Streamable HTTP with a server per session", async () => {
+    handle = await startHttpServer(createServer, { host: "127.0.0.1", port: 0 });
+
+    const first = await connect(
+      new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`)),
+    );
+    const second = await connect(
+      new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`)),
+    );
+
+    const { tools } = await first.listTools();
+    expect(tools.map((t) => t.name)).toContain("get_translations");
+    const result = await second.callTool({ name: "no_such_tool", arguments: {} });
+    expect(result.isError).toBe(true);
+    expect(handle.sessionCount()).toBe(2);
+  });
+
+  it("closes the session when the client terminates it", async () => {
+    handle = await startHttpServer(createServer, { host: "127.0.0.1", port: 0 });
+    const transport = new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`));
+    await connect(transport);
+
+    await transport.terminateSession();
+
+    await expect.poll(() => handle?.sessionCount()).toBe(0);
+  });
+
+  it("serves the HTTP+SSE fallback transport", async () => {
+    handle = await startHttpServer(createServer, { host: "127.0.0.1", port: 0 });
+
+    const client = await connect(new SSEClientTransport(new URL(`${handle.url}/sse`)));
+
+    const { tools } = await client.listTools();
+    expect(tools.length).toBeGreaterThan(0);
+    expect(handle.sessionCount()).toBe(1);
+  });
+
+  it("forwards log messages only to the session whose request logged them", async () => {
+    handle = await startHttpServer(createServer, { host: "127.0.0.1", port: 0 });
+    const dir = await createTempDir("http-log", {
+      "A.resx": resx({ Secret: "a" }),
+      "B.resx": resx({ Other: "b" }),
+    });
+
+    const logsOf = (client: Client): string[] => {
+      const logs: string[] = [];
+      client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+        logs.push(String(notification.params.data));
+      });
+      return logs;
+    };
+    const first = await connect(new SSEClientTransport(new URL(`${handle.url}/sse`)));
+    const second = await connect(new SSEClientTransport(new URL(`${handle.url}/sse`)));
+    const firstLogs = logsOf(first);
+    const secondLogs = logsOf(second);
+
+    await first.callTool({
+      name: "get_translations",
+      arguments: { basePath: path.join(dir, "A.resx"), key: "Secret" },
+    });
+    // The second session's own messages arrive before its response, so any
+    // message forwarded from the first session would have arrived by then.
+    await second.callTool({
+      name: "get_translations",
+      arguments: { basePath: path.join(dir, "B.resx"), key: "Other" },
+    });
+
+    expect(firstLogs.some((data) => data.includes("'Secret'"))).toBe(true);
+    expect(secondLogs.some((data) => data.includes("'Other'"))).toBe(true);
+    expect(secondLogs.filter((data) => data.includes("Secret"))).toEqual([]);
+    expect(firstLogs.filter((data) => data.includes("Other"))).toEqual([]);
+  });
+
+  it("requires the bearer token when one is configured", async () => {
+    handle = await startHttpServer(createServer, {
+      host: "127.0.0.1",
+      port: 0,
+      authToken: "s3cret",
+    });
+    const post = (headers: Record<string, string>): Promise<Response> =>
+      fetch(`${handle!.url}/mcp`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...headers,
+        },
+        body: JSON.stringify(INITIALIZE),
+      });
+
+    const missing = await post({});
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+    expect((await post({ Authorization: "Bearer wrong" })).status).toBe(401);
+
+    const client = await connect(
+      new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), {
+        requestInit: { headers: { Authorization: "Bearer s3cret" } },
+      }),
+    );
+    expect((await client.listTools()).tools.length).toBeGreaterThan(0);
+  });
+
+  it("rejects requests without a session and unknown sessions", async () => {
+    handle = await startHttpServer(createServer, { host: "127.0.0.1", port: 0 });
+    const headers = {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+    };
+    const listTools = JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+
+    const noSession = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers,
+      body: listTools,
+    });
+    const unknown = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: { ...headers, "Mcp-Session-Id": "nope" },
+      body: listTools,
+    });
+    const invalidJson = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers,
+      body: "{",
+    });
+
+    expect(noSession.status).toBe(400);
+    expect(unknown.status).toBe(404);
+    expect(invalidJson.status).toBe(400);
+    expect(await invalidJson.json()).toMatchObject({ error: { code: -32700 } });
+    expect((await fetch(`${handle.url}/other`)).status).toBe(404);
+  });
+
+  it("refuses foreign Host headers when bound to loopback", async () => {
+    handle = await startHttpServer(createServer, { host: "127.0.0.1", port: 0 });
+    const http = await import("node:http");
+    const { port } = new URL(handle.url);
+
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      http
+        .get(
+          { host: "127.0.0.1", port, path: "/sse", headers: { Host: "evil.example" } },
+          (res) => {
+            res.resume();
+            resolve(res.statusCode);
+          },
+        )
+        .on("error", reject);
+    });
+
+    expect(status).toBe(403);
+  });
+});
@@ -0,0 +1,205 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleImportXliff } from "../src/tools/import-xliff.js";
+import { handleExportXliff } from "../src/tools/export-xliff.js";
+import { createTempDir, crlf, resx, valuesOf } from "./helpers.js";
+
+interface Report {
+  file: string;
+  culture: string;
+  dryRun: boolean;
+  counts: Record<string, number>;
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  skipped: { key: string; reason: string }[];
+  importedWithChangedSource?: string[];
+  diff?: string;
+}
+
+function parse(text: string): Report {
+  return JSON.parse(text) as Report;
+}
+
+/** An XLIFF 1.2 document targeting de-DE with the given [key, source, target] units. */
+function xliff(units: [string, string, string][]): string {
+  const body = units
+    .map(
+      ([id, source, target]) =>
+        `<trans-unit id="${id}"><source>${source}</source><target state="translated">${target}</target></trans-unit>`,
+    )
+    .join("\n");
+  return `<xliff version="1.2"><file source-language="en" target-language="de-DE"><body>\n${body}\n</body></file></xliff>`;
+}
+
+describe("handleImportXliff", () => {
+  let tempDir: string;
+  let basePath: string;
+  let dePath: string;
+  let xliffPath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir("import-xliff", {
+      "Language.resx": resx({ SAVE: "Save", CANCEL: "Cancel", CLOSE: "Close" }),
+      "Language.de-DE.resx": resx({ SAVE: "Speichern", CANCEL: "Abbruch" }),
+    });
+    basePath = path.join(tempDir, "Language.resx");
+    dePath = path.join(tempDir, "Language.de-DE.resx");
+    xliffPath = path.join(tempDir, "Language.de-DE.xlf");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("upserts translated units into the target-language culture file", async () => {
+    await fs.writeFile(
+      xliffPath,
+      xliff([
+        ["SAVE", "Save", "Speichern"],
+        ["CANCEL", "Cancel", "Abbrechen"],
+        ["CLOSE", "Close", "Schließen"],
+      ]),
+    );
+
+    const result = await handleImportXliff({ xliffPath, basePath });
+
+    expect(result.isError).toBeUndefined();
+    const report = parse(result.content[0]!.text);
+    expect(report).toMatchObject({
+      file: "Language.de-DE.resx",
+      culture: "de-DE",
+      dryRun: false,
+      added: ["CLOSE"],
+      updated: ["CANCEL"],
+      unchanged: ["SAVE"],
+      skipped: [],
+    });
+    expect(await valuesOf(dePath)).toEqual({
+      CANCEL: "Abbrechen",
+      CLOSE: "Schließen",
+      SAVE: "Speichern",
+    });
+  });
+
+  it("reports without writing in dry-run mode", async () => {
+    await fs.writeFile(xliffPath, xliff([["CLOSE", "Close", "Schließen"]]));
+    const before = await fs.readFile(dePath, "utf-8");
+
+    const report = parse(
+      (await handleImportXliff({ xliffPath, basePath, dryRun: true })).content[0]!.text,
+    );
+
+    expect(report.dryRun).toBe(true);
+    expect(report.added).toEqual(["CLOSE"]);
+    expect(report.diff).toContain("+    <value>Schließen</value>");
+    expect(await fs.readFile(dePath, "utf-8")).toBe(before);
+  });
+
+  it("reports an unchanged export of CRLF files as unchanged", async () => {
+    await fs.writeFile(basePath, crlf(resx({ SAVE: "Save", NOTE: "line1\nline2" })));
+    await fs.writeFile(dePath, crlf(resx({ SAVE: "Speichern", NOTE: "Zeile1\nZeile2" })));
+    const before = await fs.readFile(dePath, "utf-8");
+    await handleExportXliff({
+      basePath,
+      sourceLanguage: "en",
+      outputDir: tempDir,
+      cultures: ["de-DE"],
+    });
+
+    const report = parse(
+      (await handleImportXliff({ xliffPath, basePath })).content[0]!.text,
+    );
+
+    expect(report.updated).toEqual([]);
+    expect(report.unchanged).toEqual(["SAVE", "NOTE"]);
+    expect(await fs.readFile(dePath, "utf-8")).toBe(before);
+  });
+
+  it("skips untranslated units and keys missing from the default file", async () => {
+    await handleExportXliff({ basePath, sourceLanguage: "en", cultures: ["de-DE"] });
+    const exported = await fs.readFile(xliffPath, "utf-8");
+    await fs.writeFile(
+      xliffPath,
+      exported.replace(
+        "</file>",
+        '<unit id="GONE"><segment><source>x</source><target>y</target></segment></unit></file>',
+      ),
+    );
+
+    const report = parse(
+      (await handleImportXliff({ xliffPath, basePath })).content[0]!.text,
+    );
+
+    expect(report.unchanged).toEqual(["SAVE", "CANCEL"]);
+    expect(report.skipped).toEqual([
+      { key: "CLOSE", reason: "not translated" },
+      { key: "GONE", reason: "key not in the default file" },
+    ]);
+  });
+
+  describe("when the source text changed since export", () => {
+    beforeEach(async () => {
+      await fs.writeFile(xliffPath, xliff([["CANCEL", "Cancel it", "Abbrechen"]]));
+    });
+
+    it("skips the unit by default", async () => {
+      const report = parse(
+        (await handleImportXliff({ xliffPath, basePath })).content[0]!.text,
+      );
+
+      expect(report.skipped).toEqual([
+        { key: "CANCEL", reason: "source text changed since export" },
+      ]);
+      expect((await valuesOf(dePath)).CANCEL).toBe("Abbruch");
+    });
+
+    it("imports it with sourceMismatch 'import'", async () => {
+      const report = parse(
+        (await handleImportXliff({ xliffPath, basePath, sourceMismatch: "import" }))
+          .content[0]!.text,
+      );
+
+      expect(report.updated).toEqual(["CANCEL"]);
+      expect(report.importedWithChangedSource).toEqual(["CANCEL"]);
+    });
+
+    it("fails the whole import with sourceMismatch 'fail'", async () => {
+      const result = await handleImportXliff({
+        xliffPath,
+        basePath,
+        sourceMismatch: "fail",
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]!.text).toContain("Nothing was imported");
+      expect((await valuesOf(dePath)).CANCEL).toBe("Abbruch");
+    });
+  });
+
+  it("returns error when the culture file does not exist", async () => {
+    await fs.writeFile(xliffPath, xliff([["SAVE", "Save", "Enregistrer"]]));
+
+    const result = await handleImportXliff({ xliffPath, basePath, culture: "fr" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("create_culture_file");
+  });
+
+  it("returns error with the position of malformed XLIFF", async () => {
+    await fs.writeFile(xliffPath, "<xliff>\n</xlf>");
+
+    const result = await handleImportXliff({ xliffPath, basePath });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("Unable to read XLIFF file");
+    expect(result.content[0]!.text).toContain("line 2");
+  });
+
+  it("throws for an unknown sourceMismatch policy", async () => {
+    await expect(
+      handleImportXliff({ xliffPath, basePath, sourceMismatch: "ask" }),
+    ).rejects.toThrow("'sourceMismatch' must be one of");
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { buildJsonLocale, flattenJsonLocale } from "../src/utils/json-locale.js";
+
+describe("buildJsonLocale", () => {
+  const entries: [string, string][] = [
+    ["Home.Title", "Home"],
+    ["Home.Intro", "Welcome"],
+    ["Save", "Save"],
+  ];
+
+  it("maps keys to values in the flat format", () => {
+    expect(buildJsonLocale(entries, "flat", ".")).toEqual({
+      "Home.Title": "Home",
+      "Home.Intro": "Welcome",
+      Save: "Save",
+    });
+  });
+
+  it("nests keys by the separator", () => {
+    expect(buildJsonLocale(entries, "nested", ".")).toEqual({
+      Home: { Title: "Home", Intro: "Welcome" },
+      Save: "Save",
+    });
+    expect(buildJsonLocale([["Home_Title", "Home"]], "nested", "_")).toEqual({
+      Home: { Title: "Home" },
+    });
+  });
+
+  it("keeps keys such as __proto__ as plain properties", () => {
+    const json = buildJsonLocale([["__proto__.polluted", "x"]], "nested", ".");
+
+    expect(JSON.stringify(json)).toBe('{"__proto__":{"polluted":"x"}}');
+  });
+
+  it("throws when a key is both a value and a parent", () => {
+    expect(() =>
+      buildJsonLocale(
+        [
+          ["Home", "Home"],
+          ["Home.Title", "Title"],
+        ],
+        "nested",
+        ".",
+      ),
+    ).toThrow("Keys 'Home' and 'Home.Title' conflict");
+    expect(() =>
+      buildJsonLocale(
+        [
+          ["Home.Title", "Title"],
+          ["Home", "Home"],
+        ],
+        "nested",
+        ".",
+      ),
+    ).toThrow("Keys 'Home.Title' and 'Home' conflict");
+  });
+
+  it("throws for keys with empty segments", () => {
+    expect(() => buildJsonLocale([["Home..Title", "x"]], "nested", ".")).toThrow(
+      "empty segment",
+    );
+  });
+});
+
+describe("flattenJsonLocale", () => {
+  it("joins nested keys and reports non-string values", () => {
+    const { values, invalid } = flattenJsonLocale(
+      { Home: { Title: "Home", Count: 3, Tags: ["a"] }, Save: "Save", Empty: null },
+      ".",
+    );
+
+    expect([...values]).toEqual([
+      ["Home.Title", "Home"],
+      ["Save", "Save"],
+    ]);
+    expect(invalid).toEqual(["Home.Count", "Home.Tags", "Empty"]);
+  });
+
+  it("round-trips buildJsonLocale output", () => {
+    const entries: [string, string][] = [
+      ["A.B.C", "1"],
+      ["A.D", "2"],
+    ];
+    const json = buildJsonLocale(entries, "nested", ".");
+
+    expect([...flattenJsonLocale(json, ".").values]).toEqual(entries);
+  });
+
+  it("throws when the document is not an object", () => {
+    expect(() => flattenJsonLocale(["a"], ".")).toThrow("must contain an object");
+  });
+});
@@ -0,0 +1,238 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleExportJson } from "../src/tools/export-json.js";
+import { handleImportJson } from "../src/tools/import-json.js";
+import type { TranslationImportResult } from "../src/types.js";
+import { createTempDir, crlf, resx, valuesOf } from "./helpers.js";
+
+type ImportReport = TranslationImportResult & { ignoredFiles?: string[] };
+
+async function readJson(file: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(file, "utf-8")) as unknown;
+}
+
+describe("JSON export and import", () => {
+  let tempDir: string;
+  let basePath: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir("json", {
+      "Language.resx": resx({
+        "Home.Title": "Home",
+        "Home.Intro": "Welcome",
+        Save: "Save",
+      }),
+      "Language.de-DE.resx": resx({ "Home.Title": "Startseite", Save: "" }),
+    });
+    basePath = path.join(tempDir, "Language.resx");
+    outputDir = path.join(tempDir, "i18n");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe("handleExportJson", () => {
+    it("writes one flat file per variant and omits missing keys", async () => {
+      const result = await handleExportJson({
+        basePath,
+        outputDir,
+        sourceLanguage: "en",
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(JSON.parse(result.content[0]!.text)).toEqual({
+        format: "flat",
+        files: [
+          {
+            culture: "default",
+            file: path.join(outputDir, "en.json"),
+            keys: 3,
+            missing: 0,
+          },
+          {
+            culture: "de-DE",
+            file: path.join(outputDir, "de-DE.json"),
+            keys: 1,
+            missing: 2,
+          },
+        ],
+      });
+      expect(await readJson(path.join(outputDir, "de-DE.json"))).toEqual({
+        "Home.Title": "Startseite",
+      });
+    });
+
+    it("nests keys and falls back to default values", async () => {
+      await handleExportJson({ basePath, outputDir, format: "nested", fallback: true });
+
+      expect(await readJson(path.join(outputDir, "de-DE.json"))).toEqual({
+        Home: { Title: "Startseite", Intro: "Welcome" },
+        Save: "Save",
+      });
+      expect(await readJson(path.join(outputDir, "default.json"))).toEqual({
+        Home: { Title: "Home", Intro: "Welcome" },
+        Save: "Save",
+      });
+    });
+
+    it("writes nothing when keys conflict in the nested format", async () => {
+      await fs.writeFile(basePath, resx({ Home: "Home", "Home.Title": "Title" }));
+
+      await expect(
+        handleExportJson({ basePath, outputDir, format: "nested" }),
+      ).rejects.toThrow("conflict");
+      await expect(fs.access(outputDir)).rejects.toThrow();
+    });
+
+    it("previews each file as a diff against the disk in dry-run mode", async () => {
+      await handleExportJson({ basePath, outputDir });
+      await fs.rm(path.join(outputDir, "default.json"));
+      await fs.writeFile(
+        path.join(tempDir, "Language.de-DE.resx"),
+        resx({ "Home.Title": "Start", Save: "" }),
+      );
+      const before = await readJson(path.join(outputDir, "de-DE.json"));
+
+      const result = await handleExportJson({ basePath, outputDir, dryRun: true });
+      const report = JSON.parse(result.content[0]!.text) as {
+        dryRun: boolean;
+        files: { culture: string; diff: string }[];
+      };
+
+      expect(report.dryRun).toBe(true);
+      expect(report.files.map((f) => f.culture)).toEqual(["default", "de-DE"]);
+      expect(report.files[0]!.diff).toContain("--- /dev/null\n+++ b/default.json\n");
+      expect(report.files[1]!.diff).toContain(
+        '-  "Home.Title": "Startseite"\n+  "Home.Title": "Start"\n',
+      );
+      await expect(fs.access(path.join(outputDir, "default.json"))).rejects.toThrow();
+      expect(await readJson(path.join(outputDir, "de-DE.json"))).toEqual(before);
+    });
+
+    it("throws for an unsupported format", async () => {
+      await expect(
+        handleExportJson({ basePath, outputDir, format: "yaml" }),
+      ).rejects.toThrow("'format' must be one of: flat, nested");
+    });
+  });
+
+  describe("handleImportJson", () => {
+    it("round-trips an edited nested export", async () => {
+      await handleExportJson({
+        basePath,
+        outputDir,
+        format: "nested",
+        sourceLanguage: "en",
+      });
+      await fs.writeFile(
+        path.join(outputDir, "de-DE.json"),
+        JSON.stringify({ Home: { Title: "Start", Intro: "Willkommen" }, Save: "" }),
+      );
+
+      const result = await handleImportJson({
+        basePath,
+        inputDir: outputDir,
+        sourceLanguage: "en",
+      });
+
+      expect(result.isError).toBeUndefined();
+      const report = JSON.parse(result.content[0]!.text) as ImportReport;
+      expect(report.files).toEqual([
+        { file: "Language.de-DE.resx", culture: "de-DE", added: 1, updated: 1 },
+      ]);
+      expect(await valuesOf(path.join(tempDir, "Language.de-DE.resx"))).toEqual({
+        "Home.Intro": "Willkommen",
+        "Home.Title": "Start",
+        Save: "",
+      });
+    });
+
+    it("reports an unchanged export of CRLF files as unchanged", async () => {
+      const dePath = path.join(tempDir, "Language.de-DE.resx");
+      await fs.writeFile(basePath, crlf(resx({ Intro: "line1\nline2" })));
+      await fs.writeFile(dePath, crlf(resx({ Intro: "Zeile1\nZeile2" })));
+      const before = await fs.readFile(dePath, "utf-8");
+      await handleExportJson({ basePath, outputDir });
+
+      const result = await handleImportJson({ basePath, inputDir: outputDir });
+
+      const report = JSON.parse(result.content[0]!.text) as ImportReport;
+      expect(report.files).toEqual([]);
+      expect(report.changes).toEqual([]);
+      expect(await fs.readFile(dePath, "utf-8")).toBe(before);
+    });
+
+    it("skips fallback values unless asked not to", async () => {
+      await handleExportJson({ basePath, outputDir, fallback: true });
+
+      const skipped = JSON.parse(
+        (await handleImportJson({ basePath, inputDir: outputDir, dryRun: true }))
+          .content[0]!.text,
+      ) as ImportReport;
+      expect(skipped.changes).toEqual([]);
+      expect(skipped.skipped).toEqual([
+        {
+          culture: "de-DE",
+          key: "Home.Intro",
+          reason: "same as the default value (fallback)",
+        },
+        { culture: "de-DE", key: "Save", reason: "same as the default value (fallback)" },
+      ]);
+
+      const imported = JSON.parse(
+        (
+          await handleImportJson({
+            basePath,
+            inputDir: outputDir,
+            dryRun: true,
+            skipFallbacks: false,
+          })
+        ).content[0]!.text,
+      ) as ImportReport;
+      expect(imported.changes.map((c) => c.key)).toEqual(["Home.Intro", "Save"]);
+    });
+
+    it("reports non-string values and ignores unrelated files", async () => {
+      await fs.mkdir(outputDir);
+      await fs.writeFile(
+        path.join(outputDir, "de-DE.json"),
+        JSON.stringify({ Save: "Speichern", Count: 2 }),
+      );
+      await fs.writeFile(path.join(outputDir, "manifest.json"), "{}");
+
+      const report = JSON.parse(
+        (await handleImportJson({ basePath, inputDir: outputDir })).content[0]!.text,
+      ) as ImportReport;
+
+      expect(report.skipped).toEqual([
+        { culture: "de-DE", key: "Count", reason: "value is not a string" },
+      ]);
+      expect(report.ignoredFiles).toEqual(["manifest.json"]);
+      expect((await valuesOf(path.join(tempDir, "Language.de-DE.resx"))).Save).toBe(
+        "Speichern",
+      );
+    });
+
+    it("returns error for invalid JSON", async () => {
+      await fs.mkdir(outputDir);
+      await fs.writeFile(path.join(outputDir, "de-DE.json"), "{ not json");
+
+      const result = await handleImportJson({ basePath, inputDir: outputDir });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]!.text).toContain("Unable to read JSON file");
+    });
+
+    it("returns error when no locale files are found", async () => {
+      await fs.mkdir(outputDir);
+
+      const result = await handleImportJson({ basePath, inputDir: outputDir });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]!.text).toContain("No JSON locale files found");
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleLintResx } from "../src/tools/lint-resx.js";
+import { createTempDir, resx } from "./helpers.js";
+
+interface Report {
+  files: {
+    file: string;
+    culture?: string;
+    errors: number;
+    warnings: number;
+    issues: { severity: string; code: string; key?: string; line?: number }[];
+  }[];
+  totals: { errors: number; warnings: number };
+}
+
+function parse(text: string): Report {
+  return JSON.parse(text) as Report;
+}
+
+describe("handleLintResx", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir("lint", {
+      "Language.resx": resx({ A: "a", B: "b" }),
+      "Language.de-DE.resx": resx({ A: "a", B: "b" }).replace(
+        "</root>",
+        '  <data name="A" xml:space="preserve">\n    <value>again</value>\n  </data>\n</root>',
+      ),
+      "Language.fr-FR.resx": "<root>\n  <data name='A'>\n</root>",
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("lints a single file", async () => {
+    const result = await handleLintResx({
+      filePath: path.join(tempDir, "Language.de-DE.resx"),
+    });
+
+    expect(result.isError).toBeUndefined();
+    const report = parse(result.content[0]!.text);
+    expect(report.files).toHaveLength(1);
+    expect(report.files[0]!.file).toBe("Language.de-DE.resx");
+    expect(report.files[0]!.issues.find((i) => i.code === "duplicate_key")).toMatchObject(
+      { key: "A", line: 9 },
+    );
+    expect(report.totals.errors).toBe(1);
+  });
+
+  it("lints every variant with allVariants", async () => {
+    const result = await handleLintResx({
+      basePath: path.join(tempDir, "Language.resx"),
+      allVariants: true,
+    });
+
+    const report = parse(result.content[0]!.text);
+    expect(report.files.map((f) => [f.culture, f.errors])).toEqual([
+      ["de-DE", 1],
+      ["fr-FR", 1],
+      ["default", 0],
+    ]);
+    expect(report.files[1]!.issues[0]).toMatchObject({ code: "parse_error", line: 3 });
+    expect(report.totals.errors).toBe(2);
+  });
+
+  it("returns error when the file cannot be read", async () => {
+    const result = await handleLintResx({ filePath: path.join(tempDir, "Missing.resx") });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("Unable to read file");
+  });
+
+  it("throws when basePath is missing with allVariants", async () => {
+    await expect(handleLintResx({ allVariants: true })).rejects.toThrow("basePath");
+  });
+});
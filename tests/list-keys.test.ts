@@ -0,0 +1,134 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect } from "vitest";
+import { handleListKeys } from "../src/tools/list-keys.js";
+import { setDefaultSortMode } from "../src/utils/sort.js";
+import { createTempDir, resx } from "./helpers.js";
+
+const FIXTURES_DIR = path.resolve(import.meta.dirname, "fixtures");
+const BASE_PATH = path.join(FIXTURES_DIR, "Language.resx");
+
+interface ListResult {
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+  keys?: string[];
+  entries?: { key: string; value: string; resource?: { kind: string } }[];
+}
+
+function parse(text: string): ListResult {
+  return JSON.parse(text) as ListResult;
+}
+
+describe("handleListKeys", () => {
+  it("lists every key in sorted order", async () => {
+    const result = await handleListKeys({ filePath: BASE_PATH });
+
+    expect(result.isError).toBeUndefined();
+    const list = parse(result.content[0]!.text);
+    expect(list.keys).toEqual(["BUTTON_CANCEL", "BUTTON_SAVE", "TITLE_HOME"]);
+    expect(list.total).toBe(3);
+    expect(list.hasMore).toBe(false);
+  });
+
+  it("orders keys by the server's default sort mode", async () => {
+    const dir = await createTempDir("list-keys", {
+      "Language.resx": resx({ b: "", A: "", C: "" }),
+    });
+    const keysIn = async (): Promise<string[] | undefined> =>
+      parse(
+        (await handleListKeys({ filePath: path.join(dir, "Language.resx") })).content[0]!
+          .text,
+      ).keys;
+    try {
+      expect(await keysIn()).toEqual(["A", "b", "C"]);
+      setDefaultSortMode("ordinal");
+      expect(await keysIn()).toEqual(["A", "C", "b"]);
+      setDefaultSortMode("preserve");
+      expect(await keysIn()).toEqual(["b", "A", "C"]);
+    } finally {
+      setDefaultSortMode("alphabetical");
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("filters by prefix", async () => {
+    const result = await handleListKeys({ filePath: BASE_PATH, prefix: "BUTTON_" });
+    expect(parse(result.content[0]!.text).keys).toEqual(["BUTTON_CANCEL", "BUTTON_SAVE"]);
+  });
+
+  it("filters by regular expression", async () => {
+    const result = await handleListKeys({ filePath: BASE_PATH, regex: "_(SAVE|HOME)$" });
+    expect(parse(result.content[0]!.text).keys).toEqual(["BUTTON_SAVE", "TITLE_HOME"]);
+  });
+
+  it("pages with offset and limit and reports the filtered total", async () => {
+    const result = await handleListKeys({ filePath: BASE_PATH, offset: 1, limit: 1 });
+
+    const list = parse(result.content[0]!.text);
+    expect(list.keys).toEqual(["BUTTON_SAVE"]);
+    expect(list.total).toBe(3);
+    expect(list.hasMore).toBe(true);
+  });
+
+  it("returns values when includeValues is true", async () => {
+    const result = await handleListKeys({
+      filePath: BASE_PATH,
+      prefix: "TITLE",
+      includeValues: true,
+    });
+
+    const list = parse(result.content[0]!.text);
+    expect(list.keys).toBeUndefined();
+    expect(list.entries).toEqual([{ key: "TITLE_HOME", value: "Strona główna" }]);
+  });
+
+  it("returns error for non-existent file", async () => {
+    const result = await handleListKeys({
+      filePath: path.join(FIXTURES_DIR, "NonExistent.resx"),
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("Unable to read file");
+  });
+
+  it("throws for an invalid regular expression", async () => {
+    await expect(handleListKeys({ filePath: BASE_PATH, regex: "(" })).rejects.toThrow(
+      "not a valid regular expression",
+    );
+  });
+
+  it("throws for an out-of-range limit", async () => {
+    await expect(handleListKeys({ filePath: BASE_PATH, limit: 0 })).rejects.toThrow(
+      "'limit' must be an integer",
+    );
+  });
+
+  it("shows non-string resources as placeholders with their details", async () => {
+    const result = await handleListKeys({
+      filePath: path.join(FIXTURES_DIR, "Resources.resx"),
+      includeValues: true,
+    });
+
+    const list = parse(result.content[0]!.text);
+    expect(list.entries).toEqual([
+      {
+        key: "AppIcon",
+        value: "[file: Resources\\AppIcon.ico]",
+        resource: expect.objectContaining({ kind: "file" }) as unknown,
+      },
+      {
+        key: "Logo",
+        value: "[binary: System.Drawing.Bitmap, System.Drawing, 70 bytes]",
+        resource: expect.objectContaining({ kind: "binary", bytes: 70 }) as unknown,
+      },
+      {
+        key: "MaxItems",
+        value: "25",
+        resource: { kind: "typed", type: "System.Int32, mscorlib" },
+      },
+      { key: "Title", value: "Orders" },
+    ]);
+  });
+});
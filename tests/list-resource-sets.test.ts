@@ -0,0 +1,88 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { handleListResourceSets } from "../src/tools/list-resource-sets.js";
+import { createTempDir, resx } from "./helpers.js";
+
+interface ListResult {
+  totalSets: number;
+  cultures: string[];
+  resourceSets: {
+    basePath: string;
+    keyCount: number | null;
+    variants: { culture: string; file: string; keyCount: number | null }[];
+    missingCultures: string[];
+  }[];
+}
+
+describe("handleListResourceSets", () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await createTempDir("sets");
+    const write = async (file: string, content: string): Promise<void> => {
+      await fs.mkdir(path.dirname(path.join(tempDir, file)), { recursive: true });
+      await fs.writeFile(path.join(tempDir, file), content, "utf-8");
+    };
+
+    await write("Translations/Language.resx", resx({ A: "a", B: "b" }));
+    await write("Translations/Language.en-US.resx", resx({ A: "a", B: "b" }));
+    await write("Translations/Language.de-DE.resx", resx({ A: "a" }));
+    await write("Orders/Orders.resx", resx({ ORDER: "o" }));
+    await write("Orders/Orders.en-US.resx", resx({ ORDER: "o" }));
+    await write("Orders/obj/Orders.resx", resx({ ORDER: "o" }));
+    await write("Generated/Auto.resx", resx({ X: "x" }));
+    await write(".gitignore", "# build output\nGenerated/\n");
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("lists resource sets with variants, key counts and missing cultures", async () => {
+    const result = await handleListResourceSets({ rootDir: tempDir });
+
+    expect(result.isError).toBeUndefined();
+    const list = JSON.parse(result.content[0]!.text) as ListResult;
+
+    expect(list.totalSets).toBe(2);
+    expect(list.cultures).toEqual(["de-DE", "en-US"]);
+
+    const language = list.resourceSets.find(
+      (s) => s.basePath === "Translations/Language.resx",
+    )!;
+    expect(language.keyCount).toBe(2);
+    expect(language.variants).toEqual([
+      { culture: "de-DE", file: "Translations/Language.de-DE.resx", keyCount: 1 },
+      { culture: "en-US", file: "Translations/Language.en-US.resx", keyCount: 2 },
+    ]);
+    expect(language.missingCultures).toEqual([]);
+
+    const orders = list.resourceSets.find((s) => s.basePath === "Orders/Orders.resx")!;
+    expect(orders.missingCultures).toEqual(["de-DE"]);
+  });
+
+  it("skips obj/ and .gitignore'd directories", async () => {
+    const result = await handleListResourceSets({ rootDir: tempDir });
+    const list = JSON.parse(result.content[0]!.text) as ListResult;
+
+    const bases = list.resourceSets.map((s) => s.basePath);
+    expect(bases).not.toContain("Orders/obj/Orders.resx");
+    expect(bases).not.toContain("Generated/Auto.resx");
+  });
+
+  it("returns error when no .resx files exist", async () => {
+    const empty = await createTempDir("sets-empty");
+    try {
+      const result = await handleListResourceSets({ rootDir: empty });
+      expect(result.isError).toBe(true);
+      expect(result.content[0]!.text).toContain("No .resx files found");
+    } finally {
+      await fs.rm(empty, { recursive: true, force: true });
+    }
+  });
+
+  it("throws for missing rootDir", async () => {
+    await expect(handleListResourceSets({})).rejects.toThrow("non-empty string");
+  });
+});
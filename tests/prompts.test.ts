@@ -0,0 +1,167 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { setConfiguredRoots } from "../src/utils/roots.js";
+import { createServer } from "../src/server.js";
+import { createTempDir, resx } from "./helpers.js";
+
+describe("MCP prompts", () => {
+  let tempDir: string;
+  let basePath: string;
+  let client: Client;
+
+  async function promptText(name: string, args: Record<string, string>): Promise<string> {
+    const result = await client.getPrompt({ name, arguments: args });
+    const message = result.messages[0];
+    expect(result.messages).toHaveLength(1);
+    expect(message?.role).toBe("user");
+    return message?.content.type === "text" ? message.content.text : "";
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.realpath(
+      await createTempDir("prompts", {
+        "Language.resx": resx({
+          BUTTON_SAVE: "Save",
+          BUTTON_CANCEL: "Cancel",
+          GREETING: "Hello {0}",
+        }).replace(
+          "</root>",
+          '  <data name="TITLE" xml:space="preserve">\n    <value>Orders</value>\n' +
+            "    <comment>Page title</comment>\n  </data>\n</root>",
+        ),
+        "Language.de-DE.resx": resx({ BUTTON_SAVE: "Speichern", GREETING: "" }),
+        "Language.fr-FR.resx": resx({
+          BUTTON_CANCEL: "Annuler",
+          GREETING: "Bonjour {0}",
+        }),
+      }),
+    );
+    basePath = path.join(tempDir, "Language.resx");
+
+    const server = createServer();
+    client = new Client({ name: "test", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setConfiguredRoots([]);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("lists the prompts with their arguments", async () => {
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((p) => p.name)).toEqual([
+      "translate_missing",
+      "review_culture",
+      "add_feature_strings",
+    ]);
+    expect(prompts[0]?.arguments).toEqual([
+      expect.objectContaining({ name: "basePath", required: true }),
+      expect.objectContaining({ name: "culture", required: true }),
+      expect.objectContaining({ name: "instructions" }),
+    ]);
+  });
+
+  describe("translate_missing", () => {
+    it("embeds the missing and empty keys with comments and other translations", async () => {
+      const text = await promptText("translate_missing", {
+        basePath,
+        culture: "de-DE",
+        instructions: "Use the informal du.",
+      });
+
+      expect(text).toContain("into de-DE (German (Germany))");
+      expect(text).toContain("- Use the informal du.");
+      expect(text).toContain('"key": "BUTTON_CANCEL"');
+      expect(text).toContain('"fr-FR": "Annuler"');
+      expect(text).toContain('"key": "GREETING"');
+      expect(text).toContain('"comment": "Page title"');
+      expect(text).not.toContain('"key": "BUTTON_SAVE"');
+      expect(text).toContain(`basePath "${basePath}"`);
+      expect(text).toContain('{ "de-DE": value }');
+    });
+
+    it("says so when nothing is missing", async () => {
+      await fs.writeFile(
+        path.join(tempDir, "Language.de-DE.resx"),
+        resx({ BUTTON_SAVE: "S", BUTTON_CANCEL: "A", GREETING: "Hallo {0}", TITLE: "T" }),
+      );
+
+      const text = await promptText("translate_missing", { basePath, culture: "de-DE" });
+
+      expect(text).toContain("there is nothing to translate");
+    });
+
+    it("rejects cultures without a file", async () => {
+      await expect(
+        client.getPrompt({
+          name: "translate_missing",
+          arguments: { basePath, culture: "pl-PL" },
+        }),
+      ).rejects.toThrow("No .resx file for culture 'pl-PL'");
+    });
+  });
+
+  describe("review_culture", () => {
+    it("embeds every key with its translation and the focus", async () => {
+      const text = await promptText("review_culture", {
+        basePath,
+        culture: "de-DE",
+        focus: "tone",
+      });
+
+      expect(text).toContain("Pay particular attention to: tone");
+      expect(text).toContain('"translation": "Speichern"');
+      expect(text).toMatch(
+        /"key": "GREETING",\s+"default": "Hello \{0\}",\s+"translation": null/,
+      );
+      expect(text).toContain('"key": "BUTTON_CANCEL"');
+    });
+  });
+
+  describe("add_feature_strings", () => {
+    it("lists the cultures and existing keys with the prefix", async () => {
+      const text = await promptText("add_feature_strings", {
+        basePath,
+        feature: "A dialog to export orders as CSV",
+        keyPrefix: "BUTTON_",
+      });
+
+      expect(text).toContain("A dialog to export orders as CSV");
+      expect(text).toContain('Start every new key with "BUTTON_"');
+      expect(text).toContain("every culture: de-DE, fr-FR");
+      expect(text).toContain('"key": "BUTTON_SAVE"');
+      expect(text).not.toContain('"key": "TITLE"');
+    });
+  });
+
+  it("reports invalid arguments", async () => {
+    await expect(
+      client.getPrompt({
+        name: "review_culture",
+        arguments: { basePath, culture: "xx_YY" },
+      }),
+    ).rejects.toThrow("Parameter 'culture' must be a culture name");
+    await expect(
+      client.getPrompt({ name: "review_culture", arguments: { culture: "de-DE" } }),
+    ).rejects.toThrow("Parameter 'basePath' is required");
+  });
+
+  it("refuses resource sets outside the allowed roots", async () => {
+    setConfiguredRoots([path.join(tempDir, "elsewhere")]);
+
+    await expect(
+      client.getPrompt({
+        name: "review_culture",
+        arguments: { basePath, culture: "de-DE" },
+      }),
+    ).rejects.toThrow("outside the allowed roots");
+  });
+});
@@ -0,0 +1,187 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { handleRenameTranslationKey } from "../src/tools/rename-translation-key.js";
+import * as resxModule from "../src/utils/resx.js";
+import { createTempDir, keysOf, resx } from "./helpers.js";
+
+vi.mock("../src/utils/resx.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/utils/resx.js")>();
+  return {
+    ...actual,
+    writeResxFile: vi.fn(actual.writeResxFile),
+    restoreResxFile: vi.fn(actual.restoreResxFile),
+  };
+});
+
+let tempDir: string;
+let basePath: string;
+
+describe("handleRenameTranslationKey", () => {
+  beforeEach(async () => {
+    tempDir = await createTempDir("rename", {
+      "Language.resx": resx({ BUTTON_SAVE: "Zapisz", OTHER: "Inne" }),
+      "Language.en-US.resx": resx({ BUTTON_SAVE: "Save", OTHER: "Other" }),
+      "Language.de-DE.resx": resx({ OTHER: "Andere" }),
+    });
+    basePath = path.join(tempDir, "Language.resx");
+  });
+
+  afterEach(async () => {
+    vi.mocked(resxModule.writeResxFile).mockClear();
+    vi.mocked(resxModule.restoreResxFile).mockClear();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("renames the key in every variant that contains it", async () => {
+    const result = await handleRenameTranslationKey({
+      basePath,
+      oldKey: "BUTTON_SAVE",
+      newKey: "ACTION_SAVE",
+    });
+
+    expect(result.isError).toBeUndefined();
+    const report = JSON.parse(result.content[0]!.text) as {
+      results: { language: string; action: string }[];
+    };
+    expect(Object.fromEntries(report.results.map((r) => [r.language, r.action]))).toEqual(
+      {
+        default: "renamed",
+        "en-US": "renamed",
+        "de-DE": "not_found",
+      },
+    );
+
+    expect(await keysOf(basePath)).toEqual(["ACTION_SAVE", "OTHER"]);
+    expect(await keysOf(path.join(tempDir, "Language.en-US.resx"))).toEqual([
+      "ACTION_SAVE",
+      "OTHER",
+    ]);
+    expect(await keysOf(path.join(tempDir, "Language.de-DE.resx"))).toEqual(["OTHER"]);
+  });
+
+  it("rejects the rename when the new key already exists in any file", async () => {
+    await fs.writeFile(
+      path.join(tempDir, "Language.de-DE.resx"),
+      resx({ ACTION_SAVE: "Speichern" }),
+    );
+
+    const result = await handleRenameTranslationKey({
+      basePath,
+      oldKey: "BUTTON_SAVE",
+      newKey: "ACTION_SAVE",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("Language.de-DE.resx");
+    expect(await keysOf(basePath)).toEqual(["BUTTON_SAVE", "OTHER"]);
+    expect(resxModule.writeResxFile).not.toHaveBeenCalled();
+  });
+
+  it("returns error when the old key does not exist anywhere", async () => {
+    const result = await handleRenameTranslationKey({
+      basePath,
+      oldKey: "MISSING",
+      newKey: "ANYTHING",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("was not found");
+  });
+
+  it("rolls back every file when a write fails", async () => {
+    const originals = await Promise.all(
+      ["Language.resx", "Language.en-US.resx"].map((f) =>
+        fs.readFile(path.join(tempDir, f), "utf-8"),
+      ),
+    );
+
+    const actual = vi.mocked(resxModule.writeResxFile).getMockImplementation()!;
+    vi.mocked(resxModule.writeResxFile)
+      .mockImplementationOnce(actual)
+      .mockRejectedValueOnce(new Error("disk full"));
+    const notified: string[] = [];
+    const stop = resxModule.onResxFileWritten((file) => notified.push(file));
+
+    try {
+      await expect(
+        handleRenameTranslationKey({
+          basePath,
+          oldKey: "BUTTON_SAVE",
+          newKey: "ACTION_SAVE",
+        }),
+      ).rejects.toThrow("disk full");
+    } finally {
+      stop();
+    }
+
+    const after = await Promise.all(
+      ["Language.resx", "Language.en-US.resx"].map((f) =>
+        fs.readFile(path.join(tempDir, f), "utf-8"),
+      ),
+    );
+    expect(after).toEqual(originals);
+    // Written once, then restored: listeners hear about both.
+    const enPath = path.resolve(tempDir, "Language.en-US.resx");
+    expect(notified.filter((file) => file === enPath)).toHaveLength(2);
+  });
+
+  it("keeps restoring the other files when one restore fails", async () => {
+    const original = await fs.readFile(basePath, "utf-8");
+
+    const actual = vi.mocked(resxModule.writeResxFile).getMockImplementation()!;
+    vi.mocked(resxModule.writeResxFile)
+      .mockImplementationOnce(actual)
+      .mockImplementationOnce(async (...args) => {
+        await actual(...args);
+        throw new Error("disk full");
+      });
+    vi.mocked(resxModule.restoreResxFile).mockRejectedValueOnce(
+      new Error("permission denied"),
+    );
+
+    await expect(
+      handleRenameTranslationKey({
+        basePath,
+        oldKey: "BUTTON_SAVE",
+        newKey: "ACTION_SAVE",
+      }),
+    ).rejects.toThrow("disk full");
+
+    expect(resxModule.restoreResxFile).toHaveBeenCalledTimes(2);
+    expect(await fs.readFile(basePath, "utf-8")).toBe(original);
+  });
+
+  it("throws when oldKey and newKey are identical", async () => {
+    await expect(
+      handleRenameTranslationKey({ basePath, oldKey: "X", newKey: "X" }),
+    ).rejects.toThrow("must be different");
+  });
+
+  it("throws for missing newKey", async () => {
+    await expect(handleRenameTranslationKey({ basePath, oldKey: "X" })).rejects.toThrow(
+      "non-empty string",
+    );
+  });
+
+  it("previews the rename per file without writing in dry-run mode", async () => {
+    const result = await handleRenameTranslationKey({
+      basePath,
+      oldKey: "BUTTON_SAVE",
+      newKey: "ACTION_SAVE",
+      dryRun: true,
+    });
+
+    const report = JSON.parse(result.content[0]!.text) as {
+      dryRun: boolean;
+      results: { language: string; action: string; diff?: string }[];
+    };
+    expect(report.dryRun).toBe(true);
+    const en = report.results.find((r) => r.language === "en-US");
+    expect(en?.diff).toContain('-  <data name="BUTTON_SAVE" xml:space="preserve">');
+    expect(en?.diff).toContain('+  <data name="ACTION_SAVE" xml:space="preserve">');
+    expect(report.results.find((r) => r.language === "de-DE")?.diff).toBeUndefined();
+    expect(resxModule.writeResxFile).not.toHaveBeenCalled();
+    expect(await keysOf(basePath)).toEqual(["BUTTON_SAVE", "OTHER"]);
+  });
+});
@@ -0,0 +1,53 @@
+import * as path from "node:path";
+import { describe, it, expect } from "vitest";
+import {
+  loadResourceSet,
+  getDataEntries,
+  isEmptyValue,
+  indexEntries,
+} from "../src/utils/resource-set.js";
+import type { ResxDataEntry } from "../src/types.js";
+
+const FIXTURES_DIR = path.resolve(import.meta.dirname, "fixtures");
+
+describe("loadResourceSet", () => {
+  it("returns the default variant first, then cultures alphabetically", async () => {
+    const variants = await loadResourceSet(path.join(FIXTURES_DIR, "Language.resx"));
+    expect(variants.map((v) => v.language)).toEqual(["default", "de-DE", "en-US"]);
+    expect(variants.every((v) => v.parsed !== null)).toBe(true);
+  });
+
+  it("exposes data entries of each variant", async () => {
+    const [defaultVariant] = await loadResourceSet(
+      path.join(FIXTURES_DIR, "Language.resx"),
+    );
+    expect(getDataEntries(defaultVariant!)).toHaveLength(3);
+  });
+});
+
+describe("getDataEntries", () => {
+  it("returns an empty array for unreadable variants", () => {
+    expect(getDataEntries({ file: "X.resx", language: "default", parsed: null })).toEqual(
+      [],
+    );
+  });
+});
+
+describe("isEmptyValue", () => {
+  it("treats missing, empty and whitespace-only values as empty", () => {
+    expect(isEmptyValue({ $: { name: "A" } })).toBe(true);
+    expect(isEmptyValue({ $: { name: "A" }, value: [""] })).toBe(true);
+    expect(isEmptyValue({ $: { name: "A" }, value: ["  "] })).toBe(true);
+    expect(isEmptyValue({ $: { name: "A" }, value: ["x"] })).toBe(false);
+  });
+});
+
+describe("indexEntries", () => {
+  it("keeps the first occurrence of duplicated keys", () => {
+    const entries: ResxDataEntry[] = [
+      { $: { name: "A" }, value: ["first"] },
+      { $: { name: "A" }, value: ["second"] },
+    ];
+    expect(indexEntries(entries).get("A")!.value).toEqual(["first"]);
+  });
+});
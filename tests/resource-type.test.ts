@@ -0,0 +1,67 @@
+import * as path from "node:path";
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+  getResourceInfo,
+  isTextResource,
+  formatEntryValue,
+} from "../src/utils/resource-type.js";
+import { parseResxFile, findEntry } from "../src/utils/resx.js";
+import type { ResxDataEntry } from "../src/types.js";
+
+const RESOURCES_PATH = path.resolve(import.meta.dirname, "fixtures", "Resources.resx");
+
+describe("resource types", () => {
+  let entries: ResxDataEntry[];
+  const entry = (key: string): ResxDataEntry => findEntry(entries, key)!;
+
+  beforeAll(async () => {
+    const parsed = await parseResxFile(RESOURCES_PATH);
+    entries = parsed!.document.root.data!;
+  });
+
+  it("treats entries without a type as plain strings", () => {
+    expect(getResourceInfo(entry("Title"))).toBeNull();
+    expect(isTextResource(entry("Title"))).toBe(true);
+    expect(formatEntryValue(entry("Title"))).toBe("Orders");
+  });
+
+  it("treats an explicit System.String type as a plain string", () => {
+    const typed: ResxDataEntry = {
+      $: { name: "S", type: "System.String, mscorlib" },
+      value: ["text"],
+    };
+    expect(getResourceInfo(typed)).toBeNull();
+  });
+
+  it("describes file references by path and content type", () => {
+    expect(getResourceInfo(entry("AppIcon"))).toEqual({
+      kind: "file",
+      file: "Resources\\AppIcon.ico",
+      type: expect.stringContaining("System.Drawing.Icon") as string,
+    });
+    expect(formatEntryValue(entry("AppIcon"))).toBe("[file: Resources\\AppIcon.ico]");
+    expect(isTextResource(entry("AppIcon"))).toBe(false);
+  });
+
+  it("describes binary payloads without exposing the base64 data", () => {
+    expect(getResourceInfo(entry("Logo"))).toEqual({
+      kind: "binary",
+      type: "System.Drawing.Bitmap, System.Drawing",
+      mimetype: "application/x-microsoft.net.object.bytearray.base64",
+      bytes: 70,
+    });
+    expect(formatEntryValue(entry("Logo"))).toBe(
+      "[binary: System.Drawing.Bitmap, System.Drawing, 70 bytes]",
+    );
+    expect(isTextResource(entry("Logo"))).toBe(false);
+  });
+
+  it("reports typed values with their text", () => {
+    expect(getResourceInfo(entry("MaxItems"))).toEqual({
+      kind: "typed",
+      type: "System.Int32, mscorlib",
+    });
+    expect(formatEntryValue(entry("MaxItems"))).toBe("25");
+    expect(isTextResource(entry("MaxItems"))).toBe(true);
+  });
+});
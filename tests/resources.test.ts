@@ -0,0 +1,257 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { pathToFileURL } from "node:url";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ListRootsRequestSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { buildResxUri, parseResxUri } from "../src/resources.js";
+import { setConfiguredRoots } from "../src/utils/roots.js";
+import { createServer } from "../src/server.js";
+import { createTempDir, resx } from "./helpers.js";
+
+describe("resx resource URIs", () => {
+  it("round-trips a resource set, culture and key", () => {
+    const basePath = path.resolve("/repo/My Strings/Language.resx");
+    const uri = buildResxUri(basePath, "de-DE", "A/B key");
+
+    expect(uri).toContain("My%20Strings");
+    expect(uri).toContain("A%2FB%20key");
+    expect(parseResxUri(uri)).toEqual({ basePath, culture: "de-DE", key: "A/B key" });
+    expect(parseResxUri(buildResxUri(basePath))).toEqual({ basePath });
+  });
+
+  it("does not mistake a key ending in .resx for the base file", () => {
+    const basePath = path.resolve("/repo/Language.resx");
+    expect(parseResxUri(buildResxUri(basePath, "default", "Other.resx"))).toEqual({
+      basePath,
+      culture: "default",
+      key: "Other.resx",
+    });
+  });
+
+  it("rejects other schemes, missing base files and invalid cultures", () => {
+    expect(parseResxUri("file:///repo/Language.resx")).toBeNull();
+    expect(parseResxUri("resx:///repo/Language")).toBeNull();
+    expect(parseResxUri("resx:///repo/Language.resx/not_a_culture")).toBeNull();
+    expect(parseResxUri("resx:///repo/Language.resx/de/A/extra")).toBeNull();
+  });
+});
+
+describe("MCP resources", () => {
+  let tempDir: string;
+  let basePath: string;
+  let client: Client;
+
+  async function connect(roots?: string[]): Promise<Client> {
+    const server = createServer();
+    const connected = new Client(
+      { name: "test", version: "1.0.0" },
+      roots ? { capabilities: { roots: {} } } : {},
+    );
+    if (roots) {
+      connected.setRequestHandler(ListRootsRequestSchema, () => ({
+        roots: roots.map((root) => ({ uri: pathToFileURL(root).href })),
+      }));
+    }
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await connected.connect(clientTransport);
+    return connected;
+  }
+
+  async function readJson(uri: string): Promise<unknown> {
+    const result = await client.readResource({ uri });
+    const content = result.contents[0];
+    return JSON.parse(content && "text" in content ? content.text : "") as unknown;
+  }
+
+  function collectUpdates(): string[] {
+    const updates: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updates.push(notification.params.uri);
+    });
+    return updates;
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.realpath(
+      await createTempDir("resources", {
+        "Language.resx": resx({ A: "Hello" }).replace(
+          "</root>",
+          '  <data name="B" xml:space="preserve">\n    <value>Bye</value>\n' +
+            "    <comment>Farewell</comment>\n  </data>\n</root>",
+        ),
+        "Language.de-DE.resx": resx({ A: "Hallo" }),
+      }),
+    );
+    basePath = path.join(tempDir, "Language.resx");
+    setConfiguredRoots([tempDir]);
+    client = await connect();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    setConfiguredRoots([]);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("lists each resource set below the allowed roots", async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources).toEqual([
+      {
+        uri: buildResxUri(basePath),
+        name: "Language.resx",
+        description: "Resource set with 1 culture(s): de-DE",
+        mimeType: "application/json",
+      },
+    ]);
+  });
+
+  it("advertises culture and key templates", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      "resx://{+basePath}/{culture}",
+      "resx://{+basePath}/{culture}/{key}",
+    ]);
+  });
+
+  it("reads the overview, a culture view and a key view", async () => {
+    expect(await readJson(buildResxUri(basePath))).toEqual({
+      basePath,
+      cultures: [
+        {
+          culture: "default",
+          file: "Language.resx",
+          uri: buildResxUri(basePath, "default"),
+          keys: 2,
+        },
+        {
+          culture: "de-DE",
+          file: "Language.de-DE.resx",
+          uri: buildResxUri(basePath, "de-DE"),
+          keys: 1,
+        },
+      ],
+    });
+
+    expect(await readJson(buildResxUri(basePath, "default"))).toEqual({
+      basePath,
+      culture: "default",
+      file: "Language.resx",
+      values: { A: "Hello", B: "Bye" },
+      comments: { B: "Farewell" },
+    });
+
+    expect(await readJson(buildResxUri(basePath, "de-DE", "A"))).toEqual({
+      key: "A",
+      culture: "de-DE",
+      file: "Language.de-DE.resx",
+      value: "Hallo",
+    });
+  });
+
+  it("reports unknown keys and cultures as not found", async () => {
+    await expect(
+      client.readResource({ uri: buildResxUri(basePath, "de-DE", "B") }),
+    ).rejects.toThrow("Key 'B' was not found in Language.de-DE.resx");
+    await expect(
+      client.readResource({ uri: buildResxUri(basePath, "fr-FR") }),
+    ).rejects.toThrow("Unable to read file");
+  });
+
+  it("refuses resources outside the allowed roots", async () => {
+    const outside = await createTempDir("resources-outside", {
+      "Secret.resx": resx({ S: "s" }),
+    });
+    try {
+      await expect(
+        client.readResource({ uri: buildResxUri(path.join(outside, "Secret.resx")) }),
+      ).rejects.toThrow("outside the allowed roots");
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("lists nothing when there are no roots to scan", async () => {
+    await client.close();
+    setConfiguredRoots([]);
+    client = await connect();
+
+    const { resources } = await client.listResources();
+
+    expect(resources).toEqual([]);
+    expect(await readJson(buildResxUri(basePath, "de-DE", "A"))).toMatchObject({
+      value: "Hallo",
+    });
+  });
+
+  it("only lists resource sets within the client's roots", async () => {
+    await client.close();
+    setConfiguredRoots([]);
+    await fs.mkdir(path.join(tempDir, "sub"));
+    await fs.writeFile(path.join(tempDir, "sub", "Other.resx"), resx({ O: "o" }));
+    client = await connect([path.join(tempDir, "sub")]);
+
+    const { resources } = await client.listResources();
+
+    expect(resources.map((r) => r.uri)).toEqual([
+      buildResxUri(path.join(tempDir, "sub", "Other.resx")),
+    ]);
+  });
+
+  it("notifies subscribers when a tool writes a subscribed file", async () => {
+    const updates = collectUpdates();
+    const cultureUri = buildResxUri(basePath, "de-DE");
+    const otherUri = buildResxUri(basePath, "default");
+    await client.subscribeResource({ uri: cultureUri });
+    await client.subscribeResource({ uri: otherUri });
+    await client.subscribeResource({ uri: buildResxUri(basePath) });
+
+    await client.callTool({
+      name: "upsert_translation",
+      arguments: {
+        filePath: path.join(tempDir, "Language.de-DE.resx"),
+        key: "A",
+        value: "Servus",
+      },
+    });
+
+    await expect.poll(() => updates).toContain(cultureUri);
+    expect(updates).toContain(buildResxUri(basePath));
+    expect(updates).not.toContain(otherUri);
+    expect(await readJson(buildResxUri(basePath, "de-DE", "A"))).toMatchObject({
+      value: "Servus",
+    });
+  });
+
+  it("notifies subscribers when a file changes on disk", async () => {
+    const updates = collectUpdates();
+    const uri = buildResxUri(basePath, "default");
+    await client.subscribeResource({ uri });
+
+    await fs.writeFile(basePath, resx({ A: "Changed" }));
+
+    await expect.poll(() => updates).toContain(uri);
+  });
+
+  it("stops notifying after unsubscribing", async () => {
+    const updates = collectUpdates();
+    const uri = buildResxUri(basePath, "default");
+    await client.subscribeResource({ uri });
+    await client.unsubscribeResource({ uri });
+
+    await client.callTool({
+      name: "upsert_translation",
+      arguments: { filePath: basePath, key: "A", value: "Changed" },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    expect(updates).toEqual([]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { lintResxContent } from "../src/utils/resx-lint.js";
+
+const HEADERS = [
+  '  <resheader name="resmimetype">',
+  "    <value>text/microsoft-resx</value>",
+  "  </resheader>",
+  '  <resheader name="version">',
+  "    <value>2.0</value>",
+  "  </resheader>",
+  '  <resheader name="reader">',
+  "    <value>System.Resources.ResXResourceReader, System.Windows.Forms</value>",
+  "  </resheader>",
+  '  <resheader name="writer">',
+  "    <value>System.Resources.ResXResourceWriter, System.Windows.Forms</value>",
+  "  </resheader>",
+];
+
+/** A complete .resx document with the standard headers and the given data lines. */
+function file(...data: string[]): Uint8Array {
+  return Buffer.from(
+    [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      "<root>",
+      ...HEADERS,
+      ...data,
+      "</root>",
+    ].join("\n"),
+    "utf-8",
+  );
+}
+
+function data(name: string, value = "x"): string {
+  return `  <data name="${name}" xml:space="preserve"><value>${value}</value></data>`;
+}
+
+async function codes(bytes: Uint8Array): Promise<string[]> {
+  return (await lintResxContent(bytes)).map((issue) => issue.code);
+}
+
+describe("lintResxContent", () => {
+  it("reports nothing for a well-formed file", async () => {
+    expect(await lintResxContent(file(data("A"), data("B")))).toEqual([]);
+  });
+
+  it("reports duplicate keys with the line of each occurrence", async () => {
+    const issues = await lintResxContent(file(data("A"), data("B"), data("A", "y")));
+
+    expect(issues).toEqual([
+      {
+        severity: "error",
+        code: "duplicate_key",
+        key: "A",
+        message: expect.stringContaining("(first on line 15)") as string,
+        line: 17,
+        column: 3,
+      },
+    ]);
+  });
+
+  it("warns about keys that differ only in case", async () => {
+    const issues = await lintResxContent(file(data("Title"), data("TITLE")));
+
+    expect(issues.map((i) => [i.severity, i.code, i.key])).toEqual([
+      ["warning", "duplicate_key_case", "TITLE"],
+    ]);
+  });
+
+  it("reports empty names, surrounding whitespace and non-identifier names", async () => {
+    const issues = await lintResxContent(
+      file(data(""), data(" PADDED"), data("1st.Button"), data("$this.Text")),
+    );
+
+    expect(issues.map((i) => i.code)).toEqual([
+      "empty_key",
+      "key_whitespace",
+      "invalid_identifier",
+    ]);
+    expect(issues[2]!.message).toContain("'_1st_Button'");
+  });
+
+  it("reports missing and invalid resheaders", async () => {
+    const text = [
+      "<root>",
+      '  <resheader name="resmimetype"><value>text/plain</value></resheader>',
+      "</root>",
+    ].join("\n");
+
+    const issues = await lintResxContent(Buffer.from(text, "utf-8"));
+
+    expect(issues.map((i) => [i.severity, i.code])).toEqual([
+      ["error", "invalid_resheader"],
+      ["warning", "missing_resheader"],
+      ["warning", "missing_resheader"],
+      ["warning", "missing_resheader"],
+    ]);
+  });
+
+  it("reports XML syntax errors with their position", async () => {
+    const issues = await lintResxContent(
+      Buffer.from("<root>\n  <data name='A'>\n</root>"),
+    );
+
+    expect(issues).toEqual([
+      {
+        severity: "error",
+        code: "parse_error",
+        message: "Invalid XML: Unexpected close tag.",
+        line: 3,
+        column: 7,
+      },
+    ]);
+  });
+
+  it("reports a root element other than <root>", async () => {
+    expect(await codes(Buffer.from("<resources/>"))).toEqual(["invalid_root"]);
+  });
+
+  it("rejects UTF-16 files without parsing them", async () => {
+    const bytes = Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from("<root/>", "utf16le"),
+    ]);
+
+    expect(await codes(bytes)).toEqual(["unsupported_encoding"]);
+  });
+
+  it("reports invalid UTF-8 with its position", async () => {
+    const bytes = Buffer.concat([
+      file(data("A")).subarray(0, -7),
+      Buffer.from([0xc3, 0x28]),
+      Buffer.from("\n</root>"),
+    ]);
+
+    const [issue] = await lintResxContent(bytes);
+    expect(issue).toMatchObject({ code: "invalid_utf8", line: 16, column: 1 });
+  });
+
+  it("notes a UTF-8 BOM, a foreign encoding declaration and mixed line endings", async () => {
+    const text =
+      "\uFEFF" +
+      Buffer.from(file(data("A")))
+        .toString("utf-8")
+        .replace('encoding="utf-8"', 'encoding="windows-1252"')
+        .replace("\n", "\r\n");
+
+    expect(await codes(Buffer.from(text, "utf-8"))).toEqual([
+      "utf8_bom",
+      "encoding_declaration",
+      "mixed_line_endings",
+    ]);
+  });
+});
@@ -1,8 +1,19 @@
 import * as path from "node:path";
 import * as fs from "node:fs/promises";
 import { describe, it, expect, afterEach } from "vitest";
-import { parseResxFile, writeResxFile, findEntry, detectEol } from "../src/utils/resx.js";
+import {
+  parseResxFile,
+  writeResxFile,
+  findEntry,
+  detectEol,
+  upsertEntry,
+  normalizeNewlines,
+  getReadError,
+  describeReadFailure,
+  toReadError,
+} from "../src/utils/resx.js";
 import type { ResxDataEntry, ResxDocument } from "../src/types.js";
+import { createTempDir, crlf, resx } from "./helpers.js";
 
 const FIXTURES_DIR = path.resolve(import.meta.dirname, "fixtures");
 const TEMP_FILE = path.resolve(import.meta.dirname, "fixtures", "_temp.resx");
@@ -40,10 +51,60 @@ describe("parseResxFile", () => {
     expect(result!.document.root.data).toHaveLength(3);
   });
 
+  it("normalizes an empty <root/> element to an empty object", async () => {
+    await fs.writeFile(
+      TEMP_FILE,
+      '<?xml version="1.0" encoding="utf-8"?>\n<root/>',
+      "utf-8",
+    );
+    try {
+      const result = await parseResxFile(TEMP_FILE);
+      expect(result!.document.root).toEqual({});
+    } finally {
+      await fs.unlink(TEMP_FILE);
+    }
+  });
+
   it("returns null for non-existent file", async () => {
     const result = await parseResxFile(path.join(FIXTURES_DIR, "NonExistent.resx"));
     expect(result).toBeNull();
   });
+
+  it("records the position of an XML syntax error until the file parses", async () => {
+    await fs.writeFile(
+      TEMP_FILE,
+      '<root>\n  <data name="A">\n  </dat>\n</root>',
+      "utf-8",
+    );
+    try {
+      expect(await parseResxFile(TEMP_FILE)).toBeNull();
+      expect(getReadError(TEMP_FILE)).toEqual({
+        message: "Unexpected close tag.",
+        line: 3,
+        column: 8,
+      });
+      expect(describeReadFailure(TEMP_FILE, "_temp.resx")).toBe(
+        "_temp.resx (line 3, column 8: Unexpected close tag.)",
+      );
+
+      await fs.writeFile(TEMP_FILE, "<root/>", "utf-8");
+      await parseResxFile(TEMP_FILE);
+      expect(getReadError(TEMP_FILE)).toBeUndefined();
+    } finally {
+      await fs.unlink(TEMP_FILE);
+    }
+  });
+});
+
+describe("toReadError", () => {
+  it("describes file-system errors briefly", () => {
+    const error = Object.assign(new Error("ENOENT: no such file"), { code: "ENOENT" });
+    expect(toReadError(error)).toEqual({ message: "File not found." });
+  });
+
+  it("passes other messages through", () => {
+    expect(toReadError(new Error("boom"))).toEqual({ message: "boom" });
+  });
 });
 
 describe("findEntry", () => {
@@ -67,6 +128,111 @@ describe("findEntry", () => {
   });
 });
 
+describe("upsertEntry", () => {
+  it("adds a missing key with xml:space preserve", () => {
+    const doc: ResxDocument = { root: {} };
+    expect(upsertEntry(doc, "K", "V")).toBe("added");
+    expect(doc.root.data).toEqual([
+      { $: { name: "K", "xml:space": "preserve" }, value: ["V"] },
+    ]);
+  });
+
+  it("updates an existing key in place", () => {
+    const doc: ResxDocument = { root: { data: [{ $: { name: "K" }, value: ["Old"] }] } };
+    expect(upsertEntry(doc, "K", "New")).toBe("updated");
+    expect(doc.root.data![0]!.value).toEqual(["New"]);
+  });
+
+  it("reports unchanged when value and comment already match", () => {
+    const doc: ResxDocument = {
+      root: { data: [{ $: { name: "K" }, value: ["V"], comment: ["C"] }] },
+    };
+    expect(upsertEntry(doc, "K", "V")).toBe("unchanged");
+    expect(upsertEntry(doc, "K", "V", "C")).toBe("unchanged");
+    expect(upsertEntry(doc, "K", "V", "Other")).toBe("updated");
+    expect(doc.root.data![0]!.comment).toEqual(["Other"]);
+  });
+
+  it("reports unchanged for an identical multi-line value in a CRLF file", async () => {
+    const dir = await createTempDir("upsert-crlf", {
+      "Language.resx": crlf(resx({ K: "line1\nline2" })),
+    });
+    try {
+      const parsed = await parseResxFile(path.join(dir, "Language.resx"));
+      expect(parsed!.document.root.data![0]!.value).toEqual(["line1\r\nline2"]);
+
+      expect(upsertEntry(parsed!.document, "K", "line1\nline2")).toBe("unchanged");
+      expect(upsertEntry(parsed!.document, "K", "line1\nline3")).toBe("updated");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("upsertEntry with non-string resources", () => {
+  it("refuses to overwrite file references and binary payloads", () => {
+    const doc: ResxDocument = {
+      root: {
+        data: [
+          {
+            $: {
+              name: "Icon",
+              type: "System.Resources.ResXFileRef, System.Windows.Forms",
+            },
+            value: ["Icon.ico;System.Drawing.Icon, System.Drawing"],
+          },
+          {
+            $: {
+              name: "Logo",
+              mimetype: "application/x-microsoft.net.object.bytearray.base64",
+            },
+            value: ["AAAA"],
+          },
+        ],
+      },
+    };
+
+    expect(() => upsertEntry(doc, "Icon", "text")).toThrow(
+      "Key 'Icon' is a file resource (System.Drawing.Icon, System.Drawing); refusing",
+    );
+    expect(() => upsertEntry(doc, "Logo", "text")).toThrow(
+      "Key 'Logo' is a binary resource",
+    );
+    expect(doc.root.data![1]!.value).toEqual(["AAAA"]);
+  });
+
+  it("updates typed values and keeps their type", () => {
+    const doc: ResxDocument = {
+      root: {
+        data: [{ $: { name: "Max", type: "System.Int32, mscorlib" }, value: ["1"] }],
+      },
+    };
+
+    expect(upsertEntry(doc, "Max", "2")).toBe("updated");
+    expect(doc.root.data![0]).toEqual({
+      $: { name: "Max", type: "System.Int32, mscorlib" },
+      value: ["2"],
+    });
+  });
+});
+
+describe("upsertEntry comment handling", () => {
+  it("removes the comment when null is passed", () => {
+    const doc: ResxDocument = {
+      root: { data: [{ $: { name: "K" }, value: ["V"], comment: ["C"] }] },
+    };
+    expect(upsertEntry(doc, "K", "V", null)).toBe("updated");
+    expect(doc.root.data![0]!.comment).toBeUndefined();
+    expect(upsertEntry(doc, "K", "V", null)).toBe("unchanged");
+  });
+});
+
+describe("normalizeNewlines", () => {
+  it("converts CRLF and stray CR to LF", () => {
+    expect(normalizeNewlines("a\r\nb\rc")).toBe("a\nbc");
+  });
+});
+
 describe("writeResxFile", () => {
   afterEach(async () => {
     try {
@@ -152,3 +318,154 @@ describe("writeResxFile", () => {
     expect(content).toContain("\n");
   });
 });
+
+describe("writeResxFile format preservation", () => {
+  const HEADER = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    "<root>",
+    "  <!--",
+    "    Microsoft ResX Schema",
+    '    <data name="Name1"><value>this is my long string</value></data>',
+    "  -->",
+    '  <resheader name="resmimetype">',
+    "    <value>text/microsoft-resx</value>",
+    "  </resheader>",
+  ];
+  const entry = (name: string, value: string): string[] => [
+    `  <data name="${name}" xml:space="preserve">`,
+    `    <value>${value}</value>`,
+    "  </data>",
+  ];
+
+  let tempDir: string;
+  let filePath: string;
+
+  async function roundTrip(
+    lines: string[],
+    edit: (data: ResxDocument) => void,
+    eol = "\r\n",
+  ): Promise<string> {
+    tempDir = await createTempDir("format");
+    filePath = path.join(tempDir, "Language.resx");
+    await fs.writeFile(filePath, lines.join(eol) + eol, "utf-8");
+    const parsed = await parseResxFile(filePath);
+    edit(parsed!.document);
+    await writeResxFile(filePath, parsed!.document, parsed!.eol);
+    return fs.readFile(filePath, "utf-8");
+  }
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("leaves the file byte-for-byte identical when nothing changes", async () => {
+    const lines = [
+      ...HEADER,
+      '  <data name="A"   xml:space="preserve"><value>a</value></data>',
+      "  <!-- keep me -->",
+      ...entry("B", "b"),
+      "</root>",
+    ];
+
+    const content = await roundTrip(lines, () => undefined);
+
+    expect(content).toBe(lines.join("\r\n") + "\r\n");
+  });
+
+  it("only rewrites the updated element", async () => {
+    const lines = [
+      ...HEADER,
+      '  <data name="A"   xml:space="preserve"><value>a</value></data>',
+      ...entry("B", "b"),
+      "</root>",
+    ];
+
+    const content = await roundTrip(lines, (data) => upsertEntry(data, "B", "b & c"));
+
+    const expected = [...lines];
+    expected.splice(-4, 4, ...entry("B", "b &amp; c"), "</root>");
+    expect(content).toBe(expected.join("\r\n") + "\r\n");
+  });
+
+  it("inserts new elements in sorted position with the file's EOL and indentation", async () => {
+    const lines = [...HEADER, ...entry("A", "a"), ...entry("C", "c"), "</root>"];
+
+    const content = await roundTrip(lines, (data) => upsertEntry(data, "B", "b"), "\n");
+
+    expect(content).toBe(
+      [
+        ...HEADER,
+        ...entry("A", "a"),
+        ...entry("B", "b"),
+        ...entry("C", "c"),
+        "</root>",
+      ].join("\n") + "\n",
+    );
+  });
+
+  it("removes deleted elements together with their line", async () => {
+    const lines = [...HEADER, ...entry("A", "a"), ...entry("B", "b"), "</root>"];
+
+    const content = await roundTrip(lines, (data) => {
+      data.root.data = data.root.data!.filter((d) => d.$.name !== "A");
+    });
+
+    expect(content).toBe(
+      [...HEADER, ...entry("B", "b"), "</root>"].join("\r\n") + "\r\n",
+    );
+  });
+
+  it("adds the first element before the root closing tag", async () => {
+    const lines = [...HEADER, "</root>"];
+
+    const content = await roundTrip(lines, (data) => upsertEntry(data, "A", "a"));
+
+    expect(content).toBe(
+      [...HEADER, ...entry("A", "a"), "</root>"].join("\r\n") + "\r\n",
+    );
+  });
+
+  it("keeps the existing order in insert-sorted mode", async () => {
+    const lines = [...HEADER, ...entry("C", "c"), ...entry("A", "a"), "</root>"];
+    tempDir = await createTempDir("format");
+    filePath = path.join(tempDir, "Language.resx");
+    await fs.writeFile(filePath, lines.join("\n") + "\n", "utf-8");
+
+    const parsed = await parseResxFile(filePath);
+    upsertEntry(parsed!.document, "B", "b");
+    await writeResxFile(filePath, parsed!.document, parsed!.eol, {
+      sortMode: "insert-sorted",
+    });
+
+    expect(await fs.readFile(filePath, "utf-8")).toBe(
+      [
+        ...HEADER,
+        ...entry("B", "b"),
+        ...entry("C", "c"),
+        ...entry("A", "a"),
+        "</root>",
+      ].join("\n") + "\n",
+    );
+  });
+
+  it("keeps preserving formatting across repeated writes of one document", async () => {
+    const lines = [...HEADER, ...entry("B", "b"), "</root>"];
+    const content = await roundTrip(lines, (data) => upsertEntry(data, "C", "c"));
+    const parsed = await parseResxFile(filePath);
+    upsertEntry(parsed!.document, "A", "a");
+    await writeResxFile(filePath, parsed!.document, parsed!.eol);
+    upsertEntry(parsed!.document, "A", "a2");
+    await writeResxFile(filePath, parsed!.document, parsed!.eol);
+
+    expect(content).toContain("Microsoft ResX Schema");
+    expect(await fs.readFile(filePath, "utf-8")).toBe(
+      [
+        ...HEADER,
+        ...entry("A", "a2"),
+        ...entry("B", "b"),
+        ...entry("C", "c"),
+        "</root>",
+      ].join("\r\n") + "\r\n",
+    );
+  });
+});
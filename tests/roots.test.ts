@@ -0,0 +1,245 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { pathToFileURL } from "node:url";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ListRootsRequestSchema,
+  type CallToolResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  setConfiguredRoots,
+  getAllowedRoots,
+  assertPathArgumentsAllowed,
+  assertFileAllowed,
+  runWithClientRoots,
+} from "../src/utils/roots.js";
+import { createServer } from "../src/server.js";
+import { createTempDir, resx } from "./helpers.js";
+
+describe("allowed roots", () => {
+  let tempDir: string;
+  let inside: string;
+  let outside: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.realpath(await createTempDir("roots"));
+    inside = path.join(tempDir, "repo");
+    outside = path.join(tempDir, "elsewhere");
+    await fs.mkdir(path.join(inside, "sub"), { recursive: true });
+    await fs.mkdir(outside);
+    await fs.writeFile(path.join(inside, "Language.resx"), resx({ A: "a" }));
+    await fs.writeFile(path.join(outside, "Secret.resx"), resx({ B: "b" }));
+  });
+
+  afterEach(async () => {
+    setConfiguredRoots([]);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe("assertPathArgumentsAllowed", () => {
+    it("allows everything when no roots are configured", async () => {
+      await expect(
+        assertPathArgumentsAllowed({ basePath: "/anywhere/Language.resx" }, null),
+      ).resolves.toBeUndefined();
+    });
+
+    it("accepts paths inside a configured root, including files that do not exist yet", async () => {
+      setConfiguredRoots([inside]);
+
+      await expect(
+        assertPathArgumentsAllowed(
+          {
+            basePath: path.join(inside, "Language.resx"),
+            outputDir: path.join(inside, "new", "dir"),
+          },
+          null,
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it("rejects paths outside the roots, naming the parameter and the roots", async () => {
+      setConfiguredRoots([inside]);
+
+      await expect(
+        assertPathArgumentsAllowed(
+          { basePath: path.join(inside, "..", "elsewhere", "Secret.resx") },
+          null,
+        ),
+      ).rejects.toThrow(
+        `Parameter 'basePath' resolves to '${path.join(outside, "Secret.resx")}', ` +
+          `which is outside the allowed roots: ${inside}.`,
+      );
+    });
+
+    it("does not treat a sibling directory with a common prefix as inside", async () => {
+      setConfiguredRoots([inside]);
+      await fs.mkdir(`${inside}-other`);
+
+      await expect(
+        assertPathArgumentsAllowed({ rootDir: `${inside}-other` }, null),
+      ).rejects.toThrow("outside the allowed roots");
+    });
+
+    it("resolves symbolic links before checking", async () => {
+      setConfiguredRoots([inside]);
+      await fs.symlink(outside, path.join(inside, "link"));
+
+      await expect(
+        assertPathArgumentsAllowed(
+          { filePath: path.join(inside, "link", "Secret.resx") },
+          null,
+        ),
+      ).rejects.toThrow(`resolves to '${path.join(outside, "Secret.resx")}'`);
+    });
+
+    it("checks paths of array items", async () => {
+      setConfiguredRoots([inside]);
+
+      await expect(
+        assertPathArgumentsAllowed(
+          {
+            items: [
+              { filePath: path.join(inside, "Language.resx"), key: "A", value: "x" },
+              { filePath: path.join(outside, "Secret.resx"), key: "B", value: "y" },
+            ],
+          },
+          null,
+        ),
+      ).rejects.toThrow("Parameter 'items[1].filePath'");
+    });
+
+    it("ignores keys named like path parameters inside value maps", async () => {
+      setConfiguredRoots([inside]);
+
+      await expect(
+        assertPathArgumentsAllowed(
+          {
+            basePath: path.join(inside, "Language.resx"),
+            translations: { filePath: { default: "/etc/passwd" } },
+          },
+          null,
+        ),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("assertFileAllowed", () => {
+    it("checks the resolved path against the configured roots", async () => {
+      setConfiguredRoots([inside]);
+
+      await expect(
+        assertFileAllowed(path.join(inside, "Language.x", "..", "Language.resx")),
+      ).resolves.toBeUndefined();
+      await expect(
+        assertFileAllowed(
+          path.join(inside, "Language.x", "..", "..", "elsewhere", "A.resx"),
+        ),
+      ).rejects.toThrow(
+        `Path '${path.join(outside, "A.resx")}' is outside the allowed roots: ${inside}.`,
+      );
+    });
+
+    it("also applies the client's roots of the current call", async () => {
+      const file = path.join(outside, "Secret.resx");
+
+      await expect(assertFileAllowed(file)).resolves.toBeUndefined();
+      await expect(
+        runWithClientRoots([inside], () => assertFileAllowed(file)),
+      ).rejects.toThrow("outside the allowed roots");
+    });
+  });
+
+  describe("getAllowedRoots", () => {
+    it("uses the client's roots when none are configured", async () => {
+      expect(await getAllowedRoots([inside])).toEqual([inside]);
+      expect(await getAllowedRoots(null)).toBeNull();
+    });
+
+    it("keeps only the overlap of configured and client roots", async () => {
+      setConfiguredRoots([inside]);
+
+      expect(await getAllowedRoots([path.join(inside, "sub"), outside])).toEqual([
+        path.join(inside, "sub"),
+      ]);
+      expect(await getAllowedRoots([tempDir])).toEqual([inside]);
+      expect(await getAllowedRoots([outside])).toEqual([]);
+    });
+  });
+
+  describe("MCP roots", () => {
+    async function connect(getRoots: () => string[]): Promise<Client> {
+      const server = createServer();
+      const client = new Client(
+        { name: "test", version: "1.0.0" },
+        { capabilities: { roots: { listChanged: true } } },
+      );
+      client.setRequestHandler(ListRootsRequestSchema, () => ({
+        roots: getRoots().map((root) => ({ uri: pathToFileURL(root).href })),
+      }));
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+      return client;
+    }
+
+    function listKeys(client: Client, filePath: string): Promise<CallToolResult> {
+      return client.callTool({
+        name: "list_keys",
+        arguments: { filePath },
+      }) as Promise<CallToolResult>;
+    }
+
+    it("confines tool calls to the client's roots", async () => {
+      const client = await connect(() => [inside]);
+
+      const allowed = await listKeys(client, path.join(inside, "Language.resx"));
+      const refused = await listKeys(client, path.join(outside, "Secret.resx"));
+
+      expect(allowed.isError).toBeUndefined();
+      expect(refused.isError).toBe(true);
+      expect(refused.content[0]).toMatchObject({
+        text: expect.stringContaining(`outside the allowed roots: ${inside}`),
+      });
+      await client.close();
+    });
+
+    it("checks files whose paths tools build from other arguments", async () => {
+      const client = await connect(() => [inside]);
+      const secret = path.join(outside, "Secret.resx");
+      const before = await fs.readFile(secret, "utf-8");
+
+      const result = (await client.callTool({
+        name: "upsert_translations_batch",
+        arguments: {
+          basePath: path.join(inside, "Language.resx"),
+          translations: { PWNED: { "x/../../elsewhere/Secret": "owned" } },
+        },
+      })) as CallToolResult;
+
+      expect(result.isError).toBe(true);
+      expect(await fs.readFile(secret, "utf-8")).toBe(before);
+      await expect(fs.access(`${secret}.lock`)).rejects.toThrow();
+      await client.close();
+    });
+
+    it("refetches the roots when the client reports a change", async () => {
+      let roots = [inside];
+      const client = await connect(() => roots);
+      expect((await listKeys(client, path.join(outside, "Secret.resx"))).isError).toBe(
+        true,
+      );
+
+      roots = [outside];
+      await client.sendRootsListChanged();
+
+      await expect
+        .poll(
+          async () => (await listKeys(client, path.join(outside, "Secret.resx"))).isError,
+        )
+        .toBeUndefined();
+      await client.close();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { handleSearchTranslations } from "../src/tools/search-translations.js";
+import { createTempDir, resx } from "./helpers.js";
+
+const FIXTURES_DIR = path.resolve(import.meta.dirname, "fixtures");
+const BASE_PATH = path.join(FIXTURES_DIR, "Language.resx");
+
+interface SearchResult {
+  totalMatches: number;
+  truncated: boolean;
+  matches: {
+    file: string;
+    culture: string;
+    key: string;
+    value: string;
+    matchedIn: string[];
+  }[];
+}
+
+function parse(text: string): SearchResult {
+  return JSON.parse(text) as SearchResult;
+}
+
+describe("handleSearchTranslations", () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await createTempDir("search");
+    await fs.mkdir(path.join(tempDir, "Feature"), { recursive: true });
+    await fs.mkdir(path.join(tempDir, "bin"), { recursive: true });
+    await fs.writeFile(path.join(tempDir, "Shared.resx"), resx({ SAVE: "Save changes" }));
+    await fs.writeFile(
+      path.join(tempDir, "Shared.de-DE.resx"),
+      resx({ SAVE: "Änderungen speichern" }),
+    );
+    await fs.writeFile(
+      path.join(tempDir, "Feature", "Orders.resx"),
+      resx({ ORDER_SAVE: "Save changes to order" }),
+    );
+    await fs.writeFile(
+      path.join(tempDir, "bin", "Shared.resx"),
+      resx({ SAVE: "Save changes" }),
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("finds values case-insensitively across variants of a base file", async () => {
+    const result = await handleSearchTranslations({ basePath: BASE_PATH, query: "save" });
+
+    expect(result.isError).toBeUndefined();
+    const search = parse(result.content[0]!.text);
+    expect(search.matches).toEqual([
+      {
+        file: "Language.en-US.resx",
+        culture: "en-US",
+        key: "BUTTON_SAVE",
+        value: "Save",
+        matchedIn: ["value"],
+      },
+    ]);
+  });
+
+  it("respects caseSensitive", async () => {
+    const result = await handleSearchTranslations({
+      basePath: BASE_PATH,
+      query: "save",
+      caseSensitive: true,
+    });
+
+    expect(parse(result.content[0]!.text).totalMatches).toBe(0);
+  });
+
+  it("optionally searches keys and comments", async () => {
+    const result = await handleSearchTranslations({
+      basePath: BASE_PATH,
+      query: "toolbar",
+      searchComments: true,
+    });
+    expect(parse(result.content[0]!.text).matches[0]!.matchedIn).toEqual(["comment"]);
+
+    const byKey = await handleSearchTranslations({
+      basePath: BASE_PATH,
+      query: "BUTTON_SAVE",
+      mode: "exact",
+      searchKeys: true,
+    });
+    expect(parse(byKey.content[0]!.text).totalMatches).toBe(3);
+  });
+
+  it("supports exact and regex modes", async () => {
+    const exact = await handleSearchTranslations({
+      basePath: BASE_PATH,
+      query: "anuluj",
+      mode: "exact",
+    });
+    expect(parse(exact.content[0]!.text).matches.map((m) => m.key)).toEqual([
+      "BUTTON_CANCEL",
+    ]);
+
+    const regex = await handleSearchTranslations({
+      basePath: BASE_PATH,
+      query: "^(Home|Save)$",
+      mode: "regex",
+    });
+    expect(parse(regex.content[0]!.text).totalMatches).toBe(2);
+  });
+
+  it("searches a directory recursively, skipping bin/", async () => {
+    const result = await handleSearchTranslations({
+      directory: tempDir,
+      query: "save changes",
+    });
+
+    const files = parse(result.content[0]!.text).matches.map((m) => m.file);
+    expect(files.sort()).toEqual(["Feature/Orders.resx", "Shared.resx"]);
+  });
+
+  it("truncates to the limit but reports the total", async () => {
+    const result = await handleSearchTranslations({
+      directory: tempDir,
+      query: "e",
+      limit: 1,
+    });
+
+    const search = parse(result.content[0]!.text);
+    expect(search.matches).toHaveLength(1);
+    expect(search.totalMatches).toBe(3);
+    expect(search.truncated).toBe(true);
+  });
+
+  it("throws unless exactly one of basePath or directory is given", async () => {
+    await expect(handleSearchTranslations({ query: "x" })).rejects.toThrow("exactly one");
+    await expect(
+      handleSearchTranslations({ query: "x", basePath: BASE_PATH, directory: tempDir }),
+    ).rejects.toThrow("exactly one");
+  });
+
+  it("throws for an unknown mode", async () => {
+    await expect(
+      handleSearchTranslations({ query: "x", basePath: BASE_PATH, mode: "fuzzy" }),
+    ).rejects.toThrow("'mode' must be one of");
+  });
+
+  it("throws for an invalid regular expression", async () => {
+    await expect(
+      handleSearchTranslations({ query: "(", basePath: BASE_PATH, mode: "regex" }),
+    ).rejects.toThrow("not a valid regular expression");
+  });
+});
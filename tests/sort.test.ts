@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  orderDataEntries,
+  compareKeysOrdinal,
+  isSortMode,
+  setDefaultSortMode,
+  getDefaultSortMode,
+} from "../src/utils/sort.js";
+import type { ResxDataEntry } from "../src/types.js";
+
+const entry = (name: string): ResxDataEntry => ({ $: { name }, value: [name] });
+
+describe("orderDataEntries", () => {
+  const zebra = entry("zebra");
+  const apple = entry("Apple");
+  const mango = entry("mango");
+  const banana = entry("banana");
+  const existing = new Set([zebra, apple, mango]);
+  const isExisting = (e: ResxDataEntry): boolean => existing.has(e);
+  const names = (entries: ResxDataEntry[]): string[] => entries.map((e) => e.$.name);
+
+  it("sorts case-insensitively in alphabetical mode", () => {
+    expect(
+      names(orderDataEntries([zebra, apple, mango, banana], "alphabetical", isExisting)),
+    ).toEqual(["Apple", "banana", "mango", "zebra"]);
+  });
+
+  it("sorts upper case before lower case in ordinal mode", () => {
+    expect(
+      names(orderDataEntries([zebra, banana, apple], "ordinal", isExisting)),
+    ).toEqual(["Apple", "banana", "zebra"]);
+    expect(
+      names(orderDataEntries([entry("b"), entry("B")], "ordinal", () => true)),
+    ).toEqual(["B", "b"]);
+  });
+
+  it("keeps the existing order and appends new keys in preserve mode", () => {
+    expect(
+      names(orderDataEntries([zebra, banana, apple, mango], "preserve", isExisting)),
+    ).toEqual(["zebra", "Apple", "mango", "banana"]);
+  });
+
+  it("inserts new keys before the first greater key in insert-sorted mode", () => {
+    expect(
+      names(orderDataEntries([zebra, apple, mango, banana], "insert-sorted", isExisting)),
+    ).toEqual(["banana", "zebra", "Apple", "mango"]);
+    expect(
+      names(orderDataEntries([apple, mango, entry("zz")], "insert-sorted", isExisting)),
+    ).toEqual(["Apple", "mango", "zz"]);
+  });
+});
+
+describe("compareKeysOrdinal", () => {
+  it("compares UTF-16 code units", () => {
+    expect(compareKeysOrdinal("A", "a")).toBeLessThan(0);
+    expect(compareKeysOrdinal("a", "A")).toBeGreaterThan(0);
+    expect(compareKeysOrdinal("a", "a")).toBe(0);
+  });
+});
+
+describe("default sort mode", () => {
+  afterEach(() => {
+    setDefaultSortMode("alphabetical");
+  });
+
+  it("defaults to alphabetical and can be changed", () => {
+    expect(getDefaultSortMode()).toBe("alphabetical");
+    setDefaultSortMode("preserve");
+    expect(getDefaultSortMode()).toBe("preserve");
+  });
+
+  it("recognises only supported modes", () => {
+    expect(isSortMode("insert-sorted")).toBe(true);
+    expect(isSortMode("random")).toBe(false);
+    expect(isSortMode(1)).toBe(false);
+  });
+});
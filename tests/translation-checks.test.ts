@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { checkTranslation } from "../src/utils/translation-checks.js";
+
+const types = (source: string, translation: string): string[] =>
+  checkTranslation(source, translation).map((issue) => issue.type);
+
+describe("checkTranslation", () => {
+  it("accepts a consistent translation", () => {
+    expect(
+      checkTranslation(
+        "Hello {0}, you have {1:N0} <b>new</b> items",
+        "Hallo {0}, Sie haben {1:N0} <b>neue</b> Elemente",
+      ),
+    ).toEqual([]);
+  });
+
+  it("allows placeholders to be reordered and repeated", () => {
+    expect(types("{0} of {1}", "{1}: {0} ({0})")).toEqual([]);
+  });
+
+  it("reports dropped and renumbered placeholders", () => {
+    expect(checkTranslation("{0} of {1}", "{0} von {2}")).toEqual([
+      {
+        type: "missing_placeholder",
+        message: "Placeholder {1} from the default value is missing.",
+      },
+      {
+        type: "unexpected_placeholder",
+        message: "Placeholder {2} does not appear in the default value.",
+      },
+    ]);
+  });
+
+  it("treats a changed format specifier as a different placeholder", () => {
+    expect(types("Total: {0:N2}", "Summe: {0}")).toEqual([
+      "missing_placeholder",
+      "unexpected_placeholder",
+    ]);
+  });
+
+  it("normalizes whitespace inside format items", () => {
+    expect(types("{0,-10:C}", "{ 0 , -10 :C}")).toEqual([]);
+  });
+
+  it("ignores escaped braces", () => {
+    expect(types("{{literal}} {0}", "{{wörtlich}} {0}")).toEqual([]);
+  });
+
+  it("reports unbalanced braces that would break string.Format", () => {
+    expect(types("Value: {0}", "Wert: {0")).toContain("invalid_format");
+    expect(types("Value: {0}", "Wert: {0}}")).toContain("invalid_format");
+  });
+
+  it("compares named placeholders verbatim", () => {
+    expect(types("Hi {name}", "Hallo {name}")).toEqual([]);
+    expect(types("Hi {name}", "Hallo {nom}")).toEqual([
+      "missing_placeholder",
+      "unexpected_placeholder",
+    ]);
+  });
+
+  it("reports tag differences, ignoring attributes and case", () => {
+    expect(types('<a href="/x">Go</a>', '<A href="/y">Los</A>')).toEqual([]);
+    expect(checkTranslation("Line<br/><b>bold</b>", "Zeile <b>fett")).toEqual([
+      {
+        type: "tag_mismatch",
+        message:
+          "Tag <br/> appears 1 time(s) in the default value but 0 time(s) in the translation.",
+      },
+      {
+        type: "tag_mismatch",
+        message:
+          "Tag </b> appears 1 time(s) in the default value but 0 time(s) in the translation.",
+      },
+    ]);
+  });
+
+  it("reports leading and trailing whitespace differences", () => {
+    expect(types(" Name: ", "Name:")).toEqual([
+      "leading_whitespace",
+      "trailing_whitespace",
+    ]);
+    expect(types("Name", "Name ")).toEqual(["trailing_whitespace"]);
+  });
+
+  it("reports different line break counts", () => {
+    expect(checkTranslation("a\nb", "a b")).toEqual([
+      {
+        type: "newline_count",
+        message: "Default value has 1 line break(s) but the translation has 0.",
+      },
+    ]);
+  });
+});
@@ -3,6 +3,7 @@ import * as fs from "node:fs/promises";
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { handleUpsertTranslation } from "../src/tools/upsert-translation.js";
 import { parseResxFile } from "../src/utils/resx.js";
+import { createTempDir, crlf, resx } from "./helpers.js";
 
 const FIXTURES_DIR = path.resolve(import.meta.dirname, "fixtures");
 const TEMP_FILE = path.join(FIXTURES_DIR, "_upsert-temp.resx");
@@ -81,10 +82,187 @@ describe("handleUpsertTranslation", () => {
     expect(names).toEqual(["AAA_FIRST", "EXISTING_KEY"]);
   });
 
-  it("throws for missing filePath", async () => {
+  it("appends new keys without re-sorting in preserve mode", async () => {
+    await handleUpsertTranslation({ filePath: TEMP_FILE, key: "ZZZ", value: "Z" });
+    const result = await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "AAA_FIRST",
+      value: "First",
+      sortMode: "preserve",
+    });
+
+    expect(result.content[0]!.text).toContain("sort mode: preserve");
+    const parsed = await parseResxFile(TEMP_FILE);
+    expect(parsed!.document.root.data!.map((d) => d.$.name)).toEqual([
+      "EXISTING_KEY",
+      "ZZZ",
+      "AAA_FIRST",
+    ]);
+  });
+
+  it("rejects an unknown sort mode", async () => {
     await expect(
-      handleUpsertTranslation({ key: "X", value: "Y" }),
-    ).rejects.toThrow("non-empty string");
+      handleUpsertTranslation({
+        filePath: TEMP_FILE,
+        key: "K",
+        value: "V",
+        sortMode: "x",
+      }),
+    ).rejects.toThrow("Parameter 'sortMode' must be one of");
+  });
+
+  it("sets a comment on a new key", async () => {
+    await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "WITH_COMMENT",
+      value: "Value",
+      comment: "Shown in the header",
+    });
+
+    const parsed = await parseResxFile(TEMP_FILE);
+    const entry = parsed!.document.root.data!.find((d) => d.$.name === "WITH_COMMENT");
+    expect(entry!.comment).toEqual(["Shown in the header"]);
+
+    const written = await fs.readFile(TEMP_FILE, "utf-8");
+    expect(written.indexOf("<value>Value</value>")).toBeLessThan(
+      written.indexOf("<comment>Shown in the header</comment>"),
+    );
+  });
+
+  it("updates only the comment of an existing key", async () => {
+    const result = await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "EXISTING_KEY",
+      value: "Old Value",
+      comment: "New context",
+    });
+
+    expect(result.content[0]!.text).toContain("updated");
+    const parsed = await parseResxFile(TEMP_FILE);
+    expect(parsed!.document.root.data![0]!.comment).toEqual(["New context"]);
+  });
+
+  it("removes the comment when an empty comment is passed", async () => {
+    await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "EXISTING_KEY",
+      value: "Old Value",
+      comment: "Temporary",
+    });
+    await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "EXISTING_KEY",
+      value: "Old Value",
+      comment: "",
+    });
+
+    const parsed = await parseResxFile(TEMP_FILE);
+    expect(parsed!.document.root.data![0]!.comment).toBeUndefined();
+  });
+
+  it("keeps the existing comment when comment is omitted", async () => {
+    await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "EXISTING_KEY",
+      value: "Old Value",
+      comment: "Keep me",
+    });
+    await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "EXISTING_KEY",
+      value: "Changed",
+    });
+
+    const parsed = await parseResxFile(TEMP_FILE);
+    expect(parsed!.document.root.data![0]!.comment).toEqual(["Keep me"]);
+  });
+
+  it("leaves the file untouched when nothing changes", async () => {
+    const before = await fs.readFile(TEMP_FILE, "utf-8");
+
+    const result = await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "EXISTING_KEY",
+      value: "Old Value",
+    });
+
+    expect(result.content[0]!.text).toContain("no changes were made");
+    expect(await fs.readFile(TEMP_FILE, "utf-8")).toBe(before);
+  });
+
+  it("leaves a CRLF file untouched when a multi-line value is unchanged", async () => {
+    await fs.writeFile(TEMP_FILE, crlf(resx({ MULTI: "line1\nline2" })), "utf-8");
+    const before = await fs.readFile(TEMP_FILE, "utf-8");
+
+    const result = await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "MULTI",
+      value: "line1\r\nline2",
+    });
+
+    expect(result.content[0]!.text).toContain("no changes were made");
+    expect(await fs.readFile(TEMP_FILE, "utf-8")).toBe(before);
+  });
+
+  it("warns about placeholder problems when validate is set", async () => {
+    const dir = await createTempDir("upsert-validate", {
+      "Language.resx": resx({ ITEMS: "{0} of {1}" }),
+      "Language.de-DE.resx": resx({}),
+    });
+    try {
+      const filePath = path.join(dir, "Language.de-DE.resx");
+      const result = await handleUpsertTranslation({
+        filePath,
+        key: "ITEMS",
+        value: "{0} von {2}",
+        validate: true,
+      });
+
+      const text = result.content[0]!.text;
+      expect(result.isError).toBeUndefined();
+      expect(text).toContain("Successfully added key 'ITEMS'");
+      expect(text).toContain("Warnings (compared with Language.resx):");
+      expect(text).toContain("- [missing_placeholder] Placeholder {1}");
+      expect(text).toContain("- [unexpected_placeholder] Placeholder {2}");
+
+      const clean = await handleUpsertTranslation({
+        filePath,
+        key: "ITEMS",
+        value: "{0} von {1}",
+        validate: true,
+      });
+      expect(clean.content[0]!.text).not.toContain("Warnings");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps whitespace around the value", async () => {
+    const dir = await createTempDir("upsert-whitespace", {
+      "Language.resx": resx({ LABEL: "Name: " }),
+      "Language.de-DE.resx": resx({}),
+    });
+    try {
+      const filePath = path.join(dir, "Language.de-DE.resx");
+      const result = await handleUpsertTranslation({
+        filePath,
+        key: "LABEL",
+        value: "Name: ",
+        validate: true,
+      });
+
+      expect(result.content[0]!.text).not.toContain("Warnings");
+      const parsed = await parseResxFile(filePath);
+      expect(parsed!.document.root.data![0]!.value![0]).toBe("Name: ");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("throws for missing filePath", async () => {
+    await expect(handleUpsertTranslation({ key: "X", value: "Y" })).rejects.toThrow(
+      "non-empty string",
+    );
   });
 
   it("throws for missing key", async () => {
@@ -108,6 +286,22 @@ describe("handleUpsertTranslation", () => {
 
     expect(result.isError).toBe(true);
     expect(result.content[0]!.text).toContain("Unable to read file");
+    expect(result.content[0]!.text).toContain("(File not found.)");
+  });
+
+  it("reports where a malformed file fails to parse", async () => {
+    await fs.writeFile(TEMP_FILE, '<root>\n  <data name="K">\n</root>', "utf-8");
+
+    const result = await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "X",
+      value: "Y",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain(
+      "(line 3, column 7: Unexpected close tag.)",
+    );
   });
 
   it("preserves LF line endings from the original file", async () => {
@@ -193,4 +387,40 @@ describe("handleUpsertTranslation", () => {
     // The value should be one of the "Concurrent N" strings.
     expect(parsed!.document.root.data![0]!.value![0]).toMatch(/^Concurrent \d$/);
   });
+
+  it("previews an update with the previous value and a diff in dry-run mode", async () => {
+    const before = await fs.readFile(TEMP_FILE, "utf-8");
+
+    const result = await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "EXISTING_KEY",
+      value: "New Value",
+      dryRun: true,
+    });
+
+    const text = result.content[0]!.text;
+    expect(result.isError).toBeUndefined();
+    expect(text).toContain("Dry run: would update key 'EXISTING_KEY'");
+    expect(text).toContain('Previous value: "Old Value"');
+    expect(text).toContain("```diff\n--- a/_upsert-temp.resx\n+++ b/_upsert-temp.resx\n");
+    expect(text).toContain(
+      "-    <value>Old Value</value>\n+    <value>New Value</value>",
+    );
+    expect(await fs.readFile(TEMP_FILE, "utf-8")).toBe(before);
+  });
+
+  it("previews an added key without a previous value", async () => {
+    const result = await handleUpsertTranslation({
+      filePath: TEMP_FILE,
+      key: "NEW_KEY",
+      value: "Added",
+      dryRun: true,
+    });
+
+    const text = result.content[0]!.text;
+    expect(text).toContain("Dry run: would add key 'NEW_KEY'");
+    expect(text).not.toContain("Previous value");
+    expect(text).toContain('+  <data name="NEW_KEY" xml:space="preserve">');
+    expect((await parseResxFile(TEMP_FILE))!.document.root.data).toHaveLength(1);
+  });
 });
@@ -0,0 +1,219 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleUpsertTranslationsBatch } from "../src/tools/upsert-translations-batch.js";
+import { parseResxFile } from "../src/utils/resx.js";
+import { createTempDir, crlf, resx, valuesOf } from "./helpers.js";
+
+interface Report {
+  summary: Record<string, number>;
+  results: { file: string; key: string; action: string; error?: string }[];
+}
+
+describe("handleUpsertTranslationsBatch", () => {
+  let tempDir: string;
+  let basePath: string;
+  let enPath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir("batch", {
+      "Language.resx": resx({ EXISTING: "Istniejący" }),
+      "Language.en-US.resx": resx({ EXISTING: "Existing" }),
+    });
+    basePath = path.join(tempDir, "Language.resx");
+    enPath = path.join(tempDir, "Language.en-US.resx");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("applies an items array and reports added/updated/unchanged per item", async () => {
+    const result = await handleUpsertTranslationsBatch({
+      items: [
+        { filePath: enPath, key: "NEW_A", value: "A" },
+        { filePath: enPath, key: "EXISTING", value: "Existing" },
+        { filePath: basePath, key: "EXISTING", value: "Zmieniony" },
+        { filePath: enPath, key: "NEW_B", value: "B", comment: "Shown on the toolbar" },
+      ],
+    });
+
+    expect(result.isError).toBeUndefined();
+    const report = JSON.parse(result.content[0]!.text) as Report;
+    expect(report.results.map((r) => r.action)).toEqual([
+      "added",
+      "unchanged",
+      "updated",
+      "added",
+    ]);
+    expect(report.summary).toEqual({ added: 2, updated: 1, unchanged: 1, error: 0 });
+
+    expect(await valuesOf(enPath)).toEqual({
+      EXISTING: "Existing",
+      NEW_A: "A",
+      NEW_B: "B",
+    });
+    expect(await valuesOf(basePath)).toEqual({ EXISTING: "Zmieniony" });
+
+    const parsed = await parseResxFile(enPath);
+    const entry = parsed!.document.root.data!.find((d) => d.$.name === "NEW_B");
+    expect(entry!.comment).toEqual(["Shown on the toolbar"]);
+  });
+
+  it("expands a key → culture map against the base path", async () => {
+    const result = await handleUpsertTranslationsBatch({
+      basePath,
+      translations: {
+        BUTTON_SAVE: { default: "Zapisz", "en-US": "Save" },
+        BUTTON_CANCEL: { default: "Anuluj", "en-US": "Cancel" },
+      },
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(await valuesOf(basePath)).toEqual({
+      BUTTON_CANCEL: "Anuluj",
+      BUTTON_SAVE: "Zapisz",
+      EXISTING: "Istniejący",
+    });
+    expect(await valuesOf(enPath)).toEqual({
+      BUTTON_CANCEL: "Cancel",
+      BUTTON_SAVE: "Save",
+      EXISTING: "Existing",
+    });
+  });
+
+  it("keeps whitespace around values", async () => {
+    await handleUpsertTranslationsBatch({
+      items: [{ filePath: enPath, key: "LABEL", value: " Name: " }],
+    });
+    await handleUpsertTranslationsBatch({
+      basePath,
+      translations: { PROMPT: { default: "Imię: " } },
+    });
+
+    expect((await valuesOf(enPath)).LABEL).toBe(" Name: ");
+    expect((await valuesOf(basePath)).PROMPT).toBe("Imię: ");
+  });
+
+  it("does not rewrite files when every item is unchanged", async () => {
+    const before = await fs.readFile(enPath, "utf-8");
+
+    await handleUpsertTranslationsBatch({
+      items: [{ filePath: enPath, key: "EXISTING", value: "Existing" }],
+    });
+
+    expect(await fs.readFile(enPath, "utf-8")).toBe(before);
+  });
+
+  it("reports items targeting a missing culture file as errors but writes the rest", async () => {
+    const result = await handleUpsertTranslationsBatch({
+      basePath,
+      translations: { KEY: { "en-US": "Value", "fr-FR": "Valeur" } },
+    });
+
+    expect(result.isError).toBe(true);
+    const report = JSON.parse(result.content[0]!.text) as Report;
+    expect(report.results[1]).toMatchObject({
+      file: "Language.fr-FR.resx",
+      action: "error",
+    });
+    expect(report.results[1]!.error).toContain("Unable to read file");
+    expect((await valuesOf(enPath))["KEY"]).toBe("Value");
+  });
+
+  it("refuses non-string resources per item", async () => {
+    await fs.writeFile(
+      enPath,
+      resx({ EXISTING: "Existing" }).replace(
+        "</root>",
+        '  <data name="ICON" type="System.Resources.ResXFileRef, System.Windows.Forms">\n' +
+          "    <value>Icon.ico;System.Drawing.Icon, System.Drawing</value>\n  </data>\n</root>",
+      ),
+      "utf-8",
+    );
+
+    const result = await handleUpsertTranslationsBatch({
+      items: [
+        { filePath: enPath, key: "ICON", value: "oops" },
+        { filePath: enPath, key: "EXISTING", value: "Changed" },
+      ],
+    });
+
+    const report = JSON.parse(result.content[0]!.text) as Report;
+    expect(report.results[0]).toMatchObject({ key: "ICON", action: "error" });
+    expect(report.results[0]!.error).toContain("refusing to overwrite");
+    expect(await valuesOf(enPath)).toEqual({
+      EXISTING: "Changed",
+      ICON: "Icon.ico;System.Drawing.Icon, System.Drawing",
+    });
+  });
+
+  it("does not rewrite a CRLF file for an unchanged multi-line value", async () => {
+    await fs.writeFile(enPath, crlf(resx({ MULTI: "line1\nline2" })));
+    const before = await fs.readFile(enPath, "utf-8");
+
+    const result = await handleUpsertTranslationsBatch({
+      basePath,
+      translations: { MULTI: { "en-US": "line1\nline2" } },
+    });
+
+    const report = JSON.parse(result.content[0]!.text) as Report;
+    expect(report.summary).toMatchObject({ unchanged: 1, updated: 0 });
+    expect(await fs.readFile(enPath, "utf-8")).toBe(before);
+  });
+
+  it("throws when nothing is provided", async () => {
+    await expect(handleUpsertTranslationsBatch({})).rejects.toThrow(
+      "at least one change",
+    );
+  });
+
+  it("throws when translations is given without basePath", async () => {
+    await expect(
+      handleUpsertTranslationsBatch({ translations: { K: { default: "v" } } }),
+    ).rejects.toThrow("'basePath' is required");
+  });
+
+  it("throws for cultures that are not culture names", async () => {
+    for (const culture of ["x/../../Secret", "Errors", ""]) {
+      await expect(
+        handleUpsertTranslationsBatch({
+          basePath,
+          translations: { K: { [culture]: "v" } },
+        }),
+      ).rejects.toThrow(`invalid culture '${culture}'`);
+    }
+    expect(await fs.readdir(tempDir)).toEqual(["Language.en-US.resx", "Language.resx"]);
+  });
+
+  it("throws for an invalid item", async () => {
+    await expect(
+      handleUpsertTranslationsBatch({ items: [{ filePath: enPath, key: "K" }] }),
+    ).rejects.toThrow("'items[0].value'");
+  });
+
+  it("previews changes with previous values and per-file diffs in dry-run mode", async () => {
+    const result = await handleUpsertTranslationsBatch({
+      items: [
+        { filePath: enPath, key: "EXISTING", value: "Changed" },
+        { filePath: enPath, key: "NEW", value: "New" },
+        { filePath: basePath, key: "EXISTING", value: "Istniejący" },
+      ],
+      dryRun: true,
+    });
+
+    const report = JSON.parse(result.content[0]!.text) as Report & {
+      dryRun: boolean;
+      diffs: { file: string; diff: string }[];
+    };
+    expect(report.dryRun).toBe(true);
+    expect(report.results[0]).toMatchObject({
+      action: "updated",
+      previousValue: "Existing",
+    });
+    expect(report.results[1]).not.toHaveProperty("previousValue");
+    expect(report.diffs.map((d) => d.file)).toEqual(["Language.en-US.resx"]);
+    expect(report.diffs[0]!.diff).toContain("+    <value>Changed</value>");
+    expect(await valuesOf(enPath)).toEqual({ EXISTING: "Existing" });
+  });
+});
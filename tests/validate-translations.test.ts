@@ -0,0 +1,111 @@
+import * as path from "node:path";
+import * as fs from "node:fs/promises";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handleValidateTranslations } from "../src/tools/validate-translations.js";
+import { createTempDir, resx } from "./helpers.js";
+
+interface Report {
+  cultures: string[];
+  totalViolations: number;
+  violations: {
+    key: string;
+    culture: string;
+    file: string;
+    issues: { type: string; message: string }[];
+  }[];
+  unreadable?: string[];
+}
+
+function parse(text: string): Report {
+  return JSON.parse(text) as Report;
+}
+
+describe("handleValidateTranslations", () => {
+  let tempDir: string;
+  let basePath: string;
+
+  beforeEach(async () => {
+    tempDir = await createTempDir("validate", {
+      "Language.resx": resx({
+        GREETING: "Hello {0}",
+        ITEMS: "{0} of {1}",
+        BOLD: "&lt;b&gt;Save&lt;/b&gt;",
+        PLAIN: "Plain",
+      }),
+      "Language.de-DE.resx": resx({
+        GREETING: "Hallo {0}",
+        ITEMS: "{0} von {2}",
+        BOLD: "Speichern",
+        PLAIN: "",
+      }),
+      "Language.fr-FR.resx": resx({ GREETING: "Bonjour", ONLY_FR: "{9}" }),
+    });
+    basePath = path.join(tempDir, "Language.resx");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("reports violations per key and culture", async () => {
+    const result = await handleValidateTranslations({ basePath });
+
+    expect(result.isError).toBeUndefined();
+    const report = parse(result.content[0]!.text);
+    expect(report.cultures).toEqual(["de-DE", "fr-FR"]);
+    expect(
+      report.violations.map((v) => ({
+        key: v.key,
+        culture: v.culture,
+        types: v.issues.map((i) => i.type),
+      })),
+    ).toEqual([
+      { key: "BOLD", culture: "de-DE", types: ["tag_mismatch", "tag_mismatch"] },
+      { key: "GREETING", culture: "fr-FR", types: ["missing_placeholder"] },
+      {
+        key: "ITEMS",
+        culture: "de-DE",
+        types: ["missing_placeholder", "unexpected_placeholder"],
+      },
+    ]);
+    expect(report.totalViolations).toBe(3);
+    expect(report.violations[1]!.file).toBe("Language.fr-FR.resx");
+  });
+
+  it("skips empty translations and keys missing from the default file", async () => {
+    const report = parse(
+      (await handleValidateTranslations({ basePath })).content[0]!.text,
+    );
+
+    const keys = report.violations.map((v) => v.key);
+    expect(keys).not.toContain("PLAIN");
+    expect(keys).not.toContain("ONLY_FR");
+  });
+
+  it("lists unreadable culture files", async () => {
+    await fs.writeFile(path.join(tempDir, "Language.pl-PL.resx"), "<root>", "utf-8");
+
+    const report = parse(
+      (await handleValidateTranslations({ basePath })).content[0]!.text,
+    );
+
+    expect(report.unreadable).toEqual([
+      "Language.pl-PL.resx (line 1, column 6: Unclosed root tag.)",
+    ]);
+  });
+
+  it("returns an error when the default file cannot be read", async () => {
+    const result = await handleValidateTranslations({
+      basePath: path.join(tempDir, "Missing.resx"),
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]!.text).toContain("Unable to read file");
+  });
+
+  it("throws for a non-.resx path", async () => {
+    await expect(handleValidateTranslations({ basePath: "file.xml" })).rejects.toThrow(
+      "must point to a .resx file",
+    );
+  });
+});
@@ -1,5 +1,18 @@
 import { describe, it, expect } from "vitest";
-import { requireString, requireResxPath } from "../src/utils/validation.js";
+import {
+  requireString,
+  requireNonEmptyString,
+  requireResxPath,
+  optionalString,
+  optionalResxPath,
+  optionalBoolean,
+  optionalComment,
+  optionalInteger,
+  optionalStringArray,
+  optionalRegExp,
+  optionalSortMode,
+  optionalKeySeparator,
+} from "../src/utils/validation.js";
 
 describe("requireString", () => {
   it("returns trimmed string for valid input", () => {
@@ -27,6 +40,17 @@ describe("requireString", () => {
   });
 });
 
+describe("requireNonEmptyString", () => {
+  it("returns the string without trimming it", () => {
+    expect(requireNonEmptyString("  hello  ", "param")).toBe("  hello  ");
+  });
+
+  it("throws for empty and whitespace-only strings", () => {
+    expect(() => requireNonEmptyString("", "value")).toThrow("non-empty string");
+    expect(() => requireNonEmptyString(" \n ", "value")).toThrow("non-empty string");
+  });
+});
+
 describe("requireResxPath", () => {
   it("returns path for valid .resx file", () => {
     expect(requireResxPath("Language.resx", "path")).toBe("Language.resx");
@@ -37,10 +61,151 @@ describe("requireResxPath", () => {
   });
 
   it("throws for non-.resx path", () => {
-    expect(() => requireResxPath("file.xml", "path")).toThrow("must point to a .resx file");
+    expect(() => requireResxPath("file.xml", "path")).toThrow(
+      "must point to a .resx file",
+    );
   });
 
   it("throws for empty value", () => {
     expect(() => requireResxPath("", "path")).toThrow("non-empty string");
   });
 });
+
+describe("optionalString", () => {
+  it("returns undefined when omitted", () => {
+    expect(optionalString(undefined, "param")).toBeUndefined();
+    expect(optionalString(null, "param")).toBeUndefined();
+  });
+
+  it("returns trimmed string when provided", () => {
+    expect(optionalString("  hi ", "param")).toBe("hi");
+  });
+
+  it("throws for non-string values", () => {
+    expect(() => optionalString(1, "param")).toThrow("non-empty string");
+  });
+});
+
+describe("optionalResxPath", () => {
+  it("returns undefined when omitted", () => {
+    expect(optionalResxPath(undefined, "path")).toBeUndefined();
+  });
+
+  it("validates the extension when provided", () => {
+    expect(optionalResxPath("A.resx", "path")).toBe("A.resx");
+    expect(() => optionalResxPath("a.txt", "path")).toThrow("must point to a .resx file");
+  });
+});
+
+describe("optionalBoolean", () => {
+  it("returns the fallback when omitted", () => {
+    expect(optionalBoolean(undefined, "flag")).toBe(false);
+    expect(optionalBoolean(undefined, "flag", true)).toBe(true);
+  });
+
+  it("returns the provided boolean", () => {
+    expect(optionalBoolean(true, "flag")).toBe(true);
+    expect(optionalBoolean(false, "flag", true)).toBe(false);
+  });
+
+  it("throws for non-boolean values", () => {
+    expect(() => optionalBoolean("true", "flag")).toThrow(
+      "Parameter 'flag' must be a boolean.",
+    );
+  });
+});
+
+describe("optionalComment", () => {
+  it("returns undefined when omitted", () => {
+    expect(optionalComment(undefined, "comment")).toBeUndefined();
+  });
+
+  it("returns null for an empty string to signal removal", () => {
+    expect(optionalComment("", "comment")).toBeNull();
+    expect(optionalComment("  ", "comment")).toBeNull();
+  });
+
+  it("returns the trimmed comment", () => {
+    expect(optionalComment(" Context ", "comment")).toBe("Context");
+  });
+
+  it("throws for non-string values", () => {
+    expect(() => optionalComment(5, "comment")).toThrow("must be a string");
+  });
+});
+
+describe("optionalInteger", () => {
+  it("returns the fallback when omitted", () => {
+    expect(optionalInteger(undefined, "n", 7)).toBe(7);
+  });
+
+  it("returns integers within range", () => {
+    expect(optionalInteger(3, "n", 0, { min: 0, max: 5 })).toBe(3);
+  });
+
+  it("throws for non-integers and out-of-range values", () => {
+    expect(() => optionalInteger(1.5, "n", 0)).toThrow("must be an integer");
+    expect(() => optionalInteger("3", "n", 0)).toThrow("must be an integer");
+    expect(() => optionalInteger(-1, "n", 0, { min: 0 })).toThrow("must be an integer");
+  });
+});
+
+describe("optionalStringArray", () => {
+  it("returns undefined when omitted and trimmed strings otherwise", () => {
+    expect(optionalStringArray(undefined, "cultures")).toBeUndefined();
+    expect(optionalStringArray([" de ", "fr"], "cultures")).toEqual(["de", "fr"]);
+  });
+
+  it("rejects empty arrays, non-arrays and blank items", () => {
+    expect(() => optionalStringArray([], "cultures")).toThrow(
+      "Parameter 'cultures' must be a non-empty array of strings.",
+    );
+    expect(() => optionalStringArray("de", "cultures")).toThrow("non-empty array");
+    expect(() => optionalStringArray(["de", " "], "cultures")).toThrow(
+      "Parameter 'cultures[1]' is required",
+    );
+  });
+});
+
+describe("optionalRegExp", () => {
+  it("returns undefined when omitted", () => {
+    expect(optionalRegExp(undefined, "re")).toBeUndefined();
+  });
+
+  it("compiles the pattern with the given flags", () => {
+    const re = optionalRegExp("^a", "re", "i")!;
+    expect(re.test("ABC")).toBe(true);
+  });
+
+  it("throws a descriptive error for invalid patterns", () => {
+    expect(() => optionalRegExp("[", "re")).toThrow(
+      "Parameter 're' is not a valid regular expression",
+    );
+  });
+});
+
+describe("optionalSortMode", () => {
+  it("returns undefined when omitted", () => {
+    expect(optionalSortMode(undefined, "sortMode")).toBeUndefined();
+  });
+
+  it("accepts supported modes and rejects others", () => {
+    expect(optionalSortMode("preserve", "sortMode")).toBe("preserve");
+    expect(() => optionalSortMode("random", "sortMode")).toThrow(
+      "Parameter 'sortMode' must be one of: alphabetical, ordinal, preserve, insert-sorted.",
+    );
+  });
+});
+
+describe("optionalKeySeparator", () => {
+  it("defaults to a dot", () => {
+    expect(optionalKeySeparator(undefined, "separator")).toBe(".");
+  });
+
+  it("accepts other separators and rejects empty ones", () => {
+    expect(optionalKeySeparator("__", "separator")).toBe("__");
+    expect(() => optionalKeySeparator("", "separator")).toThrow(
+      "Parameter 'separator' is required and must be a non-empty string.",
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { buildXliff, parseXliff } from "../src/utils/xliff.js";
+import type { XliffDocument } from "../src/types.js";
+
+const DOC: XliffDocument = {
+  version: "2.0",
+  sourceLanguage: "en",
+  targetLanguage: "de-DE",
+  original: "Language.resx",
+  units: [
+    {
+      id: "GREETING",
+      source: "Hello <b>{0}</b> & co",
+      target: "Hallo <b>{0}</b>",
+      note: "Start page",
+      state: "translated",
+    },
+    { id: "FAREWELL", source: "Bye\n", state: "needs-translation" },
+  ],
+};
+
+describe("buildXliff", () => {
+  it("writes XLIFF 2.0 units with notes and segment states", () => {
+    const xml = buildXliff(DOC);
+
+    expect(xml).toContain(
+      '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de-DE">',
+    );
+    expect(xml).toContain('<file id="f1" original="Language.resx">');
+    expect(xml).toContain("<note>Start page</note>");
+    expect(xml).toContain('<segment state="translated">');
+    expect(xml).toContain(
+      '<source xml:space="preserve">Hello &lt;b&gt;{0}&lt;/b&gt; &amp; co</source>',
+    );
+    expect(xml).toContain('<segment state="initial" subState="resx:needs-translation">');
+    expect(xml).toContain('<source xml:space="preserve">Bye\n</source>');
+    expect(xml.match(/<target/g)).toHaveLength(1);
+  });
+
+  it("writes XLIFF 1.2 trans-units with target states", () => {
+    const xml = buildXliff({ ...DOC, version: "1.2" });
+
+    expect(xml).toContain(
+      '<xliff xmlns="urn:oasis:names:tc:xliff:document:1.2" version="1.2">',
+    );
+    expect(xml).toContain(
+      '<file original="Language.resx" source-language="en" target-language="de-DE" datatype="resx">',
+    );
+    expect(xml).toContain(
+      '<trans-unit id="GREETING" resname="GREETING" xml:space="preserve">',
+    );
+    expect(xml).toContain(
+      '<target state="translated">Hallo &lt;b&gt;{0}&lt;/b&gt;</target>',
+    );
+    expect(xml).toContain('<target state="needs-translation"/>');
+    expect(xml).toContain("<note>Start page</note>");
+  });
+});
+
+describe("parseXliff", () => {
+  it("round-trips documents written by buildXliff", async () => {
+    for (const version of ["2.0", "1.2"] as const) {
+      const parsed = await parseXliff(buildXliff({ ...DOC, version }));
+
+      expect(parsed).toMatchObject({
+        version,
+        sourceLanguage: "en",
+        targetLanguage: "de-DE",
+        original: "Language.resx",
+      });
+      expect(parsed.units).toEqual([
+        {
+          id: "GREETING",
+          source: "Hello <b>{0}</b> & co",
+          target: "Hallo <b>{0}</b>",
+          state: "translated",
+        },
+        {
+          id: "FAREWELL",
+          source: "Bye\n",
+          ...(version === "1.2" ? { target: "" } : {}),
+          state: "needs-translation",
+        },
+      ]);
+    }
+  });
+
+  it("joins segments, flattens groups and prefers name/resname over id", async () => {
+    const parsed = await parseXliff(
+      [
+        '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="fr">',
+        '  <file id="f1"><group id="g1">',
+        '    <unit id="u1" name="TWO_PARTS">',
+        "      <segment><source>One. </source><target>Un. </target></segment>",
+        "      <segment><source>Two.</source><target>Deux.</target></segment>",
+        "    </unit>",
+        "  </group></file>",
+        "</xliff>",
+      ].join("\n"),
+    );
+
+    expect(parsed.units).toEqual([
+      { id: "TWO_PARTS", source: "One. Two.", target: "Un. Deux.", state: "translated" },
+    ]);
+  });
+
+  it("treats targets in an untranslated state as not translated", async () => {
+    const parsed = await parseXliff(
+      [
+        '<xliff version="1.2"><file source-language="en" target-language="fr"><body>',
+        '  <trans-unit id="A"><source>Save</source><target state="new">Save</target></trans-unit>',
+        "</body></file></xliff>",
+      ].join("\n"),
+    );
+
+    expect(parsed.units[0]!.state).toBe("needs-translation");
+  });
+
+  it("flags units with inline markup", async () => {
+    const parsed = await parseXliff(
+      [
+        '<xliff version="1.2"><file source-language="en" target-language="fr"><body>',
+        '  <trans-unit id="A"><source>Hi <x id="1"/></source><target>Salut <x id="1"/></target></trans-unit>',
+        "</body></file></xliff>",
+      ].join("\n"),
+    );
+
+    expect(parsed.units[0]).toMatchObject({
+      id: "A",
+      problem: "unit contains inline markup",
+    });
+  });
+
+  it("rejects documents that are not XLIFF 2.0 or 1.2", async () => {
+    await expect(parseXliff("<root/>")).rejects.toThrow("Not an XLIFF document");
+    await expect(parseXliff('<xliff version="2.1"/>')).rejects.toThrow(
+      "Unsupported XLIFF version '2.1'",
+    );
+  });
+});